@@ -6,81 +6,154 @@
  * enabling deterministic replay of known paths.
  */
 
-import { DeviceService, DeviceStateSnapshot } from '@device-stream/core';
+import {
+  CallOptions,
+  DeviceError,
+  DeviceErrorCode,
+  DeviceErrorOptions,
+  DeviceService,
+  DeviceStateSnapshot,
+  DeviceTimeoutError,
+  ElementNotFoundError,
+  InvalidArgumentError,
+  UnsupportedError,
+  abortableDelay,
+  isDeviceError,
+  withCallOptions,
+} from '@device-stream/core';
 import {
   AgentSessionOptions,
   CompactState,
   ActionDescriptor,
   ActionResult,
+  CompressedNode,
+  ElementSelector,
+  GraphStorage,
+  NavigateOptions,
   ScreenFingerprint,
+  ScreenNode,
+  ScreenQuery,
+  StableWaitOptions,
+  StateFormat,
+  StateSerializer,
+  TokenEstimator,
+  WaitOptions,
+  WaitResult,
 } from './types';
 import { compressTree } from './tree-compressor';
-import { serializeToCompactText } from './compact-serializer';
+import { serializeState } from './state-formats';
 import { classifyZones, extractContext, computeFingerprint } from './skeleton-fingerprint';
 import { NavigationGraph } from './navigation-graph';
-import { findElement, computeCenter } from './element-actions';
+import { JsonFileGraphStorage } from './graph-storage';
+import { diffStates } from './state-diff';
+import { resolveElement, describeCandidate, computeCenter } from './element-actions';
+import { describeScreenQuery, parseScreenPath } from './screen-query';
 
-const DEFAULT_STABILITY_DELAY_MS = 500;
 const DEFAULT_MAX_ELEMENTS = 50;
+const DEFAULT_WAIT_TIMEOUT_MS = 10_000;
+const DEFAULT_SETTLE_TIMEOUT_MS = 5_000;
+const DEFAULT_POLL_INTERVAL_MS = 100;
+const DEFAULT_POLL_BACKOFF = 1.5;
+const DEFAULT_MAX_POLL_INTERVAL_MS = 1_000;
+const DEFAULT_STABLE_POLLS = 2;
+const MAX_NAVIGATION_STEPS = 25;
 
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Navigation didn't arrive: NOT_FOUND when no known path leads (any further)
+ * to the target, TIMEOUT when the step limit ran out, CANCELLED on abort.
+ * `results` holds the actions performed on the way.
+ */
+export class NavigationError extends DeviceError {
+  declare readonly code: 'NOT_FOUND' | 'TIMEOUT' | 'CANCELLED';
+  readonly results: ActionResult[];
+
+  constructor(
+    code: NavigationError['code'],
+    message: string,
+    results: ActionResult[],
+    options?: DeviceErrorOptions,
+  ) {
+    super(code, message, options);
+    this.name = 'NavigationError';
+    this.results = results;
+  }
 }
 
 export class AgentSession {
   private deviceService: DeviceService;
   private serial: string;
   private graph: NavigationGraph;
-  private graphPath: string;
+  private graphStorage: GraphStorage;
   private maxElements: number;
-  private stabilityDelayMs: number;
+  private stateFormat: StateFormat | StateSerializer;
+  private tokenBudget?: number;
+  private estimateTokens?: TokenEstimator;
+  private stabilityDelayMs?: number;
+  private settleOptions: StableWaitOptions;
+  private actionTimeoutMs?: number;
+  private onAmbiguousSelector: 'warn' | 'refuse';
+  private includeDiff: boolean;
+  private lastState: CompactState | null = null;
   private currentFingerprint: string | null = null;
+  private screenAliasThreshold?: number;
 
   constructor(deviceService: DeviceService, options: AgentSessionOptions) {
     this.deviceService = deviceService;
     this.serial = options.serial;
-    this.graph = new NavigationGraph();
-    this.graphPath = options.graphPath || `nav-graph-${options.serial}.json`;
-    this.maxElements = options.maxElements ?? DEFAULT_MAX_ELEMENTS;
-    this.stabilityDelayMs = options.stabilityDelayMs ?? DEFAULT_STABILITY_DELAY_MS;
+    this.screenAliasThreshold = options.screenAliasThreshold;
+    this.graph = new NavigationGraph(undefined, { aliasThreshold: this.screenAliasThreshold });
+    this.graphStorage = options.graphStorage
+      ?? new JsonFileGraphStorage(options.graphPath || `nav-graph-${options.serial}.json`);
+    this.maxElements = options.maxElements
+      ?? (options.tokenBudget !== undefined ? Number.POSITIVE_INFINITY : DEFAULT_MAX_ELEMENTS);
+    this.stateFormat = options.stateFormat ?? 'compact';
+    this.tokenBudget = options.tokenBudget;
+    this.estimateTokens = options.estimateTokens;
+    this.stabilityDelayMs = options.stabilityDelayMs;
+    this.settleOptions = { timeoutMs: DEFAULT_SETTLE_TIMEOUT_MS, ...options.settle };
+    this.actionTimeoutMs = options.actionTimeoutMs;
+    this.onAmbiguousSelector = options.onAmbiguousSelector ?? 'warn';
+    this.includeDiff = options.includeDiff ?? false;
   }
 
   async initialize(): Promise<void> {
-    this.graph = await NavigationGraph.load(this.graphPath);
+    this.graph = new NavigationGraph(await this.graphStorage.load(), { aliasThreshold: this.screenAliasThreshold });
   }
 
   async getCompactState(): Promise<CompactState> {
+    return this.registerState(await this.captureState());
+  }
+
+  /**
+   * Snapshot the device without touching the graph; polls use this so only
+   * the state a wait settles on counts as a visit
+   */
+  private async captureState(signal?: AbortSignal): Promise<CompactState> {
     if (!this.deviceService.getDeviceState) {
-      throw new Error('DeviceService does not support getDeviceState');
+      throw new UnsupportedError('DeviceService does not support getDeviceState');
     }
 
-    const snapshot = await this.deviceService.getDeviceState(this.serial);
+    const snapshot = await this.deviceService.getDeviceState(this.serial, { signal });
     return this.buildCompactState(snapshot);
   }
 
   private buildCompactState(snapshot: DeviceStateSnapshot): CompactState {
     const elements = compressTree(snapshot.tree, this.maxElements);
-    const compactTree = serializeToCompactText(elements);
     const classified = classifyZones(elements, snapshot.tree);
+    const compactTree = serializeState(elements, this.stateFormat, {
+      tokenBudget: this.tokenBudget,
+      estimateTokens: this.estimateTokens,
+      zones: classified,
+      screen: { width: snapshot.deviceContext.screenWidth, height: snapshot.deviceContext.screenHeight },
+    });
     const context = extractContext(snapshot.tree, snapshot.appInfo);
     const fingerprint = computeFingerprint(classified, context);
 
-    this.currentFingerprint = fingerprint.fingerprint;
-
     const knownScreen = !!this.graph.getNode(fingerprint.fingerprint);
     const suggestedActions = knownScreen
       ? this.graph.getAvailableActions(fingerprint.fingerprint)
       : undefined;
 
-    // Register node in graph
-    this.graph.getOrCreateNode(
-      fingerprint.fingerprint,
-      `${fingerprint.context.appPackage}:${fingerprint.context.toolbarTitle || 'unknown'}`,
-      fingerprint.context.appPackage,
-      fingerprint.anchorSummary,
-      suggestedActions || [],
-    );
-
     return {
       fingerprint,
       compactTree,
@@ -92,22 +165,195 @@ export class AgentSession {
     };
   }
 
-  async performAction(action: ActionDescriptor): Promise<ActionResult> {
+  private registerState(state: CompactState): CompactState {
+    const { fingerprint } = state;
+    this.currentFingerprint = fingerprint.fingerprint;
+    this.lastState = state;
+
+    // Register node in graph
+    this.graph.getOrCreateNode(
+      fingerprint.fingerprint,
+      `${fingerprint.context.appPackage}:${fingerprint.context.toolbarTitle || 'unknown'}`,
+      fingerprint.context.appPackage,
+      fingerprint.anchorSummary,
+      state.suggestedActions || [],
+      fingerprint.context,
+    );
+
+    return state;
+  }
+
+  // ─── Waits ───
+
+  /**
+   * Poll the screen until `condition` holds. Polls back off from
+   * `intervalMs` by `backoff` up to `maxIntervalMs`; throws
+   * DeviceTimeoutError after `timeoutMs`. The satisfying state becomes the
+   * current one.
+   */
+  async waitFor(
+    condition: (state: CompactState) => boolean,
+    options?: WaitOptions,
+    description = 'condition',
+  ): Promise<WaitResult> {
+    const result = await this.poll(condition, options, description);
+    this.registerState(result.state);
+    return result;
+  }
+
+  /**
+   * Wait until an element matches `selector`
+   */
+  waitForElement(selector: ElementSelector, options?: WaitOptions): Promise<WaitResult> {
+    return this.waitFor(
+      state => resolveElement(state.elements, selector).best !== undefined,
+      options,
+      `element ${JSON.stringify(selector)}`,
+    );
+  }
+
+  /**
+   * Wait until no element matches `selector`
+   */
+  waitForElementGone(selector: ElementSelector, options?: WaitOptions): Promise<WaitResult> {
+    return this.waitFor(
+      state => resolveElement(state.elements, selector).best === undefined,
+      options,
+      `element ${JSON.stringify(selector)} gone`,
+    );
+  }
+
+  /**
+   * Wait until the screen fingerprint differs from `from` (default: the
+   * current fingerprint)
+   */
+  waitForFingerprintChange(from?: string, options?: WaitOptions): Promise<WaitResult> {
+    const previous = from ?? this.currentFingerprint;
+    return this.waitFor(
+      state => state.fingerprint.fingerprint !== previous,
+      options,
+      `fingerprint change from ${previous}`,
+    );
+  }
+
+  waitForFingerprint(fingerprint: string, options?: WaitOptions): Promise<WaitResult> {
+    return this.waitFor(
+      state => state.fingerprint.fingerprint === fingerprint,
+      options,
+      `fingerprint ${fingerprint}`,
+    );
+  }
+
+  /**
+   * Wait until the compact tree is identical across `polls` consecutive polls
+   */
+  waitForStable(options?: StableWaitOptions): Promise<WaitResult> {
+    return this.waitFor(this.stableCondition(options?.polls), options, 'stable screen');
+  }
+
+  private stableCondition(polls = DEFAULT_STABLE_POLLS): (state: CompactState) => boolean {
+    let previous: string | undefined;
+    let streak = 0;
+    return state => {
+      const key = `${state.fingerprint.fingerprint}\n${state.compactTree}`;
+      streak = key === previous ? streak + 1 : 1;
+      previous = key;
+      return streak >= polls;
+    };
+  }
+
+  /**
+   * Poll loop behind the waits. With `keepLastOnTimeout`, a timeout returns
+   * the last polled state (settled: false) instead of throwing.
+   */
+  private async poll(
+    condition: (state: CompactState) => boolean,
+    options: WaitOptions = {},
+    description: string,
+    keepLastOnTimeout = false,
+  ): Promise<WaitResult & { settled: boolean }> {
+    const startTime = Date.now();
+    const maxIntervalMs = options.maxIntervalMs ?? DEFAULT_MAX_POLL_INTERVAL_MS;
+    const backoff = options.backoff ?? DEFAULT_POLL_BACKOFF;
+    let intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    let last: CompactState | undefined;
+    let polls = 0;
+
+    const callOptions: CallOptions = {
+      signal: options.signal,
+      timeoutMs: options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS,
+    };
+
+    try {
+      const state = await withCallOptions(callOptions, `waitFor(${description})`, { serial: this.serial }, async signal => {
+        for (;;) {
+          last = await this.captureState(signal);
+          polls++;
+          if (condition(last)) return last;
+          await abortableDelay(intervalMs, signal);
+          intervalMs = Math.min(intervalMs * backoff, maxIntervalMs);
+        }
+      });
+      return { state, elapsedMs: Date.now() - startTime, polls, settled: true };
+    } catch (e) {
+      if (keepLastOnTimeout && last && e instanceof DeviceTimeoutError) {
+        return { state: last, elapsedMs: Date.now() - startTime, polls, settled: false };
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Wait for the screen after an action: the fixed `stabilityDelayMs` when
+   * configured, otherwise until the tree stops changing
+   */
+  private async settle(): Promise<{ state: CompactState; settleMs: number; settled: boolean }> {
+    if (this.stabilityDelayMs !== undefined) {
+      const startTime = Date.now();
+      await abortableDelay(this.stabilityDelayMs);
+      const state = await this.getCompactState();
+      return { state, settleMs: Date.now() - startTime, settled: true };
+    }
+
+    const result = await this.poll(
+      this.stableCondition(this.settleOptions.polls),
+      this.settleOptions,
+      'stable screen',
+      true,
+    );
+    this.registerState(result.state);
+    return { state: result.state, settleMs: result.elapsedMs, settled: result.settled };
+  }
+
+  /**
+   * Run one action and record the transition. A hung device call fails the
+   * action with errorCode 'TIMEOUT' / 'CANCELLED' instead of blocking; the
+   * timeout defaults to `actionTimeoutMs`.
+   */
+  async performAction(action: ActionDescriptor, options?: CallOptions): Promise<ActionResult> {
     const previousFingerprint = this.currentFingerprint || '';
+    const previousState = this.lastState;
     const startTime = Date.now();
     let success = true;
     let error: string | undefined;
+    let errorCode: DeviceErrorCode | undefined;
+    let warning: string | undefined;
+
+    const callOptions: CallOptions = {
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs ?? this.actionTimeoutMs,
+    };
 
     try {
-      await this.executeAction(action);
+      warning = await withCallOptions(callOptions, `performAction(${action.type})`, { serial: this.serial }, signal =>
+        this.executeAction(action, signal));
     } catch (e) {
       success = false;
       error = e instanceof Error ? e.message : String(e);
+      if (isDeviceError(e)) errorCode = e.code;
     }
 
-    await delay(this.stabilityDelayMs);
-
-    const state = await this.getCompactState();
+    const { state, settleMs, settled } = await this.settle();
     const newFingerprint = state.fingerprint.fingerprint;
     const latencyMs = Date.now() - startTime;
 
@@ -119,7 +365,7 @@ export class AgentSession {
         latencyMs,
         success,
       );
-      await this.graph.save(this.graphPath);
+      await this.persistGraph();
     }
 
     return {
@@ -129,55 +375,141 @@ export class AgentSession {
       transitioned: previousFingerprint !== newFingerprint,
       latencyMs,
       error,
+      errorCode,
+      warning,
+      settleMs,
+      settled,
+      diff: this.includeDiff && previousState ? diffStates(previousState, state) : undefined,
     };
   }
 
-  async navigateTo(targetFingerprint: string): Promise<ActionResult[]> {
+  /**
+   * Drive the device to a known screen along the graph's expected-cost plan
+   * (see NavigationGraph.planTo). Returns the actions taken on arrival;
+   * otherwise throws NavigationError, when a screen on the way has no known
+   * path on (NOT_FOUND), after `maxSteps` actions (TIMEOUT) or on abort
+   * (CANCELLED).
+   */
+  async navigateTo(targetFingerprint: string, options: NavigateOptions = {}): Promise<ActionResult[]> {
     const results: ActionResult[] = [];
+    const fail = (code: NavigationError['code'], message: string) =>
+      new NavigationError(code, message, results, { serial: this.serial });
 
     if (!this.currentFingerprint) {
       await this.getCompactState();
     }
 
-    if (this.currentFingerprint === targetFingerprint) return results;
-
-    const path = this.graph.findPath(this.currentFingerprint!, targetFingerprint);
-    if (!path) {
-      throw new Error(
-        `No known path from ${this.currentFingerprint} to ${targetFingerprint}`,
-      );
-    }
+    // Compare graph nodes, so an aliased near-duplicate of the target counts
+    const target = this.graph.resolve(targetFingerprint);
+    const arrived = (fingerprint: string) => this.graph.resolve(fingerprint) === target;
+    if (arrived(this.currentFingerprint!)) return results;
+
+    // Follow the plan from wherever we are. A failed action was recorded as
+    // a retry that stayed put, and an unlikely outcome as a detour; both
+    // replan with what was just observed, so execution follows the same cost
+    // model as the plan.
+    let plan = this.graph.planTo(targetFingerprint);
+    const maxSteps = options.maxSteps ?? MAX_NAVIGATION_STEPS;
+    for (let steps = 0; steps < maxSteps; steps++) {
+      if (options.signal?.aborted) {
+        throw fail('CANCELLED', `Navigation to ${targetFingerprint} was cancelled`);
+      }
+      const step = plan.policy.get(this.graph.resolve(this.currentFingerprint!));
+      if (!step) {
+        throw fail('NOT_FOUND', `No known path from ${this.currentFingerprint} to ${targetFingerprint}`);
+      }
 
-    for (const action of path) {
-      const result = await this.performAction(action);
+      const result = await this.performAction(step.action, { signal: options.signal });
       results.push(result);
+      if (arrived(result.newFingerprint)) return results;
 
-      if (!result.success) break;
+      if (!result.success || this.graph.resolve(result.newFingerprint) !== step.expectedOutcome) {
+        plan = this.graph.planTo(targetFingerprint);
+      }
+    }
 
-      // If we arrived early, stop
-      if (result.newFingerprint === targetFingerprint) break;
+    if (options.signal?.aborted) {
+      throw fail('CANCELLED', `Navigation to ${targetFingerprint} was cancelled`);
+    }
+    throw fail('TIMEOUT', `Did not reach ${targetFingerprint} within ${maxSteps} steps`);
+  }
 
-      // If we went off-track, try to re-plan
-      if (result.transitioned && result.newFingerprint !== targetFingerprint) {
-        const newPath = this.graph.findPath(result.newFingerprint, targetFingerprint);
-        if (!newPath) break;
-        // Continue with the new path in subsequent iterations
-        path.splice(0, path.length, ...newPath);
+  /**
+   * Navigate to a screen described by what it shows instead of its
+   * fingerprint. A string is a breadcrumb of titles such as
+   * "Settings > Privacy", visited in order. Of the best matches the one
+   * cheapest to reach wins. Throws NavigationError like navigateTo when a
+   * step doesn't arrive, with the actions of all steps so far.
+   */
+  async navigateToScreen(query: ScreenQuery | string, options: NavigateOptions = {}): Promise<ActionResult[]> {
+    const steps = typeof query === 'string' ? parseScreenPath(query) : [query];
+    if (steps.length === 0) {
+      throw new InvalidArgumentError('Empty screen description', { serial: this.serial });
+    }
+
+    const results: ActionResult[] = [];
+    for (const step of steps) {
+      if (!this.currentFingerprint) {
+        await this.getCompactState();
+      }
+      const target = this.resolveScreen(step, results);
+      try {
+        results.push(...await this.navigateTo(target.fingerprint, options));
+      } catch (e) {
+        if (!(e instanceof NavigationError)) throw e;
+        throw new NavigationError(
+          e.code,
+          `${e.message} (${describeScreenQuery(step)})`,
+          [...results, ...e.results],
+          { serial: this.serial, cause: e },
+        );
       }
     }
 
     return results;
   }
 
-  async tapElement(
-    selector: { index?: number; text?: string; resourceId?: string; contentDesc?: string; className?: string },
-  ): Promise<ActionResult> {
-    const state = await this.getCompactState();
-    const element = findElement(state.elements, selector);
+  /**
+   * Best known screen for `query`; throws NavigationError (NOT_FOUND) with
+   * the `results` so far when none matches or none can be reached
+   */
+  private resolveScreen(query: ScreenQuery, results: ActionResult[]): ScreenNode {
+    const matches = this.graph.findScreens(query, this.currentFingerprint!);
+    if (matches.length === 0) {
+      throw new NavigationError('NOT_FOUND', `No known screen matching ${describeScreenQuery(query)}`, results, {
+        serial: this.serial,
+      });
+    }
 
-    if (!element) {
-      throw new Error(`Element not found: ${JSON.stringify(selector)}`);
+    // Only fall back within the best match quality, never to a looser match
+    const best = matches.find(match => match.quality === matches[0].quality && match.expectedCostMs < Infinity);
+    if (!best) {
+      throw new NavigationError(
+        'NOT_FOUND',
+        `No known path from ${this.currentFingerprint} to a screen matching ${describeScreenQuery(query)}`,
+        results,
+        { serial: this.serial },
+      );
     }
+    return best.node;
+  }
+
+  /**
+   * Tap the best match for `selector` on the current screen. Throws
+   * ElementNotFoundError when nothing matches, and InvalidArgumentError for
+   * an ambiguous selector when `onAmbiguousSelector` is 'refuse'. Like
+   * performAction, a hung tap fails with errorCode 'TIMEOUT' / 'CANCELLED'
+   * after `actionTimeoutMs` or on abort; so does a hung state capture, by
+   * throwing.
+   */
+  async tapElement(selector: ElementSelector, options?: CallOptions): Promise<ActionResult> {
+    const callOptions: CallOptions = {
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs ?? this.actionTimeoutMs,
+    };
+    const state = this.registerState(await withCallOptions(callOptions, 'tapElement', { serial: this.serial }, signal =>
+      this.captureState(signal)));
+    const { element, warning } = this.resolveTarget(state.elements, selector, state.deviceContext);
 
     const center = computeCenter(element);
     const action: ActionDescriptor = {
@@ -186,20 +518,22 @@ export class AgentSession {
     };
 
     const previousFingerprint = this.currentFingerprint || '';
+    const previousState = this.lastState;
     const startTime = Date.now();
     let success = true;
     let error: string | undefined;
+    let errorCode: DeviceErrorCode | undefined;
 
     try {
-      await this.deviceService.tap(this.serial, center.x, center.y);
+      await withCallOptions(callOptions, 'tapElement', { serial: this.serial }, signal =>
+        this.deviceService.tap(this.serial, center.x, center.y, { signal }));
     } catch (e) {
       success = false;
       error = e instanceof Error ? e.message : String(e);
+      if (isDeviceError(e)) errorCode = e.code;
     }
 
-    await delay(this.stabilityDelayMs);
-
-    const newState = await this.getCompactState();
+    const { state: newState, settleMs, settled } = await this.settle();
     const newFingerprint = newState.fingerprint.fingerprint;
     const latencyMs = Date.now() - startTime;
 
@@ -211,7 +545,7 @@ export class AgentSession {
         latencyMs,
         success,
       );
-      await this.graph.save(this.graphPath);
+      await this.persistGraph();
     }
 
     return {
@@ -221,6 +555,11 @@ export class AgentSession {
       transitioned: previousFingerprint !== newFingerprint,
       latencyMs,
       error,
+      errorCode,
+      warning,
+      settleMs,
+      settled,
+      diff: this.includeDiff && previousState ? diffStates(previousState, newState) : undefined,
     };
   }
 
@@ -232,74 +571,128 @@ export class AgentSession {
     return this.currentFingerprint;
   }
 
+  /**
+   * The state the session last settled on (after an action, wait or
+   * getCompactState), without another device round-trip
+   */
+  getLastState(): CompactState | null {
+    return this.lastState;
+  }
+
   async close(): Promise<void> {
-    await this.graph.save(this.graphPath);
+    await this.persistGraph();
   }
 
-  private async executeAction(action: ActionDescriptor): Promise<void> {
+  /**
+   * Append the graph changes made since the last call to storage
+   */
+  private async persistGraph(): Promise<void> {
+    const changes = this.graph.takeChanges();
+    try {
+      await this.graphStorage.append(changes);
+    } catch (error) {
+      // Keep them for the next append rather than losing the transitions
+      this.graph.requeueChanges(changes);
+      throw error;
+    }
+  }
+
+  /**
+   * Pick the element a selector refers to, applying the ambiguity policy.
+   * Returns the warning to report when an ambiguous selector goes ahead.
+   */
+  private resolveTarget(
+    elements: CompressedNode[],
+    selector: ElementSelector,
+    deviceContext: DeviceStateSnapshot['deviceContext'],
+  ): { element: CompressedNode; warning?: string } {
+    const resolution = resolveElement(elements, selector, {
+      screen: { width: deviceContext.screenWidth, height: deviceContext.screenHeight },
+    });
+
+    if (!resolution.best) {
+      throw new ElementNotFoundError(`Element not found: ${JSON.stringify(selector)}`, { serial: this.serial });
+    }
+    if (!resolution.ambiguous) {
+      return { element: resolution.best.element };
+    }
+
+    const candidates = [resolution.best, ...resolution.alternatives];
+    const message = `Ambiguous selector ${JSON.stringify(selector)} matches ${candidates.length} elements: `
+      + candidates.slice(0, 3).map(describeCandidate).join(', ');
+    if (this.onAmbiguousSelector === 'refuse') {
+      throw new InvalidArgumentError(message, { serial: this.serial });
+    }
+    return { element: resolution.best.element, warning: message };
+  }
+
+  /**
+   * Run one action on the device. Returns a warning when an element action
+   * went ahead on an ambiguous selector.
+   */
+  private async executeAction(action: ActionDescriptor, signal?: AbortSignal): Promise<string | undefined> {
     const s = this.serial;
+    const options: CallOptions = { signal };
+    let warning: string | undefined;
 
     switch (action.type) {
       case 'tap': {
         if (action.target) {
           if (!this.deviceService.getDeviceState) {
-            throw new Error('DeviceService does not support getDeviceState');
+            throw new UnsupportedError('DeviceService does not support getDeviceState');
           }
-          const snapshot = await this.deviceService.getDeviceState(s);
+          const snapshot = await this.deviceService.getDeviceState(s, options);
           const elements = compressTree(snapshot.tree, this.maxElements);
-          const element = findElement(elements, action.target);
-          if (!element) {
-            throw new Error(`Element not found: ${JSON.stringify(action.target)}`);
-          }
-          const center = computeCenter(element);
-          await this.deviceService.tap(s, center.x, center.y);
+          const target = this.resolveTarget(elements, action.target, snapshot.deviceContext);
+          warning = target.warning;
+          const center = computeCenter(target.element);
+          await this.deviceService.tap(s, center.x, center.y, options);
         }
         break;
       }
       case 'back': {
         if (!this.deviceService.back) {
-          throw new Error('DeviceService does not support back');
+          throw new UnsupportedError('DeviceService does not support back');
         }
-        await this.deviceService.back(s);
+        await this.deviceService.back(s, options);
         break;
       }
       case 'deeplink': {
         if (!this.deviceService.openDeepLink) {
-          throw new Error('DeviceService does not support openDeepLink');
+          throw new UnsupportedError('DeviceService does not support openDeepLink');
         }
-        await this.deviceService.openDeepLink(s, action.deepLink || '');
+        await this.deviceService.openDeepLink(s, action.deepLink || '', options);
         break;
       }
       case 'type': {
-        await this.deviceService.typeText(s, action.text || '');
+        await this.deviceService.typeText(s, action.text || '', options);
         break;
       }
       case 'scroll': {
         if (!this.deviceService.scroll) {
-          throw new Error('DeviceService does not support scroll');
+          throw new UnsupportedError('DeviceService does not support scroll');
         }
-        await this.deviceService.scroll(s, action.direction || 'down');
+        await this.deviceService.scroll(s, action.direction || 'down', undefined, options);
         break;
       }
       case 'longPress': {
         if (!this.deviceService.longPress) {
-          throw new Error('DeviceService does not support longPress');
+          throw new UnsupportedError('DeviceService does not support longPress');
         }
         if (action.target) {
           if (!this.deviceService.getDeviceState) {
-            throw new Error('DeviceService does not support getDeviceState');
+            throw new UnsupportedError('DeviceService does not support getDeviceState');
           }
-          const snapshot = await this.deviceService.getDeviceState(s);
+          const snapshot = await this.deviceService.getDeviceState(s, options);
           const elements = compressTree(snapshot.tree, this.maxElements);
-          const element = findElement(elements, action.target);
-          if (!element) {
-            throw new Error(`Element not found: ${JSON.stringify(action.target)}`);
-          }
-          const center = computeCenter(element);
-          await this.deviceService.longPress(s, center.x, center.y);
+          const target = this.resolveTarget(elements, action.target, snapshot.deviceContext);
+          warning = target.warning;
+          const center = computeCenter(target.element);
+          await this.deviceService.longPress(s, center.x, center.y, undefined, options);
         }
         break;
       }
     }
+    return warning;
   }
 }
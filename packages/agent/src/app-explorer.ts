@@ -0,0 +1,415 @@
+/**
+ * AppExplorer: crawls an app through an AgentSession, trying every
+ * clickable element on every screen it reaches so the NavigationGraph fills
+ * up without scripted runs.
+ *
+ * Each screen keeps a queue of untried taps. The strategy picks which screen
+ * to expand next (shallowest first for BFS, newest first for DFS); getting
+ * there goes through the graph (navigateTo), then back(), then the caller's
+ * relaunch hook. Taps that leave the target app are recorded as exits and
+ * undone. Progress can be checkpointed to a file and resumed.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { InvalidArgumentError } from '@device-stream/core';
+import {
+  ActionDescriptor,
+  AppExplorerOptions,
+  CompactState,
+  CompressedNode,
+  ElementSelector,
+  ExplorationCheckpoint,
+  ExplorationResult,
+  ExploredScreen,
+  ScreenCoverage,
+} from './types';
+import { AgentSession, NavigationError } from './agent-session';
+import { actionKey } from './navigation-graph';
+
+const CHECKPOINT_VERSION = 1;
+const DEFAULT_MAX_ACTIONS = 200;
+const DEFAULT_MAX_DEPTH = 10;
+const DEFAULT_MAX_ACTIONS_PER_SCREEN = 25;
+const DEFAULT_MAX_BACK_STEPS = 3;
+
+/**
+ * Labels the explorer never taps unless the caller replaces the denylist
+ */
+export const DEFAULT_EXPLORER_DENYLIST: RegExp[] = [
+  /\b(delete|remove|erase|wipe|clear all|reset|format)\b/i,
+  /\b(log ?out|sign ?out|deactivate|close account|unsubscribe|uninstall)\b/i,
+  /\b(buy|purchase|pay|checkout|order now|subscribe|upgrade)\b/i,
+  /\b(call|send|post|publish|share|report|block)\b/i,
+];
+
+function matchesDenylist(node: CompressedNode, denylist: (string | RegExp)[]): boolean {
+  const labels = [node.text, node.contentDesc, node.resourceId].filter((label): label is string => !!label);
+  return denylist.some(pattern => labels.some(label =>
+    typeof pattern === 'string' ? label.toLowerCase().includes(pattern.toLowerCase()) : pattern.test(label)));
+}
+
+/**
+ * Selector that finds the element again on a later visit: resource id plus
+ * label where available (list rows often share an id), index as last resort
+ */
+function selectorFor(node: CompressedNode): ElementSelector {
+  const selector: ElementSelector = {};
+  if (node.resourceId) selector.resourceId = node.resourceId;
+  if (node.text) selector.text = node.text;
+  else if (node.contentDesc) selector.contentDesc = node.contentDesc;
+  if (Object.keys(selector).length === 0) {
+    selector.index = node.index;
+    selector.className = node.className;
+  }
+  return selector;
+}
+
+export class AppExplorer {
+  private session: AgentSession;
+  private options: AppExplorerOptions;
+  private appPackage?: string;
+  private screens = new Map<string, ExploredScreen>();
+  private actionsUsed = 0;
+  // Limits of the current explore() run, checked between backtracking steps too
+  private signal?: AbortSignal;
+  private actionLimit = Infinity;
+  private deadline = Infinity;
+
+  constructor(session: AgentSession, options: AppExplorerOptions = {}) {
+    this.session = session;
+    this.options = options;
+    this.appPackage = options.appPackage;
+  }
+
+  /**
+   * Explore until every reachable screen is covered or a limit is hit. The
+   * graph is persisted by the session as usual; the checkpoint (if
+   * configured) is written after every action.
+   */
+  async explore(options: { signal?: AbortSignal } = {}): Promise<ExplorationResult> {
+    const startTime = Date.now();
+    const signal = options.signal;
+
+    await this.restoreCheckpoint();
+    const actionsAtStart = this.actionsUsed;
+    this.signal = signal;
+    this.actionLimit = actionsAtStart + (this.options.maxActions ?? DEFAULT_MAX_ACTIONS);
+    this.deadline = this.options.maxDurationMs !== undefined ? startTime + this.options.maxDurationMs : Infinity;
+
+    let state = await this.session.getCompactState();
+    this.appPackage ??= state.appInfo.packageName;
+    let stoppedBecause: ExplorationResult['stoppedBecause'] = 'complete';
+
+    if (!this.inApp(state)) {
+      const recovered = await this.returnToApp();
+      if (!recovered || recovered === 'stopped') {
+        return this.result(this.limitReached() ?? 'left-app', startTime, actionsAtStart);
+      }
+      state = recovered;
+    }
+    this.discover(state, 0);
+
+    for (;;) {
+      const limit = this.limitReached();
+      if (limit) {
+        stoppedBecause = limit;
+        break;
+      }
+
+      const target = this.nextScreen(this.screenOf(state));
+      if (!target) break;
+
+      if (target.fingerprint !== this.screenOf(state)) {
+        const reached = await this.reach(target);
+        if (reached === 'left-app') {
+          stoppedBecause = 'left-app';
+          break;
+        }
+        if (reached === 'stopped') {
+          state = this.currentState();
+          await this.saveCheckpoint();
+          continue;
+        }
+        if (!reached) {
+          target.unreachable = true;
+          state = this.currentState();
+          await this.saveCheckpoint();
+          continue;
+        }
+        state = reached;
+      }
+
+      const action = target.untried.shift()!;
+      target.tried.push(actionKey(action));
+      const result = await this.session.performAction(action, { signal });
+      this.actionsUsed++;
+      state = this.currentState();
+
+      if (!result.success) {
+        target.failures++;
+      } else if (!this.inApp(state)) {
+        target.exits++;
+        const recovered = await this.returnToApp();
+        if (!recovered || recovered === 'stopped') {
+          await this.saveCheckpoint();
+          stoppedBecause = this.limitReached() ?? 'left-app';
+          break;
+        }
+        state = recovered;
+        this.discover(state, target.depth);
+      } else if (result.transitioned) {
+        target.transitions++;
+        this.discover(state, target.depth + 1);
+      }
+
+      await this.saveCheckpoint();
+    }
+
+    return this.result(stoppedBecause, startTime, actionsAtStart);
+  }
+
+  /**
+   * Coverage so far, in discovery order
+   */
+  getCoverage(): ScreenCoverage[] {
+    return Array.from(this.screens.values()).map(screen => ({
+      fingerprint: screen.fingerprint,
+      screenType: screen.screenType,
+      depth: screen.depth,
+      actions: screen.tried.length + screen.untried.length,
+      tried: screen.tried.length,
+      transitions: screen.transitions,
+      exits: screen.exits,
+      failures: screen.failures,
+      denied: screen.denied,
+      complete: screen.untried.length === 0,
+      unreachable: !!screen.unreachable,
+    }));
+  }
+
+  getCheckpoint(): ExplorationCheckpoint {
+    return {
+      version: CHECKPOINT_VERSION,
+      appPackage: this.appPackage ?? '',
+      actionsUsed: this.actionsUsed,
+      screens: structuredClone(Array.from(this.screens.values())),
+    };
+  }
+
+  // ─── Screens ───
+
+  private currentState(): CompactState {
+    return this.session.getLastState()!;
+  }
+
+  /**
+   * Graph node of a state, so near-duplicates the graph aliases count as
+   * one screen
+   */
+  private screenOf(state: CompactState): string {
+    return this.session.getGraph().resolve(state.fingerprint.fingerprint);
+  }
+
+  /**
+   * Which limit of the current run is used up, if any
+   */
+  private limitReached(): 'cancelled' | 'budget' | 'timeout' | undefined {
+    if (this.signal?.aborted) return 'cancelled';
+    if (this.actionsUsed >= this.actionLimit) return 'budget';
+    if (Date.now() >= this.deadline) return 'timeout';
+    return undefined;
+  }
+
+  private inApp(state: CompactState): boolean {
+    return state.appInfo.packageName === this.appPackage;
+  }
+
+  /**
+   * Register a screen the first time it is seen, queueing its clickable,
+   * enabled, non-denylisted elements
+   */
+  private discover(state: CompactState, depth: number): void {
+    const fingerprint = this.screenOf(state);
+    if (this.screens.has(fingerprint)) return;
+
+    const denylist = this.options.denylist ?? DEFAULT_EXPLORER_DENYLIST;
+    const limit = this.options.maxActionsPerScreen ?? DEFAULT_MAX_ACTIONS_PER_SCREEN;
+    const untried: ActionDescriptor[] = [];
+    const seen = new Set<string>();
+    let denied = 0;
+
+    for (const element of state.elements) {
+      if (!element.clickable || !element.enabled) continue;
+      if (matchesDenylist(element, denylist)) {
+        denied++;
+        continue;
+      }
+      const action: ActionDescriptor = { type: 'tap', target: selectorFor(element) };
+      const key = actionKey(action);
+      if (seen.has(key) || untried.length >= limit) continue;
+      seen.add(key);
+      untried.push(action);
+    }
+
+    const context = state.fingerprint.context;
+    this.screens.set(fingerprint, {
+      fingerprint,
+      screenType: `${context.appPackage}:${context.toolbarTitle || 'unknown'}`,
+      depth,
+      untried,
+      tried: [],
+      transitions: 0,
+      exits: 0,
+      failures: 0,
+      denied,
+    });
+  }
+
+  /**
+   * Next screen to expand. BFS takes the shallowest screen with work left,
+   * DFS the most recently discovered; both stay on the current screen when
+   * it qualifies, to avoid needless navigation.
+   */
+  private nextScreen(current: string): ExploredScreen | undefined {
+    const maxDepth = this.options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const open = Array.from(this.screens.values())
+      .filter(screen => screen.untried.length > 0 && !screen.unreachable && screen.depth <= maxDepth);
+    if (open.length === 0) return undefined;
+
+    if ((this.options.strategy ?? 'bfs') === 'dfs') {
+      return open.find(screen => screen.fingerprint === current) ?? open[open.length - 1];
+    }
+
+    const shallowest = Math.min(...open.map(screen => screen.depth));
+    const candidates = open.filter(screen => screen.depth === shallowest);
+    return candidates.find(screen => screen.fingerprint === current) ?? candidates[0];
+  }
+
+  // ─── Backtracking ───
+
+  /**
+   * Get to `target`: graph path first, then back(), then relaunch + graph
+   * path. Returns the state on arrival, undefined when the screen can't be
+   * reached, 'left-app' when the explorer ended up outside the app for good,
+   * or 'stopped' when a limit of the run was hit on the way.
+   */
+  private async reach(target: ExploredScreen): Promise<CompactState | undefined | 'left-app' | 'stopped'> {
+    if (await this.navigate(target.fingerprint)) return this.currentState();
+
+    const maxBackSteps = this.options.maxBackSteps ?? DEFAULT_MAX_BACK_STEPS;
+    for (let i = 0; i < maxBackSteps; i++) {
+      if (this.limitReached()) return 'stopped';
+      await this.session.performAction({ type: 'back' }, { signal: this.signal });
+      this.actionsUsed++;
+      const state = this.currentState();
+      if (this.screenOf(state) === target.fingerprint) return state;
+      if (!this.inApp(state)) break;
+      if (await this.navigate(target.fingerprint)) return this.currentState();
+    }
+
+    if (this.limitReached()) return 'stopped';
+    const recovered = await this.returnToApp();
+    if (recovered === 'stopped') return 'stopped';
+    if (!recovered) return 'left-app';
+    if (this.screenOf(recovered) === target.fingerprint) return recovered;
+    if (await this.navigate(target.fingerprint)) return this.currentState();
+    return this.limitReached() ? 'stopped' : undefined;
+  }
+
+  /**
+   * Follow the graph to `fingerprint` within what is left of the action
+   * budget
+   */
+  private async navigate(fingerprint: string): Promise<boolean> {
+    if (this.limitReached()) return false;
+    let results;
+    try {
+      results = await this.session.navigateTo(fingerprint, {
+        signal: this.signal,
+        maxSteps: this.actionLimit - this.actionsUsed,
+      });
+    } catch (error) {
+      // No way there (any more), out of steps, or cancelled
+      if (error instanceof NavigationError) this.actionsUsed += error.results.length;
+      return false;
+    }
+    this.actionsUsed += results.length;
+    return this.screenOf(this.currentState()) === fingerprint;
+  }
+
+  /**
+   * Press back until the target app is in front again, relaunching it as a
+   * last resort. 'stopped' when a limit of the run was hit first.
+   */
+  private async returnToApp(): Promise<CompactState | undefined | 'stopped'> {
+    const maxBackSteps = this.options.maxBackSteps ?? DEFAULT_MAX_BACK_STEPS;
+    let state = this.session.getLastState() ?? await this.session.getCompactState();
+
+    for (let i = 0; i < maxBackSteps && !this.inApp(state); i++) {
+      if (this.limitReached()) return 'stopped';
+      await this.session.performAction({ type: 'back' }, { signal: this.signal });
+      this.actionsUsed++;
+      state = this.currentState();
+    }
+    if (this.inApp(state)) return state;
+
+    if (this.options.relaunch) {
+      if (this.limitReached()) return 'stopped';
+      await this.options.relaunch();
+      try {
+        state = (await this.session.waitForStable({ signal: this.signal })).state;
+      } catch (error) {
+        if (this.limitReached()) return 'stopped';
+        throw error;
+      }
+    }
+    return this.inApp(state) ? state : undefined;
+  }
+
+  // ─── Checkpoints ───
+
+  private async restoreCheckpoint(): Promise<void> {
+    const path = this.options.checkpointPath;
+    if (!path || this.screens.size > 0) return;
+
+    let json: string;
+    try {
+      json = await readFile(path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const checkpoint = JSON.parse(json) as ExplorationCheckpoint;
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+      throw new InvalidArgumentError(`Unsupported exploration checkpoint version: ${checkpoint.version}`);
+    }
+    this.appPackage ??= checkpoint.appPackage || undefined;
+    this.actionsUsed = checkpoint.actionsUsed;
+    for (const screen of checkpoint.screens) {
+      this.screens.set(screen.fingerprint, screen);
+    }
+  }
+
+  private async saveCheckpoint(): Promise<void> {
+    const path = this.options.checkpointPath;
+    if (!path) return;
+    const tempPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, JSON.stringify(this.getCheckpoint()), 'utf-8');
+    await rename(tempPath, path);
+  }
+
+  private result(
+    stoppedBecause: ExplorationResult['stoppedBecause'],
+    startTime: number,
+    actionsAtStart: number,
+  ): ExplorationResult {
+    return {
+      stoppedBecause,
+      actionsUsed: this.actionsUsed - actionsAtStart,
+      durationMs: Date.now() - startTime,
+      screens: this.getCoverage(),
+    };
+  }
+}
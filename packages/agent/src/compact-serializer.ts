@@ -3,50 +3,223 @@
  *
  * Format: [index] ClassName "text" flags (x1,y1)-(x2,y2)
  * Example: [1] Button "Login" clickable (100,400)-(300,460)
+ *
+ * Diffs use one line per change, prefixed + (added), - (removed) or
+ * ~ (changed, with old→new values):
+ *   ~ [3] Switch "Wi-Fi" checked: false→true
+ */
+
+import { CompactTextOptions, CompressedNode, ElidedRun, FieldChange, PlanEntry, StateDiff } from './types';
+
+/**
+ * Rough token count: ~4 characters per token for English UI text
  */
+export function approximateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
 
-import { CompressedNode } from './types';
+function isPhantom(node: CompressedNode): boolean {
+  const hasLabel = node.text || node.contentDesc || node.resourceId;
+  const interactive = node.clickable || node.scrollable || node.focused ||
+    node.checked === true || node.selected === true;
+  return !hasLabel && !interactive;
+}
 
 /**
  * Convert compressed nodes to a compact text representation.
  * Skips phantom nodes (no text, no contentDesc, no resourceId, not interactive).
+ * With a `tokenBudget`, low-priority elements are elided (see planElements)
+ * and each elided run becomes a line such as "… 37 more list items".
  */
-export function serializeToCompactText(nodes: CompressedNode[]): string {
-  const lines: string[] = [];
+export function serializeToCompactText(nodes: CompressedNode[], options: CompactTextOptions = {}): string {
+  return planElements(nodes, options, serializeNode, describeElision)
+    .map(entry => entry.kind === 'element' ? serializeNode(entry.node) : describeElision(entry))
+    .join('\n');
+}
 
-  for (const node of nodes) {
-    const hasLabel = node.text || node.contentDesc || node.resourceId;
-    const interactive = node.clickable || node.scrollable || node.focused ||
-      node.checked === true || node.selected === true;
+// ─── Budget planning ───
 
-    // Skip phantom nodes that provide no value to the LLM
-    if (!hasLabel && !interactive) continue;
+export function describeElision(run: ElidedRun): string {
+  const noun = run.content
+    ? (run.count === 1 ? 'list item' : 'list items')
+    : (run.count === 1 ? 'element' : 'elements');
+  return `… ${run.count} more ${noun}`;
+}
 
-    const parts: string[] = [`[${node.index}]`, node.className];
+/**
+ * Decide which elements a serializer emits, in document order. Phantom
+ * nodes are always dropped. Within a `tokenBudget` elements are kept by
+ * priority rather than position: focused / selected first, then anchors
+ * (toolbars, tabs, bottom bars), interactive elements, and anything on
+ * screen. Each run of elided elements becomes one `elided` entry, so the
+ * model knows there is more to scroll to. Costs come from the serializer's
+ * own rendering of each entry.
+ */
+export function planElements(
+  nodes: CompressedNode[],
+  options: CompactTextOptions,
+  renderElement: (node: CompressedNode) => string,
+  renderElision: (run: ElidedRun) => string,
+): PlanEntry[] {
+  const visible = nodes.filter(node => !isPhantom(node));
+  const all = visible.map(node => ({ kind: 'element' as const, node }));
 
-    // Label: prefer text, fall back to contentDesc, then resourceId
-    const label = node.text || node.contentDesc || node.resourceId;
-    if (label) {
-      parts.push(`"${label}"`);
+  const estimate = options.estimateTokens ?? approximateTokens;
+  const budget = options.tokenBudget;
+  if (budget === undefined) return all;
+
+  const costs = visible.map(node => estimate(renderElement(node)));
+  if (costs.reduce((sum, cost) => sum + cost, 0) <= budget) return all;
+
+  const contentIndices = new Set(
+    (options.zones ?? []).filter(c => c.zone === 'CONTENT').map(c => c.node.index),
+  );
+  const order = visible
+    .map((node, position) => ({ position, priority: elementPriority(node, contentIndices, options.screen) }))
+    .sort((a, b) => b.priority - a.priority || a.position - b.position)
+    .map(entry => entry.position);
+
+  const elisionCosts = new Map<string, number>();
+  const elisionCost = (run: ElidedRun) => {
+    const key = `${run.count}|${run.content}`;
+    let cost = elisionCosts.get(key);
+    if (cost === undefined) {
+      cost = estimate(renderElision(run));
+      elisionCosts.set(key, cost);
     }
+    return cost;
+  };
 
-    // Flags
-    const flags: string[] = [];
-    if (node.clickable) flags.push('clickable');
-    if (node.scrollable) flags.push('scrollable');
-    if (node.focused) flags.push('focused');
-    if (node.checked) flags.push('checked');
-    if (node.selected) flags.push('selected');
-    if (!node.enabled) flags.push('disabled');
-    if (flags.length > 0) {
-      parts.push(flags.join(' '));
+  // Greedy by priority; an element that doesn't fit is skipped so smaller
+  // lower-priority ones can still use the remaining budget
+  const kept = new Set<number>();
+  let elementsCost = 0;
+  for (const position of order) {
+    kept.add(position);
+    const runs = elidedRuns(visible, kept, contentIndices);
+    const total = elementsCost + costs[position] + runs.reduce((sum, run) => sum + elisionCost(run), 0);
+    if (total > budget) {
+      kept.delete(position);
+    } else {
+      elementsCost += costs[position];
     }
+  }
+
+  const runs = new Map(elidedRuns(visible, kept, contentIndices).map(run => [run.after, run]));
+  const plan: PlanEntry[] = [];
+  visible.forEach((node, position) => {
+    if (kept.has(position)) plan.push({ kind: 'element', node });
+    const run = runs.get(position);
+    if (run) plan.push({ kind: 'elided', count: run.count, content: run.content });
+  });
+  return plan;
+}
 
-    // Bounds
-    parts.push(`(${node.bounds.x1},${node.bounds.y1})-(${node.bounds.x2},${node.bounds.y2})`);
+function elementPriority(
+  node: CompressedNode,
+  contentIndices: Set<number>,
+  screen: CompactTextOptions['screen'],
+): number {
+  let priority = 0;
+  if (node.focused || node.selected) priority += 8;
+  if (!contentIndices.has(node.index)) priority += 4;
+  if (node.clickable || node.scrollable || node.checked === true) priority += 2;
+  if (!screen || isOnScreen(node, screen)) priority += 1;
+  return priority;
+}
+
+function isOnScreen(node: CompressedNode, screen: { width: number; height: number }): boolean {
+  const cx = (node.bounds.x1 + node.bounds.x2) / 2;
+  const cy = (node.bounds.y1 + node.bounds.y2) / 2;
+  return cx >= 0 && cy >= 0 && cx < screen.width && cy < screen.height;
+}
+
+/**
+ * Runs of consecutive elided elements, keyed by the position of each run's
+ * last element
+ */
+function elidedRuns(
+  visible: CompressedNode[],
+  kept: Set<number>,
+  contentIndices: Set<number>,
+): (ElidedRun & { after: number })[] {
+  const runs: (ElidedRun & { after: number })[] = [];
+  let count = 0;
+  let content = true;
+
+  visible.forEach((node, position) => {
+    if (kept.has(position)) return;
+    count++;
+    content &&= contentIndices.has(node.index);
+    if (position + 1 < visible.length && !kept.has(position + 1)) return;
+
+    runs.push({ after: position, count, content });
+    count = 0;
+    content = true;
+  });
+
+  return runs;
+}
+
+// ─── Rendering ───
+
+export function serializeNode(node: CompressedNode): string {
+  const parts: string[] = [`[${node.index}]`, node.className];
+
+  // Label: prefer text, fall back to contentDesc, then resourceId
+  const label = node.text || node.contentDesc || node.resourceId;
+  if (label) {
+    parts.push(`"${label}"`);
+  }
+
+  // Flags
+  const flags: string[] = [];
+  if (node.clickable) flags.push('clickable');
+  if (node.scrollable) flags.push('scrollable');
+  if (node.focused) flags.push('focused');
+  if (node.checked) flags.push('checked');
+  if (node.selected) flags.push('selected');
+  if (!node.enabled) flags.push('disabled');
+  if (flags.length > 0) {
+    parts.push(flags.join(' '));
+  }
+
+  // Bounds
+  parts.push(formatBounds(node.bounds));
+  return parts.join(' ');
+}
+
+function formatBounds(bounds: CompressedNode['bounds']): string {
+  return `(${bounds.x1},${bounds.y1})-(${bounds.x2},${bounds.y2})`;
+}
+
+function formatValue(value: FieldChange['from']): string {
+  if (value === undefined) return '∅';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'boolean') return String(value);
+  return formatBounds(value);
+}
+
+/**
+ * Render a StateDiff for LLM consumption. Added and changed elements carry
+ * their new index, removed ones their old index.
+ */
+export function serializeDiffToCompactText(diff: StateDiff): string {
+  const lines: string[] = [];
+  if (diff.screenChanged) {
+    lines.push(`screen ${diff.fromFingerprint} → ${diff.toFingerprint}`);
+  }
 
-    lines.push(parts.join(' '));
+  for (const node of diff.removed) lines.push(`- ${serializeNode(node)}`);
+  for (const node of diff.added) lines.push(`+ ${serializeNode(node)}`);
+  for (const { after, changes } of diff.changed) {
+    const label = after.text || after.contentDesc || after.resourceId;
+    const head = `~ [${after.index}] ${after.className}${label ? ` "${label}"` : ''}`;
+    const fields = changes.map(change => `${change.field}: ${formatValue(change.from)}→${formatValue(change.to)}`);
+    lines.push(`${head} ${fields.join(', ')}`);
   }
 
+  if (lines.length === 0) return 'no changes';
+  if (diff.unchanged > 0) lines.push(`(${diff.unchanged} unchanged)`);
   return lines.join('\n');
 }
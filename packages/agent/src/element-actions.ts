@@ -1,13 +1,36 @@
 /**
- * Element-based actions: find elements by selector, compute tap coordinates.
+ * Element-based actions: find elements by selector, rank ambiguous matches,
+ * compute tap coordinates.
  */
 
-import { CompressedNode, ElementSelector } from './types';
+import {
+  CandidateSignals,
+  CompressedNode,
+  ElementCandidate,
+  ElementResolution,
+  ElementSelector,
+  ResolveOptions,
+} from './types';
+
+type Bounds = CompressedNode['bounds'];
+
+const DEFAULT_AMBIGUITY_MARGIN = 0.05;
+
+// Relative weight of each signal in a candidate's score
+const SIGNAL_WEIGHTS: Required<CandidateSignals> = {
+  match: 0.35,
+  enabled: 0.15,
+  clickable: 0.1,
+  onScreen: 0.15,
+  topmost: 0.25,
+  proximity: 0.2,
+};
 
 /**
  * Find a compressed node matching the given selector.
  * Priority: index → resourceId → text (substring) → contentDesc (substring) → className.
- * Multiple criteria = AND logic.
+ * Multiple criteria = AND logic. Returns the first match; resolveElement ranks
+ * all of them.
  */
 export function findElement(
   elements: CompressedNode[],
@@ -23,6 +46,160 @@ export function findElement(
   });
 }
 
+// ─── Ranked resolution ───
+
+/**
+ * How well `value` matches `wanted`: exact 1, case-insensitive 0.8,
+ * substring 0.6, case-insensitive substring 0.4, no match 0
+ */
+function textMatchQuality(value: string | undefined, wanted: string): number {
+  if (!value) return 0;
+  if (value === wanted) return 1;
+  const lower = value.toLowerCase();
+  const wantedLower = wanted.toLowerCase();
+  if (lower === wantedLower) return 0.8;
+  if (value.includes(wanted)) return 0.6;
+  if (lower.includes(wantedLower)) return 0.4;
+  return 0;
+}
+
+/**
+ * Match quality for the selector's text criteria, or 0 when a strict
+ * criterion (index, resourceId, className) fails
+ */
+function matchQuality(el: CompressedNode, selector: ElementSelector): number {
+  if (selector.index !== undefined && el.index !== selector.index) return 0;
+  if (selector.resourceId !== undefined && el.resourceId !== selector.resourceId) return 0;
+  if (selector.className !== undefined && el.className !== selector.className) return 0;
+
+  const qualities: number[] = [];
+  if (selector.text !== undefined) qualities.push(textMatchQuality(el.text, selector.text));
+  if (selector.contentDesc !== undefined) qualities.push(textMatchQuality(el.contentDesc, selector.contentDesc));
+  if (qualities.length === 0) return 1;
+  return qualities.includes(0) ? 0 : Math.min(...qualities);
+}
+
+function area(b: Bounds): number {
+  return Math.max(0, b.x2 - b.x1) * Math.max(0, b.y2 - b.y1);
+}
+
+function containsPoint(b: Bounds, x: number, y: number): boolean {
+  return x >= b.x1 && x < b.x2 && y >= b.y1 && y < b.y2;
+}
+
+function containsBounds(outer: Bounds, inner: Bounds): boolean {
+  return inner.x1 >= outer.x1 && inner.y1 >= outer.y1 && inner.x2 <= outer.x2 && inner.y2 <= outer.y2;
+}
+
+function onScreenRatio(b: Bounds, width: number, height: number): number {
+  const total = area(b);
+  if (total === 0) return 0;
+  const visible = area({
+    x1: Math.max(b.x1, 0),
+    y1: Math.max(b.y1, 0),
+    x2: Math.min(b.x2, width),
+    y2: Math.min(b.y2, height),
+  });
+  return visible / total;
+}
+
+/**
+ * Score the element at `position` against the rest of the flattened tree.
+ * Elements are in drawing order, so a later element that covers this one's
+ * center without sitting inside it is drawn over it (a dialog, a sheet, a
+ * scrim). An earlier clickable element enclosing it is most likely a
+ * clickable ancestor, which a tap on this element's center also reaches.
+ */
+function scoreCandidate(
+  elements: CompressedNode[],
+  position: number,
+  match: number,
+  selector: ElementSelector,
+  screen: { width: number; height: number },
+): ElementCandidate {
+  const element = elements[position];
+  const center = computeCenter(element);
+
+  const covered = elements.slice(position + 1).some(other =>
+    area(other.bounds) > 0
+    && containsPoint(other.bounds, center.x, center.y)
+    && !containsBounds(element.bounds, other.bounds));
+
+  const insideClickable = !element.clickable && elements.slice(0, position).some(other =>
+    other.clickable && containsBounds(other.bounds, element.bounds));
+
+  const signals: CandidateSignals = {
+    match,
+    enabled: element.enabled ? 1 : 0,
+    clickable: element.clickable ? 1 : insideClickable ? 0.5 : 0,
+    onScreen: onScreenRatio(element.bounds, screen.width, screen.height),
+    topmost: covered ? 0 : 1,
+  };
+
+  if (selector.near) {
+    const diagonal = Math.hypot(screen.width, screen.height) || 1;
+    const distance = Math.hypot(center.x - selector.near.x, center.y - selector.near.y);
+    signals.proximity = 1 - Math.min(1, distance / diagonal);
+  }
+
+  let total = 0;
+  let weights = 0;
+  for (const [signal, value] of Object.entries(signals) as [keyof CandidateSignals, number][]) {
+    total += SIGNAL_WEIGHTS[signal] * value;
+    weights += SIGNAL_WEIGHTS[signal];
+  }
+
+  return { element, score: total / weights, signals };
+}
+
+/**
+ * Rank every element the selector matches instead of taking the first one.
+ * Text and contentDesc match case-insensitively and by substring, with exact
+ * matches scoring highest; enabled, clickable, on-screen and topmost
+ * elements rank above hidden, disabled or covered ones, and `selector.near`
+ * favours candidates close to a point. `ambiguous` is set when the runner-up
+ * scores within `ambiguityMargin` of the best, i.e. the selector alone
+ * doesn't say which element was meant.
+ */
+export function resolveElement(
+  elements: CompressedNode[],
+  selector: ElementSelector,
+  options: ResolveOptions = {},
+): ElementResolution {
+  const screen = options.screen ?? {
+    width: Math.max(0, ...elements.map(el => el.bounds.x2)),
+    height: Math.max(0, ...elements.map(el => el.bounds.y2)),
+  };
+  const margin = options.ambiguityMargin ?? DEFAULT_AMBIGUITY_MARGIN;
+
+  const candidates: ElementCandidate[] = [];
+  elements.forEach((el, position) => {
+    const match = matchQuality(el, selector);
+    if (match > 0) {
+      candidates.push(scoreCandidate(elements, position, match, selector, screen));
+    }
+  });
+
+  // Stable sort keeps document order between equal scores
+  candidates.sort((a, b) => b.score - a.score);
+  const [best, ...alternatives] = candidates;
+
+  return {
+    best,
+    alternatives,
+    ambiguous: alternatives.length > 0 && best.score - alternatives[0].score < margin,
+  };
+}
+
+/**
+ * One-line description of a candidate for error and warning messages
+ */
+export function describeCandidate(candidate: ElementCandidate): string {
+  const el = candidate.element;
+  const label = el.text || el.contentDesc || el.resourceId || '';
+  return `[${el.index}] ${el.className}${label ? ` "${label}"` : ''} (score ${candidate.score.toFixed(2)})`;
+}
+
 /**
  * Compute the center point of a compressed node's bounds.
  */
@@ -0,0 +1,126 @@
+/**
+ * Render a NavigationGraph for humans: Graphviz DOT and Mermaid flowcharts.
+ * Nodes show screenType plus the first anchor elements; edges show the
+ * action key, success rate and average latency. Edges that fail more often
+ * than they succeed are drawn dashed.
+ */
+
+import { GraphEdge, NavigationGraphData, ScreenNode } from './types';
+import { NavigationGraph, actionKey } from './navigation-graph';
+
+export interface GraphExportOptions {
+  /** Anchor elements listed per node (default 3) */
+  maxAnchors?: number;
+  /** Layout direction (default 'LR') */
+  direction?: 'LR' | 'TB';
+}
+
+const DEFAULT_MAX_ANCHORS = 3;
+
+function toData(graph: NavigationGraph | NavigationGraphData): NavigationGraphData {
+  return graph instanceof NavigationGraph ? graph.toJSON() : graph;
+}
+
+function nodeLines(node: ScreenNode, maxAnchors: number): string[] {
+  const lines = [node.screenType];
+  const anchors = node.anchorElements.slice(0, maxAnchors);
+  if (anchors.length > 0) {
+    const more = node.anchorElements.length - anchors.length;
+    lines.push(anchors.join(' · ') + (more > 0 ? ` +${more}` : ''));
+  }
+  return lines;
+}
+
+function successRate(edge: GraphEdge): number {
+  const total = edge.successCount + edge.failCount;
+  return total > 0 ? edge.successCount / total : 0;
+}
+
+function edgeLines(edge: GraphEdge): string[] {
+  const rate = Math.round(successRate(edge) * 100);
+  const runs = edge.successCount + edge.failCount;
+  return [actionKey(edge.action), `${rate}% of ${runs} · ${edge.avgLatencyMs}ms`];
+}
+
+function isUnreliable(edge: GraphEdge): boolean {
+  return successRate(edge) < 0.5;
+}
+
+// ─── Graphviz ───
+
+function dotEscape(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Graphviz DOT source; render with e.g. `dot -Tsvg graph.dot -o graph.svg`
+ */
+export function toDot(graph: NavigationGraph | NavigationGraphData, options: GraphExportOptions = {}): string {
+  const data = toData(graph);
+  const maxAnchors = options.maxAnchors ?? DEFAULT_MAX_ANCHORS;
+
+  const lines = [
+    'digraph navigation {',
+    `  rankdir=${options.direction ?? 'LR'};`,
+    '  node [shape=box, style=rounded, fontsize=10];',
+    '  edge [fontsize=9];',
+  ];
+
+  for (const node of Object.values(data.nodes)) {
+    const label = nodeLines(node, maxAnchors).map(dotEscape).join('\\n');
+    lines.push(`  "${dotEscape(node.fingerprint)}" [label="${label}"];`);
+  }
+
+  for (const edge of data.edges) {
+    const label = edgeLines(edge).map(dotEscape).join('\\n');
+    const style = isUnreliable(edge) ? ', style=dashed, color=red' : '';
+    lines.push(`  "${dotEscape(edge.from)}" -> "${dotEscape(edge.to)}" [label="${label}"${style}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// ─── Mermaid ───
+
+function mermaidText(value: string): string {
+  return value.replace(/"/g, '#quot;');
+}
+
+/**
+ * Mermaid flowchart source (renders in GitHub Markdown and most wikis).
+ * Fingerprints aren't valid Mermaid ids, so nodes are numbered.
+ */
+export function toMermaid(graph: NavigationGraph | NavigationGraphData, options: GraphExportOptions = {}): string {
+  const data = toData(graph);
+  const maxAnchors = options.maxAnchors ?? DEFAULT_MAX_ANCHORS;
+
+  const ids = new Map<string, string>();
+  const idOf = (fingerprint: string) => {
+    let id = ids.get(fingerprint);
+    if (!id) {
+      id = `n${ids.size}`;
+      ids.set(fingerprint, id);
+    }
+    return id;
+  };
+
+  const lines = [`flowchart ${options.direction ?? 'LR'}`];
+
+  for (const node of Object.values(data.nodes)) {
+    const label = nodeLines(node, maxAnchors).map(mermaidText).join('<br/>');
+    lines.push(`  ${idOf(node.fingerprint)}["${label}"]`);
+  }
+
+  const unreliable: number[] = [];
+  data.edges.forEach((edge, i) => {
+    const label = edgeLines(edge).map(mermaidText).join('<br/>');
+    lines.push(`  ${idOf(edge.from)} -->|"${label}"| ${idOf(edge.to)}`);
+    if (isUnreliable(edge)) unreliable.push(i);
+  });
+
+  if (unreliable.length > 0) {
+    lines.push(`  linkStyle ${unreliable.join(',')} stroke:red,stroke-dasharray:4`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,342 @@
+/**
+ * Durable storage backends for NavigationGraph.
+ *
+ *   JsonFileGraphStorage — one JSON document, replaced atomically
+ *                          (temp file + rename) under a lock file
+ *   JournalGraphStorage  — append-only JSON lines of GraphChanges, replayed
+ *                          on load and compacted into a snapshot on demand
+ *
+ * Both take the lock around every write, so sessions sharing a path merge
+ * their changes instead of overwriting each other, and a crash mid-write
+ * never leaves a half-written graph behind.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { FileHandle, link, open, readFile, rename, stat, unlink, utimes } from 'node:fs/promises';
+import { GraphChange, GraphStorage, NavigationGraphData } from './types';
+import { NavigationGraph } from './navigation-graph';
+
+const DEFAULT_LOCK_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_LOCK_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+
+export class GraphStorageError extends Error {
+  readonly path: string;
+
+  constructor(message: string, path: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'GraphStorageError';
+    this.path = path;
+  }
+}
+
+export interface FileGraphStorageOptions {
+  /** Give up waiting for the lock after this long (default 10000) */
+  lockTimeoutMs?: number;
+  /** A lock file not touched for this long is left over from a crash and taken over (default 30000) */
+  staleLockMs?: number;
+}
+
+function isErrno(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException)?.code === code;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Remove a stale lock. Waiters that saw the same stale lock take turns
+ * through an `O_EXCL` `<lock>.takeover` guard and re-check under it, so none
+ * of them removes a lock another waiter has just created. Returns false when
+ * another waiter holds the guard.
+ */
+async function takeOverStaleLock(path: string, lockPath: string, staleMs: number): Promise<boolean> {
+  const guardPath = `${lockPath}.takeover`;
+  try {
+    await (await open(guardPath, 'wx')).close();
+  } catch (error) {
+    if (!isErrno(error, 'EEXIST')) throw error;
+    // A guard left behind by a crash mid-takeover expires like a lock
+    const guard = await stat(guardPath).catch(() => undefined);
+    if (guard && Date.now() - guard.mtimeMs > staleMs) await unlink(guardPath).catch(() => {});
+    return false;
+  }
+
+  try {
+    const lock = await stat(lockPath).catch(error => {
+      if (isErrno(error, 'ENOENT')) return undefined;
+      throw error;
+    });
+    if (!lock || Date.now() - lock.mtimeMs <= staleMs) return true;
+
+    // A holder releasing late can still swap in a fresh lock before the
+    // rename; that one is moved back, and if someone locked in the gap we
+    // give up rather than leave two holders unaware of each other
+    const movedPath = `${lockPath}.${randomUUID()}.stale`;
+    try {
+      await rename(lockPath, movedPath);
+    } catch (error) {
+      if (isErrno(error, 'ENOENT')) return true;
+      throw error;
+    }
+    try {
+      const moved = await stat(movedPath);
+      if (Date.now() - moved.mtimeMs <= staleMs) {
+        try {
+          await link(movedPath, lockPath);
+        } catch (error) {
+          if (!isErrno(error, 'EEXIST')) throw error;
+          throw new GraphStorageError(`Lock ${lockPath} changed hands during stale lock takeover`, path, {
+            cause: error,
+          });
+        }
+      }
+    } finally {
+      await unlink(movedPath).catch(() => {});
+    }
+    return true;
+  } finally {
+    await unlink(guardPath).catch(() => {});
+  }
+}
+
+/**
+ * Exclusive lock on `path` via an `O_EXCL`-created `<path>.lock` file. The
+ * holder touches the file while `fn` runs so a long write isn't mistaken
+ * for a crashed one, and only removes it on release if it still holds it.
+ */
+export async function withFileLock<T>(path: string, options: FileGraphStorageOptions, fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${path}.lock`;
+  const timeoutMs = options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = options.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
+  const deadline = Date.now() + timeoutMs;
+  const token = `${process.pid} ${randomUUID()}\n`;
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      await handle.writeFile(token);
+      await handle.close();
+      break;
+    } catch (error) {
+      if (!isErrno(error, 'EEXIST')) {
+        throw new GraphStorageError(`Cannot create lock ${lockPath}`, path, { cause: error });
+      }
+    }
+
+    try {
+      const { mtimeMs } = await stat(lockPath);
+      if (Date.now() - mtimeMs > staleMs && await takeOverStaleLock(path, lockPath, staleMs)) continue;
+    } catch (error) {
+      // Released between our open and stat; try again right away
+      if (isErrno(error, 'ENOENT')) continue;
+      if (error instanceof GraphStorageError) throw error;
+      throw new GraphStorageError(`Cannot inspect lock ${lockPath}`, path, { cause: error });
+    }
+
+    if (Date.now() >= deadline) {
+      throw new GraphStorageError(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`, path);
+    }
+    await delay(LOCK_RETRY_MS);
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    utimes(lockPath, now, now).catch(() => {});
+  }, Math.max(LOCK_RETRY_MS, Math.floor(staleMs / 3)));
+  heartbeat.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    const holder = await readFile(lockPath, 'utf-8').catch(() => undefined);
+    if (holder === token) await unlink(lockPath).catch(() => {});
+  }
+}
+
+/**
+ * Write via a temp file, fsync and rename, so readers see either the old
+ * or the new content
+ */
+async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+  const handle = await open(tempPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    await rename(tempPath, path);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+async function readIfExists(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (error) {
+    if (isErrno(error, 'ENOENT')) return undefined;
+    throw new GraphStorageError(`Cannot read navigation graph ${path}`, path, { cause: error });
+  }
+}
+
+// ─── JSON file ───
+
+/**
+ * Whole graph in one JSON file. append() re-reads the file under the lock
+ * and applies the changes on top, so concurrent sessions don't lose each
+ * other's transitions; every append rewrites the file, though, so prefer
+ * JournalGraphStorage for large graphs.
+ */
+export class JsonFileGraphStorage implements GraphStorage {
+  readonly path: string;
+  private options: FileGraphStorageOptions;
+
+  constructor(path: string, options: FileGraphStorageOptions = {}) {
+    this.path = path;
+    this.options = options;
+  }
+
+  async load(): Promise<NavigationGraphData | undefined> {
+    const json = await readIfExists(this.path);
+    if (json === undefined) return undefined;
+    try {
+      return JSON.parse(json) as NavigationGraphData;
+    } catch (error) {
+      throw new GraphStorageError(`Corrupt navigation graph ${this.path}`, this.path, { cause: error });
+    }
+  }
+
+  save(data: NavigationGraphData): Promise<void> {
+    return withFileLock(this.path, this.options, () => this.write(data));
+  }
+
+  async append(changes: GraphChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    await withFileLock(this.path, this.options, async () => {
+      const graph = new NavigationGraph(await this.load());
+      for (const change of changes) graph.apply(change);
+      await this.write(graph.toJSON());
+    });
+  }
+
+  private write(data: NavigationGraphData): Promise<void> {
+    return writeFileAtomic(this.path, JSON.stringify(data, null, 2));
+  }
+}
+
+// ─── Journal ───
+
+type JournalEntry = GraphChange | { type: 'snapshot'; data: NavigationGraphData };
+
+/**
+ * Append-only journal: one JSON line per GraphChange, optionally starting
+ * with a snapshot line written by save() / compact(). Appends cost one
+ * small write regardless of graph size.
+ *
+ * A torn last line (crash mid-append) is dropped on load and trimmed before
+ * the next append; a malformed line anywhere else is corruption and throws.
+ */
+export class JournalGraphStorage implements GraphStorage {
+  readonly path: string;
+  private options: FileGraphStorageOptions;
+
+  constructor(path: string, options: FileGraphStorageOptions = {}) {
+    this.path = path;
+    this.options = options;
+  }
+
+  async load(): Promise<NavigationGraphData | undefined> {
+    const content = await readIfExists(this.path);
+    if (content === undefined) return undefined;
+
+    const lines = content.split('\n');
+    // Everything before the last newline is complete; after it is empty or torn
+    lines.pop();
+
+    let graph = new NavigationGraph();
+    lines.forEach((line, i) => {
+      if (line.trim() === '') return;
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line) as JournalEntry;
+      } catch (error) {
+        throw new GraphStorageError(`Corrupt journal ${this.path} at line ${i + 1}`, this.path, { cause: error });
+      }
+      if (entry.type === 'snapshot') {
+        graph = new NavigationGraph(entry.data);
+      } else {
+        graph.apply(entry);
+      }
+    });
+    return graph.toJSON();
+  }
+
+  /**
+   * Replace the journal with a snapshot of `data`
+   */
+  save(data: NavigationGraphData): Promise<void> {
+    return withFileLock(this.path, this.options, () => this.writeSnapshot(data));
+  }
+
+  async append(changes: GraphChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const lines = changes.map(change => JSON.stringify(change) + '\n').join('');
+    await withFileLock(this.path, this.options, async () => {
+      const handle = await open(this.path, 'a+');
+      try {
+        await this.trimTornTail(handle);
+        await handle.appendFile(lines, 'utf-8');
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    });
+  }
+
+  /**
+   * Fold the journal into a single snapshot line, including changes other
+   * writers appended since this process loaded it
+   */
+  compact(): Promise<void> {
+    return withFileLock(this.path, this.options, async () => {
+      const data = await this.load();
+      if (data) await this.writeSnapshot(data);
+    });
+  }
+
+  private writeSnapshot(data: NavigationGraphData): Promise<void> {
+    const entry: JournalEntry = { type: 'snapshot', data };
+    return writeFileAtomic(this.path, JSON.stringify(entry) + '\n');
+  }
+
+  /**
+   * Cut a partial last line left by a crash, so the next entry starts on a
+   * line of its own
+   */
+  private async trimTornTail(handle: FileHandle): Promise<void> {
+    const { size } = await handle.stat();
+    if (size === 0) return;
+
+    const chunk = Buffer.alloc(Math.min(size, 64 * 1024));
+    let end = size;
+    while (end > 0) {
+      const start = Math.max(0, end - chunk.length);
+      const { bytesRead } = await handle.read(chunk, 0, end - start, start);
+      const newline = chunk.subarray(0, bytesRead).lastIndexOf(0x0a);
+      if (newline >= 0) {
+        const keep = start + newline + 1;
+        if (keep < size) await handle.truncate(keep);
+        return;
+      }
+      end = start;
+    }
+    await handle.truncate(0);
+  }
+}
@@ -9,13 +9,51 @@ export {
   CompressedNode,
   ZoneType,
   ClassifiedNode,
+  TokenEstimator,
+  CompactTextOptions,
+  StateFormat,
+  StateSerializer,
+  ElidedRun,
+  PlanEntry,
   ScreenContext,
   ScreenFingerprint,
   ElementSelector,
+  CandidateSignals,
+  ElementCandidate,
+  ElementResolution,
+  ResolveOptions,
+  SelectorMatch,
+  DiffField,
+  FieldChange,
+  ElementChange,
+  ElementDiff,
+  StateDiff,
   ActionDescriptor,
   ScreenNode,
   GraphEdge,
   NavigationGraphData,
+  NavigationGraphOptions,
+  SimilarityWeights,
+  ActionOutcome,
+  ActionOutcomes,
+  PlanOptions,
+  PlannedAction,
+  NavigationPlan,
+  NavigateOptions,
+  TextMatch,
+  ScreenQuery,
+  ScreenMatch,
+  GraphChange,
+  GraphStorage,
+  WaitOptions,
+  StableWaitOptions,
+  WaitResult,
+  ExplorationStrategy,
+  AppExplorerOptions,
+  ExploredScreen,
+  ExplorationCheckpoint,
+  ScreenCoverage,
+  ExplorationResult,
   AgentSessionOptions,
   CompactState,
   ActionResult,
@@ -25,16 +63,62 @@ export {
 export { compressTree } from './tree-compressor';
 
 // Compact serialization
-export { serializeToCompactText } from './compact-serializer';
+export {
+  serializeToCompactText,
+  serializeDiffToCompactText,
+  approximateTokens,
+  planElements,
+  describeElision,
+} from './compact-serializer';
+
+// State formats
+export {
+  ELEMENTS_JSON_SCHEMA,
+  STATE_SERIALIZERS,
+  serializeToJson,
+  serializeToXml,
+  serializeToMarkdown,
+  serializeState,
+} from './state-formats';
+
+// State diff
+export { diffElements, diffStates, isEmptyDiff } from './state-diff';
 
 // Skeleton fingerprinting
-export { classifyZones, extractContext, computeFingerprint } from './skeleton-fingerprint';
+export {
+  classifyZones,
+  extractContext,
+  computeFingerprint,
+  screenSimilarity,
+  screenContextOf,
+  DEFAULT_SIMILARITY_WEIGHTS,
+} from './skeleton-fingerprint';
+export { matchScreen, parseScreenPath, describeScreenQuery } from './screen-query';
 
 // Navigation graph
-export { NavigationGraph } from './navigation-graph';
+export { NavigationGraph, actionKey } from './navigation-graph';
+export { GraphExportOptions, toDot, toMermaid } from './graph-export';
+export {
+  GraphStorageError,
+  FileGraphStorageOptions,
+  JsonFileGraphStorage,
+  JournalGraphStorage,
+} from './graph-storage';
 
 // Element actions
-export { findElement, computeCenter } from './element-actions';
+export { findElement, resolveElement, describeCandidate, computeCenter } from './element-actions';
+
+// Selector queries
+export {
+  ParsedSelector,
+  parseSelector,
+  querySelectorAll,
+  querySelector,
+  nodeAtPath,
+} from './selector-query';
 
 // Agent session
-export { AgentSession } from './agent-session';
+export { AgentSession, NavigationError } from './agent-session';
+
+// Exploration
+export { AppExplorer, DEFAULT_EXPLORER_DENYLIST } from './app-explorer';
@@ -1,22 +1,60 @@
 /**
  * Navigation graph: stores screen nodes and action edges.
  * Enables deterministic replay of known paths between screens.
+ *
+ * Every mutation goes through a GraphChange, which is also queued for
+ * incremental persistence (takeChanges → GraphStorage.append).
+ *
+ * Near-duplicate fingerprints (an extra badge, a counter in the title) can
+ * be folded into one node: new ones via `aliasThreshold`, existing ones via
+ * consolidate(). Every method taking a fingerprint resolves aliases first.
+ *
+ * Edges are stored per from--action--to; the same action from the same
+ * screen with different results forms an outcome distribution
+ * (getActionOutcomes), which planTo uses to minimize expected cost.
  */
 
-import { readFile, writeFile } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import { readFile, rename, writeFile } from 'node:fs/promises';
 import {
   ScreenNode,
   GraphEdge,
+  GraphChange,
   NavigationGraphData,
+  NavigationGraphOptions,
   ActionDescriptor,
+  ActionOutcomes,
+  NavigationPlan,
+  PlanOptions,
+  PlannedAction,
+  ScreenContext,
+  ScreenFingerprint,
+  ScreenMatch,
+  ScreenQuery,
+  SimilarityWeights,
 } from './types';
+import { screenSimilarity } from './skeleton-fingerprint';
+import { matchScreen } from './screen-query';
 
 const GRAPH_VERSION = 1;
+const DEFAULT_CONSOLIDATE_THRESHOLD = 0.8;
+const DEFAULT_STEP_COST_MS = 200;
+const DEFAULT_DEAD_END_COST_MS = 60_000;
+/** Pseudo-attempts that went nowhere, so rarely tried actions aren't trusted blindly */
+const PRIOR_STAYS = 1;
+const MAX_PLAN_ITERATIONS = 1000;
 
-function actionKey(action: ActionDescriptor): string {
+/**
+ * Short stable identity of an action, e.g. "tap:login_button" or "scroll:down".
+ * A tap on an element with both a resource id and a label keys on both
+ * ("tap:row|Beta"), since list rows often share an id.
+ */
+export function actionKey(action: ActionDescriptor): string {
   if (action.type === 'tap' && action.target) {
     const t = action.target;
-    return `tap:${t.resourceId || t.text || t.contentDesc || t.index || 'none'}`;
+    const label = t.text || t.contentDesc;
+    if (t.resourceId && label) return `tap:${t.resourceId}|${label}`;
+    return `tap:${t.resourceId || label || t.index || 'none'}`;
   }
   if (action.type === 'deeplink') {
     return `deeplink:${action.deepLink || 'none'}`;
@@ -34,13 +72,56 @@ function edgeId(from: string, to: string, action: ActionDescriptor): string {
   return `${from}--${actionKey(action)}--${to}`;
 }
 
+/**
+ * Expected cost of reaching the target by taking `group` from `from`,
+ * retrying while it stays put
+ */
+function expectedCost(
+  group: ActionOutcomes,
+  from: string,
+  costOf: (fingerprint: string) => number,
+  stepCost: number,
+): number {
+  const total = group.attempts + PRIOR_STAYS;
+  let stay = PRIOR_STAYS / total;
+  let perAttempt = stepCost;
+  for (const outcome of group.outcomes) {
+    const p = outcome.count / total;
+    perAttempt += p * outcome.avgLatencyMs;
+    if (outcome.to === from) {
+      stay += p;
+    } else {
+      perAttempt += p * costOf(outcome.to);
+    }
+  }
+  return stay < 1 ? perAttempt / (1 - stay) : Infinity;
+}
+
+function mergeNodeInto(existing: ScreenNode, node: ScreenNode): void {
+  existing.visitCount += node.visitCount;
+  existing.lastVisitedAt = Math.max(existing.lastVisitedAt, node.lastVisitedAt);
+  for (const action of node.availableActions) {
+    const key = actionKey(action);
+    if (!existing.availableActions.some(a => actionKey(a) === key)) {
+      existing.availableActions.push(structuredClone(action));
+    }
+  }
+}
+
 export class NavigationGraph {
   private nodes: Map<string, ScreenNode> = new Map();
   private edges: Map<string, GraphEdge> = new Map();
   private adjacency: Map<string, Set<string>> = new Map();
+  private aliases: Map<string, string> = new Map();
+  private pending: GraphChange[] = [];
+  private options: NavigationGraphOptions;
 
-  constructor(data?: NavigationGraphData) {
+  constructor(data?: NavigationGraphData, options: NavigationGraphOptions = {}) {
+    this.options = options;
     if (data) {
+      for (const [alias, canonical] of Object.entries(data.aliases ?? {})) {
+        this.aliases.set(alias, canonical);
+      }
       for (const [fp, node] of Object.entries(data.nodes)) {
         this.nodes.set(fp, node);
       }
@@ -60,45 +141,174 @@ export class NavigationGraph {
     appPackage: string,
     anchors: string[],
     actions: ActionDescriptor[],
+    context?: ScreenContext,
   ): ScreenNode {
+    const at = Date.now();
+    let canonical = this.resolve(fingerprint);
+    const { aliasThreshold, similarityWeights } = this.options;
+    if (!this.nodes.has(canonical) && aliasThreshold !== undefined) {
+      const candidate: ScreenNode = {
+        fingerprint, screenType, appPackage, anchorElements: anchors, context,
+        availableActions: [], visitCount: 0, lastVisitedAt: at,
+      };
+      const similar = this.findSimilar(candidate, aliasThreshold, similarityWeights);
+      if (similar) {
+        this.record({ type: 'alias', at, alias: fingerprint, canonical: similar.node.fingerprint });
+        canonical = similar.node.fingerprint;
+      }
+    }
+    this.record({ type: 'visit', at, fingerprint: canonical, screenType, appPackage, anchors, actions, context });
+    return this.nodes.get(canonical)!;
+  }
+
+  getNode(fingerprint: string): ScreenNode | undefined {
+    return this.nodes.get(this.resolve(fingerprint));
+  }
+
+  /**
+   * The node fingerprint a (possibly aliased) fingerprint stands for
+   */
+  resolve(fingerprint: string): string {
+    let current = fingerprint;
+    const seen = new Set<string>();
+    while (this.aliases.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = this.aliases.get(current)!;
+    }
+    return current;
+  }
+
+  /**
+   * The known node most similar to `screen` (see screenSimilarity), if it
+   * reaches `threshold`
+   */
+  findSimilar(
+    screen: ScreenFingerprint | ScreenNode,
+    threshold: number,
+    weights?: SimilarityWeights,
+  ): { node: ScreenNode; similarity: number } | undefined {
+    let best: { node: ScreenNode; similarity: number } | undefined;
+    for (const node of this.nodes.values()) {
+      const similarity = screenSimilarity(screen, node, weights);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { node, similarity };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Fold existing near-duplicate nodes together. Nodes are taken by visit
+   * count; each absorbs the remaining nodes at least `threshold` similar to
+   * it, which become aliases. Edges are rewired onto the surviving nodes and
+   * edges that now coincide are merged. Returns the number of nodes folded.
+   */
+  consolidate(threshold = DEFAULT_CONSOLIDATE_THRESHOLD, weights?: SimilarityWeights): number {
+    const before = this.nodes.size;
+    this.record({ type: 'consolidate', at: Date.now(), threshold, weights });
+    return before - this.nodes.size;
+  }
+
+  recordTransition(
+    from: string,
+    to: string,
+    action: ActionDescriptor,
+    latencyMs: number,
+    success: boolean,
+  ): void {
+    this.record({ type: 'transition', at: Date.now(), from, to, action, latencyMs, success });
+  }
+
+  /**
+   * Apply a change without queueing it, e.g. when replaying a journal
+   */
+  apply(change: GraphChange): void {
+    switch (change.type) {
+      case 'visit':
+        this.applyVisit(change);
+        break;
+      case 'transition':
+        this.applyTransition(change);
+        break;
+      case 'prune':
+        this.applyPrune(change.cutoff);
+        break;
+      case 'merge':
+        this.applyMerge(change.data);
+        break;
+      case 'alias':
+        this.applyAlias(change.alias, change.canonical);
+        break;
+      case 'consolidate':
+        this.applyConsolidate(change.threshold, change.weights);
+        break;
+    }
+  }
+
+  /**
+   * Fold in a graph learned elsewhere (another device, session or team
+   * member). Visit counts and edge counters are summed, latency averages
+   * are weighted by success count, and timestamps keep the latest.
+   */
+  merge(other: NavigationGraph | NavigationGraphData): void {
+    const data = other instanceof NavigationGraph ? other.toJSON() : other;
+    this.record({ type: 'merge', at: Date.now(), data: structuredClone(data) });
+  }
+
+  /**
+   * Changes made since the last call, for GraphStorage.append
+   */
+  takeChanges(): GraphChange[] {
+    const changes = this.pending;
+    this.pending = [];
+    return changes;
+  }
+
+  /**
+   * Put back changes from takeChanges() that could not be stored, ahead of
+   * anything recorded since, so the next append retries them
+   */
+  requeueChanges(changes: GraphChange[]): void {
+    this.pending = [...changes, ...this.pending];
+  }
+
+  private record(change: GraphChange): void {
+    this.apply(change);
+    this.pending.push(change);
+  }
+
+  private applyVisit(change: Extract<GraphChange, { type: 'visit' }>): void {
+    const fingerprint = this.resolve(change.fingerprint);
     const existing = this.nodes.get(fingerprint);
     if (existing) {
       existing.visitCount++;
-      existing.lastVisitedAt = Date.now();
+      existing.lastVisitedAt = change.at;
       // Merge new actions not already present
-      for (const action of actions) {
+      for (const action of change.actions) {
         const key = actionKey(action);
         if (!existing.availableActions.some(a => actionKey(a) === key)) {
           existing.availableActions.push(action);
         }
       }
-      return existing;
+      return;
     }
 
-    const node: ScreenNode = {
+    this.nodes.set(fingerprint, {
       fingerprint,
-      screenType,
-      appPackage,
-      anchorElements: anchors,
-      availableActions: actions,
+      screenType: change.screenType,
+      appPackage: change.appPackage,
+      anchorElements: [...change.anchors],
+      ...(change.context ? { context: { ...change.context } } : {}),
+      availableActions: [...change.actions],
       visitCount: 1,
-      lastVisitedAt: Date.now(),
-    };
-    this.nodes.set(fingerprint, node);
-    return node;
+      lastVisitedAt: change.at,
+    });
   }
 
-  getNode(fingerprint: string): ScreenNode | undefined {
-    return this.nodes.get(fingerprint);
-  }
-
-  recordTransition(
-    from: string,
-    to: string,
-    action: ActionDescriptor,
-    latencyMs: number,
-    success: boolean,
-  ): void {
+  private applyTransition(change: Extract<GraphChange, { type: 'transition' }>): void {
+    const { action, latencyMs, success } = change;
+    const from = this.resolve(change.from);
+    const to = this.resolve(change.to);
     const eid = edgeId(from, to, action);
     const existing = this.edges.get(eid);
 
@@ -111,7 +321,7 @@ export class NavigationGraph {
       } else {
         existing.failCount++;
       }
-      existing.lastUsedAt = Date.now();
+      existing.lastUsedAt = change.at;
     } else {
       const edge: GraphEdge = {
         id: eid,
@@ -121,17 +331,104 @@ export class NavigationGraph {
         successCount: success ? 1 : 0,
         failCount: success ? 0 : 1,
         avgLatencyMs: latencyMs,
-        lastUsedAt: Date.now(),
+        lastUsedAt: change.at,
       };
-      this.edges.set(eid, edge);
-      if (!this.adjacency.has(from)) {
-        this.adjacency.set(from, new Set());
+      this.addEdge(edge);
+    }
+  }
+
+  private addEdge(edge: GraphEdge): void {
+    this.edges.set(edge.id, edge);
+    if (!this.adjacency.has(edge.from)) {
+      this.adjacency.set(edge.from, new Set());
+    }
+    this.adjacency.get(edge.from)!.add(edge.id);
+  }
+
+  private applyAlias(alias: string, canonical: string): void {
+    const target = this.resolve(canonical);
+    // Never alias a node onto itself or one that still exists
+    if (target === alias || this.nodes.has(alias)) return;
+    this.aliases.set(alias, target);
+  }
+
+  private applyMerge(data: NavigationGraphData): void {
+    for (const [alias, canonical] of Object.entries(data.aliases ?? {})) {
+      if (!this.aliases.has(alias)) this.applyAlias(alias, canonical);
+    }
+
+    for (const [fp, node] of Object.entries(data.nodes)) {
+      const canonical = this.resolve(fp);
+      const existing = this.nodes.get(canonical);
+      if (existing) {
+        mergeNodeInto(existing, node);
+      } else {
+        this.nodes.set(canonical, { ...structuredClone(node), fingerprint: canonical });
+      }
+    }
+
+    for (const edge of data.edges) {
+      this.mergeEdge(edge);
+    }
+  }
+
+  /**
+   * Add a copy of `edge` with aliased endpoints resolved, or fold its
+   * counters into the edge already there
+   */
+  private mergeEdge(edge: GraphEdge): void {
+    const from = this.resolve(edge.from);
+    const to = this.resolve(edge.to);
+    const id = edgeId(from, to, edge.action);
+    const existing = this.edges.get(id);
+    if (!existing) {
+      this.addEdge({ ...structuredClone(edge), id, from, to });
+      return;
+    }
+    const successes = existing.successCount + edge.successCount;
+    if (successes > 0) {
+      existing.avgLatencyMs = Math.round(
+        (existing.avgLatencyMs * existing.successCount + edge.avgLatencyMs * edge.successCount) / successes,
+      );
+    }
+    existing.successCount = successes;
+    existing.failCount += edge.failCount;
+    existing.lastUsedAt = Math.max(existing.lastUsedAt, edge.lastUsedAt);
+  }
+
+  private applyConsolidate(threshold: number, weights?: SimilarityWeights): void {
+    const order = Array.from(this.nodes.values())
+      .sort((a, b) => b.visitCount - a.visitCount || a.fingerprint.localeCompare(b.fingerprint));
+    const folded = new Set<string>();
+
+    for (const canonical of order) {
+      if (folded.has(canonical.fingerprint)) continue;
+      for (const node of order) {
+        if (node === canonical || folded.has(node.fingerprint)) continue;
+        if (screenSimilarity(canonical, node, weights) < threshold) continue;
+        folded.add(node.fingerprint);
+        mergeNodeInto(canonical, node);
+        this.nodes.delete(node.fingerprint);
+        this.aliases.set(node.fingerprint, canonical.fingerprint);
       }
-      this.adjacency.get(from)!.add(eid);
+    }
+    if (folded.size === 0) return;
+
+    // Point older aliases straight at the surviving node
+    for (const alias of this.aliases.keys()) {
+      this.aliases.set(alias, this.resolve(alias));
+    }
+
+    const edges = Array.from(this.edges.values());
+    this.edges.clear();
+    this.adjacency.clear();
+    for (const edge of edges) {
+      this.mergeEdge(edge);
     }
   }
 
   getAvailableActions(fingerprint: string): ActionDescriptor[] {
+    fingerprint = this.resolve(fingerprint);
     const node = this.nodes.get(fingerprint);
     const actions: ActionDescriptor[] = node ? [...node.availableActions] : [];
 
@@ -151,74 +448,153 @@ export class NavigationGraph {
   }
 
   /**
-   * Find shortest path from source to target using Dijkstra.
-   * Edge weight = 1 / successRate (prefers reliable paths).
+   * Actions known from `from`, each with the distribution of screens it led
+   * to. Failed attempts count towards the screen they ended on.
    */
-  findPath(from: string, to: string): ActionDescriptor[] | null {
-    if (from === to) return [];
-    if (!this.nodes.has(from) || !this.nodes.has(to)) return null;
+  getActionOutcomes(from: string): ActionOutcomes[] {
+    from = this.resolve(from);
+    const groups = new Map<string, ActionOutcomes>();
+
+    for (const eid of this.adjacency.get(from) ?? []) {
+      const edge = this.edges.get(eid)!;
+      const key = actionKey(edge.action);
+      let group = groups.get(key);
+      if (!group) {
+        group = { from, action: edge.action, key, attempts: 0, failProbability: 0, outcomes: [] };
+        groups.set(key, group);
+      }
+      const count = edge.successCount + edge.failCount;
+      group.attempts += count;
+      group.outcomes.push({
+        to: edge.to,
+        count,
+        failCount: edge.failCount,
+        probability: 0,
+        avgLatencyMs: edge.avgLatencyMs,
+      });
+    }
 
-    const dist = new Map<string, number>();
-    const prev = new Map<string, { fingerprint: string; action: ActionDescriptor }>();
-    const visited = new Set<string>();
+    for (const group of groups.values()) {
+      const fails = group.outcomes.reduce((sum, outcome) => sum + outcome.failCount, 0);
+      group.failProbability = group.attempts > 0 ? fails / group.attempts : 0;
+      for (const outcome of group.outcomes) {
+        outcome.probability = group.attempts > 0 ? outcome.count / group.attempts : 1 / group.outcomes.length;
+      }
+      group.outcomes.sort((a, b) => b.probability - a.probability);
+    }
 
-    dist.set(from, 0);
+    return Array.from(groups.values());
+  }
 
-    while (true) {
-      // Find unvisited node with smallest distance
-      let current: string | null = null;
-      let minDist = Infinity;
-      for (const [fp, d] of dist) {
-        if (!visited.has(fp) && d < minDist) {
-          minDist = d;
-          current = fp;
+  /**
+   * Best action towards `target` from every screen, minimizing expected
+   * cost. An action costs its outcome-weighted latency plus `stepCostMs`,
+   * then the expected cost of wherever it lands; outcomes that stay put are
+   * retries. Screens with no way to the target cost `deadEndCostMs`, so an
+   * action with a small chance of an unknown detour is still usable.
+   */
+  planTo(target: string, options: PlanOptions = {}): NavigationPlan {
+    target = this.resolve(target);
+    const stepCost = options.stepCostMs ?? DEFAULT_STEP_COST_MS;
+    const deadEnd = options.deadEndCostMs ?? DEFAULT_DEAD_END_COST_MS;
+    const policy = new Map<string, PlannedAction>();
+    if (!this.nodes.has(target)) return { target, policy };
+
+    const actions = new Map<string, ActionOutcomes[]>();
+    for (const fp of this.adjacency.keys()) {
+      if (fp !== target) actions.set(fp, this.getActionOutcomes(fp));
+    }
+    const cost = new Map<string, number>([[target, 0]]);
+    const costOf = (fp: string) => cost.get(fp) ?? deadEnd;
+
+    // Value iteration; costs only decrease, so this settles
+    for (let iteration = 0; iteration < MAX_PLAN_ITERATIONS; iteration++) {
+      let changed = false;
+      for (const [from, groups] of actions) {
+        for (const group of groups) {
+          const expected = expectedCost(group, from, costOf, stepCost);
+          if (expected < costOf(from) - 0.5) {
+            cost.set(from, expected);
+            policy.set(from, {
+              action: group.action,
+              expectedCostMs: Math.round(expected),
+              expectedOutcome: group.outcomes.find(outcome => outcome.to !== from)?.to,
+              outcomes: group.outcomes,
+            });
+            changed = true;
+          }
         }
       }
+      if (!changed) break;
+    }
 
-      if (current === null) return null; // No path
-      if (current === to) break; // Found
-
-      visited.add(current);
+    return { target, policy };
+  }
 
-      const edgeIds = this.adjacency.get(current);
-      if (!edgeIds) continue;
+  /**
+   * Most likely action sequence from source to target under planTo's plan,
+   * following each step's expected outcome
+   */
+  findPath(from: string, to: string): ActionDescriptor[] | null {
+    from = this.resolve(from);
+    to = this.resolve(to);
+    if (from === to) return [];
+    if (!this.nodes.has(from) || !this.nodes.has(to)) return null;
 
-      for (const eid of edgeIds) {
-        const edge = this.edges.get(eid)!;
-        if (visited.has(edge.to)) continue;
+    const plan = this.planTo(to);
+    const path: ActionDescriptor[] = [];
+    const seen = new Set([from]);
+    let cursor = from;
+    while (cursor !== to) {
+      const step = plan.policy.get(cursor);
+      if (!step?.expectedOutcome || seen.has(step.expectedOutcome)) return null;
+      path.push(step.action);
+      cursor = step.expectedOutcome;
+      seen.add(cursor);
+    }
 
-        const total = edge.successCount + edge.failCount;
-        const successRate = total > 0 ? edge.successCount / total : 0.5;
-        const weight = 1 / Math.max(successRate, 0.01); // Avoid division by zero
+    return path;
+  }
 
-        const newDist = minDist + weight;
-        if (newDist < (dist.get(edge.to) ?? Infinity)) {
-          dist.set(edge.to, newDist);
-          prev.set(edge.to, { fingerprint: current, action: edge.action });
-        }
+  /**
+   * Known screens matching `query` (see matchScreen): best matches first,
+   * then cheapest to reach from `from`, then most visited. Costs are
+   * Infinity without `from` or when there is no known way there.
+   */
+  findScreens(query: ScreenQuery, from?: string, options?: PlanOptions): ScreenMatch[] {
+    const start = from !== undefined ? this.resolve(from) : undefined;
+    const matches: ScreenMatch[] = [];
+
+    for (const node of this.nodes.values()) {
+      const quality = matchScreen(node, query);
+      if (quality === 0) continue;
+      let expectedCostMs = Infinity;
+      if (start === node.fingerprint) {
+        expectedCostMs = 0;
+      } else if (start !== undefined) {
+        expectedCostMs = this.planTo(node.fingerprint, options).policy.get(start)?.expectedCostMs ?? Infinity;
       }
+      matches.push({ node, quality, expectedCostMs });
     }
 
-    // Reconstruct path
-    const path: ActionDescriptor[] = [];
-    let cursor = to;
-    while (cursor !== from) {
-      const step = prev.get(cursor);
-      if (!step) return null;
-      path.unshift(step.action);
-      cursor = step.fingerprint;
-    }
-
-    return path;
+    // Infinity - Infinity is NaN, which falls through to the next key
+    return matches.sort((a, b) =>
+      b.quality - a.quality ||
+      a.expectedCostMs - b.expectedCostMs ||
+      b.node.visitCount - a.node.visitCount);
   }
 
   /**
    * Remove nodes not visited within maxAge milliseconds.
    */
   prune(maxAge: number): number {
-    const cutoff = Date.now() - maxAge;
-    let removed = 0;
+    const at = Date.now();
+    const before = this.nodes.size;
+    this.record({ type: 'prune', at, cutoff: at - maxAge });
+    return before - this.nodes.size;
+  }
 
+  private applyPrune(cutoff: number): void {
     for (const [fp, node] of this.nodes) {
       if (node.lastVisitedAt < cutoff) {
         this.nodes.delete(fp);
@@ -238,11 +614,11 @@ export class NavigationGraph {
             }
           }
         }
-        removed++;
       }
     }
-
-    return removed;
+    for (const [alias, canonical] of this.aliases) {
+      if (!this.nodes.has(canonical)) this.aliases.delete(alias);
+    }
   }
 
   get nodeCount(): number {
@@ -262,25 +638,38 @@ export class NavigationGraph {
       version: GRAPH_VERSION,
       nodes,
       edges: Array.from(this.edges.values()),
+      ...(this.aliases.size > 0 ? { aliases: Object.fromEntries(this.aliases) } : {}),
     };
   }
 
-  static fromJSON(data: NavigationGraphData): NavigationGraph {
-    return new NavigationGraph(data);
+  static fromJSON(data: NavigationGraphData, options?: NavigationGraphOptions): NavigationGraph {
+    return new NavigationGraph(data, options);
   }
 
+  /**
+   * Write the whole graph to a JSON file. The write is atomic (temp file +
+   * rename) but unlocked, so concurrent writers still overwrite each other;
+   * use JsonFileGraphStorage for shared files.
+   */
   async save(filePath: string): Promise<void> {
     const json = JSON.stringify(this.toJSON(), null, 2);
-    await writeFile(filePath, json, 'utf-8');
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, json, 'utf-8');
+    await rename(tempPath, filePath);
   }
 
-  static async load(filePath: string): Promise<NavigationGraph> {
+  /**
+   * Read a graph saved with save(). A missing file gives an empty graph; an
+   * unreadable or corrupt one throws rather than silently starting over.
+   */
+  static async load(filePath: string, options?: NavigationGraphOptions): Promise<NavigationGraph> {
+    let json: string;
     try {
-      const json = await readFile(filePath, 'utf-8');
-      const data = JSON.parse(json) as NavigationGraphData;
-      return new NavigationGraph(data);
-    } catch {
-      return new NavigationGraph();
+      json = await readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new NavigationGraph(undefined, options);
+      throw error;
     }
+    return new NavigationGraph(JSON.parse(json) as NavigationGraphData, options);
   }
 }
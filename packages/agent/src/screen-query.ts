@@ -0,0 +1,116 @@
+/**
+ * Screen queries: describe a navigation target by what it shows (toolbar
+ * title, selected tab, screenType, package, an element on it) instead of
+ * its fingerprint, matched against ScreenNode metadata.
+ *
+ * A description string is a breadcrumb of titles, e.g. "Settings > Privacy":
+ * each segment is a waypoint to pass through, the last one the target.
+ */
+
+import { ElementSelector, ScreenNode, ScreenQuery, TextMatch } from './types';
+import { screenContextOf } from './skeleton-fingerprint';
+
+/**
+ * How well `value` matches: 1 for a case-insensitive equal string or a
+ * RegExp hit, 0.5 for a case-insensitive substring, 0 otherwise
+ */
+function textMatchQuality(value: string | undefined, wanted: TextMatch): number {
+  if (!value) return 0;
+  if (wanted instanceof RegExp) {
+    wanted.lastIndex = 0;
+    return wanted.test(value) ? 1 : 0;
+  }
+  const lower = value.trim().toLowerCase();
+  const wantedLower = wanted.trim().toLowerCase();
+  if (!wantedLower) return 0;
+  if (lower === wantedLower) return 1;
+  return lower.includes(wantedLower) ? 0.5 : 0;
+}
+
+function equalsIgnoringCase(value: string | undefined, wanted: string): boolean {
+  return !!value && value.toLowerCase() === wanted.toLowerCase();
+}
+
+/**
+ * Whether the node shows an element matching `selector`: one of its anchor
+ * labels, or the target of an action known from it. Indices and `near`
+ * are ignored; they don't carry over between visits.
+ */
+function containsElement(node: ScreenNode, selector: ElementSelector): boolean {
+  const { text, resourceId, contentDesc, className } = selector;
+  if (text === undefined && resourceId === undefined && contentDesc === undefined && className === undefined) {
+    return false;
+  }
+
+  const targetMatches = node.availableActions.some(({ target }) => {
+    if (!target) return false;
+    if (resourceId !== undefined && target.resourceId !== resourceId) return false;
+    if (className !== undefined && target.className !== className) return false;
+    if (text !== undefined && !equalsIgnoringCase(target.text, text)) return false;
+    if (contentDesc !== undefined && !equalsIgnoringCase(target.contentDesc, contentDesc)) return false;
+    return true;
+  });
+  if (targetMatches) return true;
+
+  // Anchor labels are text, else contentDesc, else resourceId, else className;
+  // a single label can only satisfy a selector with one criterion
+  const criteria = [text, contentDesc, resourceId, className].filter((c): c is string => c !== undefined);
+  return criteria.length === 1 && node.anchorElements.some(label => equalsIgnoringCase(label, criteria[0]));
+}
+
+/**
+ * Match quality of `node` for `query`, 0..1: the weakest of its criteria,
+ * 0 when any fails. An empty query matches nothing.
+ */
+export function matchScreen(node: ScreenNode, query: ScreenQuery): number {
+  const context = screenContextOf(node);
+  const qualities: number[] = [];
+
+  if (query.title !== undefined) {
+    qualities.push(Math.max(
+      textMatchQuality(context.toolbarTitle, query.title),
+      textMatchQuality(context.selectedTab, query.title),
+    ));
+  }
+  if (query.toolbarTitle !== undefined) qualities.push(textMatchQuality(context.toolbarTitle, query.toolbarTitle));
+  if (query.selectedTab !== undefined) qualities.push(textMatchQuality(context.selectedTab, query.selectedTab));
+  if (query.screenType !== undefined) qualities.push(textMatchQuality(node.screenType, query.screenType));
+  if (query.appPackage !== undefined) qualities.push(node.appPackage === query.appPackage ? 1 : 0);
+  if (query.containing !== undefined) qualities.push(containsElement(node, query.containing) ? 1 : 0);
+
+  return qualities.length > 0 ? Math.min(...qualities) : 0;
+}
+
+/**
+ * Split a description such as "Settings > Privacy" into one title query
+ * per segment. `base` criteria (e.g. appPackage) apply to every segment.
+ */
+export function parseScreenPath(description: string, base: ScreenQuery = {}): ScreenQuery[] {
+  return description
+    .split('>')
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .map(title => ({ ...base, title }));
+}
+
+/**
+ * Short human-readable form for errors and logs, e.g. `title "Privacy"`
+ */
+export function describeScreenQuery(query: ScreenQuery): string {
+  const format = (value: TextMatch) => (value instanceof RegExp ? String(value) : `"${value}"`);
+  const parts: string[] = [];
+  if (query.title !== undefined) parts.push(`title ${format(query.title)}`);
+  if (query.toolbarTitle !== undefined) parts.push(`toolbarTitle ${format(query.toolbarTitle)}`);
+  if (query.selectedTab !== undefined) parts.push(`selectedTab ${format(query.selectedTab)}`);
+  if (query.screenType !== undefined) parts.push(`screenType ${format(query.screenType)}`);
+  if (query.appPackage !== undefined) parts.push(`appPackage "${query.appPackage}"`);
+  if (query.containing !== undefined) {
+    const { text, resourceId, contentDesc, className } = query.containing;
+    const selector = Object.entries({ text, resourceId, contentDesc, className })
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}="${value}"`)
+      .join(' ');
+    parts.push(`containing ${selector}`);
+  }
+  return parts.join(', ') || 'empty query';
+}
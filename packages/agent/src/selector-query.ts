@@ -0,0 +1,557 @@
+/**
+ * CSS-like selector queries over the full AccessibilityNode tree.
+ *
+ *   RecyclerView > *:has(TextView[text~="Price"]) Button[clickable]
+ *
+ * Compound parts:
+ *   Button, android.widget.Button   class (short or fully-qualified), * = any
+ *   #login_button                   resourceId (with or without "pkg:id/")
+ *   [clickable] [enabled=false]     boolean flag set / equal
+ *   [text="OK"]  [text="ok" i]      exact match (i = case-insensitive)
+ *   [text~="Pri"] [text*="Pri"]     contains
+ *   [text^="Sub"] [text$="total"]   starts-with / ends-with
+ *   [text!="Cancel"]                not equal
+ *   [text=/\d+ items?/i]            regex
+ *   :has(sel) :has(> sel)           has a matching descendant / child
+ *   :not(sel)                       doesn't match sel
+ *   :nth(n)                         n-th match (1-based, negative from the end)
+ *   :nth-child(n) :first-child :last-child
+ * Combinators: whitespace (descendant), ">" (child); "," separates alternatives.
+ * Attribute names: text, contentDesc (desc), resourceId (id), className
+ * (class), index, clickable, scrollable, focused, enabled, checked, selected.
+ */
+
+import { AccessibilityNode, InvalidArgumentError } from '@device-stream/core';
+import { SelectorMatch } from './types';
+
+type Combinator = 'descendant' | 'child';
+
+type AttributeName =
+  | 'text' | 'contentDesc' | 'resourceId' | 'className' | 'index'
+  | 'clickable' | 'scrollable' | 'focused' | 'enabled' | 'checked' | 'selected';
+
+type AttributeOperator = 'exists' | '=' | '!=' | '~=' | '*=' | '^=' | '$=' | 'regex';
+
+interface AttributeTest {
+  kind: 'attribute';
+  name: AttributeName;
+  operator: AttributeOperator;
+  value?: string;
+  pattern?: RegExp;
+  ignoreCase?: boolean;
+}
+
+type SimpleTest =
+  | { kind: 'class'; name: string }
+  | { kind: 'id'; id: string }
+  | AttributeTest
+  | { kind: 'has'; selector: SelectorList }
+  | { kind: 'not'; selector: SelectorList }
+  | { kind: 'nthChild'; n: number };
+
+interface CompoundSelector {
+  tests: SimpleTest[];
+  /** :nth(n), applied to this compound's matches in document order */
+  nth?: number;
+}
+
+interface ComplexSelector {
+  /** combinators[i] joins compounds[i] and compounds[i + 1] */
+  compounds: CompoundSelector[];
+  combinators: Combinator[];
+  /** Leading combinator of a relative selector inside :has() */
+  leading?: Combinator;
+}
+
+type SelectorList = ComplexSelector[];
+
+/**
+ * A parsed selector; reuse it to avoid re-parsing in loops
+ */
+export interface ParsedSelector {
+  readonly source: string;
+  readonly list: SelectorList;
+}
+
+const ATTRIBUTE_ALIASES: Record<string, AttributeName> = {
+  text: 'text',
+  contentdesc: 'contentDesc',
+  'content-desc': 'contentDesc',
+  desc: 'contentDesc',
+  label: 'contentDesc',
+  resourceid: 'resourceId',
+  'resource-id': 'resourceId',
+  id: 'resourceId',
+  classname: 'className',
+  class: 'className',
+  index: 'index',
+  clickable: 'clickable',
+  scrollable: 'scrollable',
+  focused: 'focused',
+  enabled: 'enabled',
+  checked: 'checked',
+  selected: 'selected',
+};
+
+const BOOLEAN_ATTRIBUTES: ReadonlySet<AttributeName> = new Set([
+  'clickable', 'scrollable', 'focused', 'enabled', 'checked', 'selected',
+]);
+
+// ─── Parser ───
+
+class SelectorParser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parse(): SelectorList {
+    const list = this.parseList(false);
+    this.skipSpace();
+    if (this.pos < this.source.length) this.fail(`Unexpected "${this.source[this.pos]}"`);
+    return list;
+  }
+
+  private parseList(relative: boolean): SelectorList {
+    const list: SelectorList = [this.parseComplex(relative)];
+    this.skipSpace();
+    while (this.peek() === ',') {
+      this.pos++;
+      list.push(this.parseComplex(relative));
+      this.skipSpace();
+    }
+    return list;
+  }
+
+  private parseComplex(relative: boolean): ComplexSelector {
+    this.skipSpace();
+    const selector: ComplexSelector = { compounds: [], combinators: [] };
+    if (relative && this.peek() === '>') {
+      this.pos++;
+      this.skipSpace();
+      selector.leading = 'child';
+    }
+    selector.compounds.push(this.parseCompound());
+
+    while (true) {
+      const hadSpace = this.skipSpace();
+      const next = this.peek();
+      if (next === '>') {
+        this.pos++;
+        this.skipSpace();
+        selector.combinators.push('child');
+      } else if (hadSpace && next !== undefined && next !== ',' && next !== ')') {
+        selector.combinators.push('descendant');
+      } else {
+        return selector;
+      }
+      selector.compounds.push(this.parseCompound());
+    }
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = { tests: [] };
+    const start = this.pos;
+
+    if (this.peek() === '*') {
+      this.pos++;
+    } else if (/[A-Za-z_]/.test(this.peek() ?? '')) {
+      compound.tests.push({ kind: 'class', name: this.readWhile(/[\w.$]/) });
+    }
+
+    while (true) {
+      const next = this.peek();
+      if (next === '#') {
+        this.pos++;
+        const id = this.readWhile(/[\w.\/-]/);
+        if (!id) this.fail('Expected an id after "#"');
+        compound.tests.push({ kind: 'id', id });
+      } else if (next === '[') {
+        compound.tests.push(this.parseAttribute());
+      } else if (next === ':') {
+        this.parsePseudo(compound);
+      } else {
+        break;
+      }
+    }
+
+    if (this.pos === start) this.fail('Expected a selector');
+    return compound;
+  }
+
+  private parseAttribute(): AttributeTest {
+    this.pos++; // [
+    this.skipSpace();
+    const rawName = this.readWhile(/[\w-]/);
+    const name = ATTRIBUTE_ALIASES[rawName.toLowerCase()];
+    if (!name) this.fail(`Unknown attribute "${rawName}"`);
+    this.skipSpace();
+
+    if (this.peek() === ']') {
+      this.pos++;
+      return { kind: 'attribute', name, operator: 'exists' };
+    }
+
+    const operator = this.readOperator();
+    this.skipSpace();
+
+    let test: AttributeTest;
+    if (this.peek() === '/') {
+      test = { kind: 'attribute', name, operator: 'regex', pattern: this.readRegex() };
+    } else {
+      const value = this.peek() === '"' || this.peek() === "'" ? this.readString() : this.readWhile(/[^\s\]]/);
+      if (!value && operator !== '=' && operator !== '!=') this.fail(`Expected a value for ${rawName}${operator}`);
+      test = { kind: 'attribute', name, operator, value };
+    }
+
+    this.skipSpace();
+    if (test.operator !== 'regex' && /[iI]/.test(this.peek() ?? '')) {
+      this.pos++;
+      test.ignoreCase = true;
+      this.skipSpace();
+    }
+    this.expect(']');
+    return test;
+  }
+
+  private readOperator(): AttributeOperator {
+    for (const operator of ['!=', '~=', '*=', '^=', '$=', '='] as const) {
+      if (this.source.startsWith(operator, this.pos)) {
+        this.pos += operator.length;
+        return operator;
+      }
+    }
+    return this.fail('Expected an attribute operator');
+  }
+
+  private parsePseudo(compound: CompoundSelector): void {
+    this.pos++; // :
+    const name = this.readWhile(/[\w-]/).toLowerCase();
+
+    switch (name) {
+      case 'has': {
+        this.expect('(');
+        compound.tests.push({ kind: 'has', selector: this.parseList(true) });
+        this.expect(')');
+        return;
+      }
+      case 'not': {
+        this.expect('(');
+        const list = this.parseList(false);
+        this.expect(')');
+        compound.tests.push({ kind: 'not', selector: list });
+        return;
+      }
+      case 'nth':
+        this.expect('(');
+        compound.nth = this.readInteger();
+        this.expect(')');
+        return;
+      case 'nth-child':
+        this.expect('(');
+        compound.tests.push({ kind: 'nthChild', n: this.readInteger() });
+        this.expect(')');
+        return;
+      case 'first-child':
+        compound.tests.push({ kind: 'nthChild', n: 1 });
+        return;
+      case 'last-child':
+        compound.tests.push({ kind: 'nthChild', n: -1 });
+        return;
+      default:
+        this.fail(`Unknown pseudo-class ":${name}"`);
+    }
+  }
+
+  private readInteger(): number {
+    this.skipSpace();
+    const text = this.readWhile(/[-+\d]/);
+    const value = Number(text);
+    if (!text || !Number.isInteger(value) || value === 0) this.fail('Expected a non-zero integer');
+    this.skipSpace();
+    return value;
+  }
+
+  private readString(): string {
+    const quote = this.source[this.pos++];
+    let value = '';
+    while (this.pos < this.source.length && this.source[this.pos] !== quote) {
+      if (this.source[this.pos] === '\\' && this.pos + 1 < this.source.length) this.pos++;
+      value += this.source[this.pos++];
+    }
+    this.expect(quote);
+    return value;
+  }
+
+  private readRegex(): RegExp {
+    const start = this.pos++;
+    let body = '';
+    while (this.pos < this.source.length && this.source[this.pos] !== '/') {
+      if (this.source[this.pos] === '\\' && this.pos + 1 < this.source.length) {
+        body += this.source[this.pos++];
+      }
+      body += this.source[this.pos++];
+    }
+    this.expect('/');
+    const flags = this.readWhile(/[a-z]/);
+    try {
+      return new RegExp(body, flags.replace('g', ''));
+    } catch (error) {
+      this.pos = start;
+      return this.fail(`Invalid regex: ${(error as Error).message}`);
+    }
+  }
+
+  private readWhile(pattern: RegExp): string {
+    const start = this.pos;
+    while (this.pos < this.source.length && pattern.test(this.source[this.pos])) this.pos++;
+    return this.source.slice(start, this.pos);
+  }
+
+  private skipSpace(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.source[this.pos] ?? '')) this.pos++;
+    return this.pos > start;
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.pos];
+  }
+
+  private expect(char: string): void {
+    this.skipSpace();
+    if (this.source[this.pos] !== char) this.fail(`Expected "${char}"`);
+    this.pos++;
+  }
+
+  private fail(message: string): never {
+    throw new InvalidArgumentError(`Invalid selector "${this.source}" at ${this.pos}: ${message}`);
+  }
+}
+
+/**
+ * Parse a selector. Throws InvalidArgumentError with the failing position.
+ */
+export function parseSelector(selector: string): ParsedSelector {
+  return { source: selector, list: new SelectorParser(selector).parse() };
+}
+
+// ─── Matching ───
+
+interface IndexedNode {
+  node: AccessibilityNode;
+  path: number[];
+  parent?: IndexedNode;
+  children: IndexedNode[];
+  /** Pre-order position, for document order */
+  order: number;
+  /** 0-based position among siblings */
+  position: number;
+}
+
+function indexTree(roots: AccessibilityNode[]): IndexedNode[] {
+  const all: IndexedNode[] = [];
+  const visit = (node: AccessibilityNode, path: number[], parent?: IndexedNode): IndexedNode => {
+    const indexed: IndexedNode = {
+      node,
+      path,
+      parent,
+      children: [],
+      order: all.length,
+      position: path[path.length - 1],
+    };
+    all.push(indexed);
+    indexed.children = (node.children ?? []).map((child, i) => visit(child, [...path, i], indexed));
+    return indexed;
+  };
+  roots.forEach((root, i) => visit(root, [i]));
+  return all;
+}
+
+function siblingsOf(entry: IndexedNode, roots: IndexedNode[]): IndexedNode[] {
+  return entry.parent ? entry.parent.children : roots;
+}
+
+function descendants(entry: IndexedNode, out: IndexedNode[] = []): IndexedNode[] {
+  for (const child of entry.children) {
+    out.push(child);
+    descendants(child, out);
+  }
+  return out;
+}
+
+function shortClassName(className: string): string {
+  const lastDot = className.lastIndexOf('.');
+  return lastDot >= 0 ? className.substring(lastDot + 1) : className;
+}
+
+function attributeValue(node: AccessibilityNode, name: AttributeName): string | boolean | undefined {
+  switch (name) {
+    case 'index': return String(node.index);
+    case 'className': return node.className;
+    default: return node[name];
+  }
+}
+
+function compareText(actual: string, test: AttributeTest): boolean {
+  const expected = test.value ?? '';
+  const a = test.ignoreCase ? actual.toLowerCase() : actual;
+  const e = test.ignoreCase ? expected.toLowerCase() : expected;
+  switch (test.operator) {
+    case '=': return a === e;
+    case '!=': return a !== e;
+    case '~=':
+    case '*=': return a.includes(e);
+    case '^=': return a.startsWith(e);
+    case '$=': return a.endsWith(e);
+    case 'regex': return test.pattern!.test(actual);
+    case 'exists': return actual !== '';
+  }
+}
+
+function matchesAttribute(node: AccessibilityNode, test: AttributeTest): boolean {
+  const value = attributeValue(node, test.name);
+
+  if (BOOLEAN_ATTRIBUTES.has(test.name)) {
+    const flag = value === true;
+    if (test.operator === 'exists') return flag;
+    if (test.operator === '=' || test.operator === '!=') {
+      const expected = test.value === 'true' || test.value === '';
+      return test.operator === '=' ? flag === expected : flag !== expected;
+    }
+    return compareText(String(flag), test);
+  }
+
+  const text = typeof value === 'string' ? value : '';
+  // resourceId / className also match on their short form ("pkg:id/x" → "x")
+  if (test.operator !== '!=' && test.name === 'resourceId' && text.includes('/')) {
+    if (compareText(text.substring(text.indexOf('/') + 1), test)) return true;
+  }
+  if (test.operator !== '!=' && test.name === 'className' && compareText(shortClassName(text), test)) {
+    return true;
+  }
+  return compareText(text, test);
+}
+
+class SelectorEngine {
+  private roots: IndexedNode[];
+  /** Whole-tree results per selector, for :not() */
+  private cache: Map<ComplexSelector, Set<IndexedNode>> = new Map();
+
+  constructor(private all: IndexedNode[]) {
+    this.roots = all.filter(entry => !entry.parent);
+  }
+
+  /**
+   * Evaluate a selector list over the whole tree, or relative to `scope`
+   */
+  select(list: SelectorList, scope?: IndexedNode): IndexedNode[] {
+    const found = new Set<IndexedNode>();
+    for (const complex of list) {
+      for (const entry of this.selectComplex(complex, scope)) found.add(entry);
+    }
+    return [...found].sort((a, b) => a.order - b.order);
+  }
+
+  private selectComplex(complex: ComplexSelector, scope?: IndexedNode): IndexedNode[] {
+    let current: IndexedNode[];
+    if (scope) {
+      current = complex.leading === 'child' ? scope.children : descendants(scope);
+    } else {
+      current = this.all;
+    }
+    current = this.filterCompound(current, complex.compounds[0]);
+
+    for (let i = 1; i < complex.compounds.length; i++) {
+      const next = new Set<IndexedNode>();
+      for (const entry of current) {
+        const candidates = complex.combinators[i - 1] === 'child' ? entry.children : descendants(entry);
+        for (const candidate of candidates) next.add(candidate);
+      }
+      current = this.filterCompound([...next].sort((a, b) => a.order - b.order), complex.compounds[i]);
+    }
+    return current;
+  }
+
+  private filterCompound(entries: IndexedNode[], compound: CompoundSelector): IndexedNode[] {
+    const matched = entries.filter(entry => compound.tests.every(test => this.matchesTest(entry, test)));
+    if (compound.nth === undefined) return matched;
+    const pick = compound.nth > 0 ? matched[compound.nth - 1] : matched[matched.length + compound.nth];
+    return pick ? [pick] : [];
+  }
+
+  private matchesTest(entry: IndexedNode, test: SimpleTest): boolean {
+    const { node } = entry;
+    switch (test.kind) {
+      case 'class':
+        return node.className === test.name || shortClassName(node.className) === test.name;
+      case 'id': {
+        const id = node.resourceId ?? '';
+        return id === test.id || id.endsWith(`/${test.id}`);
+      }
+      case 'attribute':
+        return matchesAttribute(node, test);
+      case 'has':
+        return this.select(test.selector, entry).length > 0;
+      case 'not':
+        return !test.selector.some(complex => this.matchesComplex(entry, complex));
+      case 'nthChild': {
+        const siblings = siblingsOf(entry, this.roots);
+        const position = test.n > 0 ? test.n - 1 : siblings.length + test.n;
+        return entry.position === position;
+      }
+    }
+  }
+
+  /**
+   * Whether `entry` is a match of `complex` (checked against the whole tree)
+   */
+  private matchesComplex(entry: IndexedNode, complex: ComplexSelector): boolean {
+    let matches = this.cache.get(complex);
+    if (!matches) {
+      matches = new Set(this.selectComplex(complex));
+      this.cache.set(complex, matches);
+    }
+    return matches.has(entry);
+  }
+}
+
+/**
+ * Every node matching `selector`, in document (pre-order) order, with its
+ * path of child indices from the root list
+ */
+export function querySelectorAll(
+  tree: AccessibilityNode[],
+  selector: string | ParsedSelector,
+): SelectorMatch[] {
+  const parsed = typeof selector === 'string' ? parseSelector(selector) : selector;
+  const all = indexTree(tree);
+  return new SelectorEngine(all).select(parsed.list).map(entry => ({
+    node: entry.node,
+    path: entry.path,
+    depth: entry.path.length - 1,
+  }));
+}
+
+/**
+ * First match in document order
+ */
+export function querySelector(
+  tree: AccessibilityNode[],
+  selector: string | ParsedSelector,
+): SelectorMatch | undefined {
+  return querySelectorAll(tree, selector)[0];
+}
+
+/**
+ * Node at a path returned by querySelectorAll
+ */
+export function nodeAtPath(tree: AccessibilityNode[], path: number[]): AccessibilityNode | undefined {
+  let nodes: AccessibilityNode[] | undefined = tree;
+  let node: AccessibilityNode | undefined;
+  for (const index of path) {
+    node = nodes?.[index];
+    if (!node) return undefined;
+    nodes = node.children;
+  }
+  return node;
+}
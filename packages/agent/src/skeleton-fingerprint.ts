@@ -8,7 +8,15 @@
 
 import { createHash } from 'node:crypto';
 import { AccessibilityNode, DeviceStateSnapshot } from '@device-stream/core';
-import { CompressedNode, ClassifiedNode, ZoneType, ScreenContext, ScreenFingerprint } from './types';
+import {
+  CompressedNode,
+  ClassifiedNode,
+  ZoneType,
+  ScreenContext,
+  ScreenFingerprint,
+  ScreenNode,
+  SimilarityWeights,
+} from './types';
 
 // Scroll container classNames whose descendants are CONTENT zone
 const SCROLL_CONTAINERS = new Set([
@@ -211,3 +219,95 @@ export function computeFingerprint(
     anchorSummary,
   };
 }
+
+// ─── Similarity ───
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = { anchors: 0.7, context: 0.3 };
+
+/**
+ * Lowercased word tokens with digits collapsed, so "Inbox (3)" and
+ * "Inbox (12)" compare equal
+ */
+function tokens(text: string): string[] {
+  return text.toLowerCase().replace(/\d+/g, '#').split(/[^a-z#\u00c0-\uffff]+/).filter(Boolean);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function textSimilarity(a: string | undefined, b: string | undefined): number | undefined {
+  if (!a && !b) return undefined;
+  if (!a || !b) return 0;
+  return jaccard(new Set(tokens(a)), new Set(tokens(b)));
+}
+
+interface ScreenSignature {
+  appPackage: string;
+  anchors: string[];
+  toolbarTitle?: string;
+  selectedTab?: string;
+}
+
+/**
+ * Context of a graph node. Graphs saved before nodes kept their context
+ * only have screenType, which is "<package>:<title>".
+ */
+export function screenContextOf(node: ScreenNode): ScreenContext {
+  if (node.context) return node.context;
+  const prefix = `${node.appPackage}:`;
+  const title = node.screenType.startsWith(prefix) ? node.screenType.slice(prefix.length) : '';
+  return {
+    appPackage: node.appPackage,
+    currentApp: node.appPackage,
+    toolbarTitle: title && title !== 'unknown' ? title : undefined,
+  };
+}
+
+function signatureOf(screen: ScreenFingerprint | ScreenNode): ScreenSignature {
+  if ('skeletonHash' in screen) {
+    return { ...screen.context, anchors: screen.anchorSummary };
+  }
+  return { ...screenContextOf(screen), anchors: screen.anchorElements };
+}
+
+/**
+ * Similarity of two screens in 0..1: Jaccard overlap of their anchor labels
+ * blended with toolbar title and selected tab agreement. Digits are ignored
+ * throughout, so badges and counters don't split a screen. A signal both
+ * screens lack (no anchors, no title or tab) is left out of the blend
+ * rather than counted as agreement; screens with neither score 0, as do
+ * screens of different apps.
+ */
+export function screenSimilarity(
+  a: ScreenFingerprint | ScreenNode,
+  b: ScreenFingerprint | ScreenNode,
+  weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS,
+): number {
+  const sa = signatureOf(a);
+  const sb = signatureOf(b);
+  if (sa.appPackage !== sb.appPackage) return 0;
+
+  let score = 0;
+  let weight = 0;
+
+  if (sa.anchors.length > 0 || sb.anchors.length > 0) {
+    const anchorKeys = (anchors: string[]) => new Set(anchors.map(anchor => tokens(anchor).join(' ')));
+    score += weights.anchors * jaccard(anchorKeys(sa.anchors), anchorKeys(sb.anchors));
+    weight += weights.anchors;
+  }
+
+  const parts = [textSimilarity(sa.toolbarTitle, sb.toolbarTitle), textSimilarity(sa.selectedTab, sb.selectedTab)]
+    .filter((part): part is number => part !== undefined);
+  if (parts.length > 0) {
+    score += weights.context * parts.reduce((sum, part) => sum + part, 0) / parts.length;
+    weight += weights.context;
+  }
+
+  return weight > 0 ? score / weight : 0;
+}
@@ -0,0 +1,166 @@
+/**
+ * Structured diff between two CompactStates: which elements appeared,
+ * disappeared or changed, so an agent can be sent "a toast appeared" instead
+ * of the whole compact tree again.
+ *
+ * Indices shift whenever anything above an element changes, so elements are
+ * matched by identity heuristics in passes from strict to loose; within a
+ * pass the candidate nearest to the element's old position wins.
+ */
+
+import {
+  CompactState,
+  CompressedNode,
+  DiffField,
+  ElementChange,
+  ElementDiff,
+  FieldChange,
+  StateDiff,
+} from './types';
+
+type Bounds = CompressedNode['bounds'];
+
+// Minimum overlap for the positional pass to treat two elements as the same
+const MIN_POSITIONAL_IOU = 0.5;
+
+const SCALAR_FIELDS: Exclude<DiffField, 'bounds'>[] = [
+  'text', 'contentDesc', 'checked', 'selected', 'focused', 'enabled',
+];
+
+/**
+ * Identity keys from strict to loose. An element without the data a pass
+ * needs (e.g. no resourceId) skips that pass.
+ */
+const IDENTITY_PASSES: ((el: CompressedNode) => string | undefined)[] = [
+  el => `${el.className}|${el.resourceId ?? ''}|${el.text ?? ''}|${el.contentDesc ?? ''}`,
+  el => el.resourceId ? `${el.className}|#${el.resourceId}` : undefined,
+  el => el.text ? `${el.className}|t:${el.text}` : undefined,
+  el => el.contentDesc ? `${el.className}|d:${el.contentDesc}` : undefined,
+  el => el.className,
+];
+
+function center(b: Bounds): { x: number; y: number } {
+  return { x: (b.x1 + b.x2) / 2, y: (b.y1 + b.y2) / 2 };
+}
+
+function distance(a: Bounds, b: Bounds): number {
+  const ca = center(a);
+  const cb = center(b);
+  return Math.hypot(ca.x - cb.x, ca.y - cb.y);
+}
+
+function intersectionOverUnion(a: Bounds, b: Bounds): number {
+  const w = Math.min(a.x2, b.x2) - Math.max(a.x1, b.x1);
+  const h = Math.min(a.y2, b.y2) - Math.max(a.y1, b.y1);
+  if (w <= 0 || h <= 0) return 0;
+  const intersection = w * h;
+  const areaA = (a.x2 - a.x1) * (a.y2 - a.y1);
+  const areaB = (b.x2 - b.x1) * (b.y2 - b.y1);
+  return intersection / (areaA + areaB - intersection);
+}
+
+function sameBounds(a: Bounds, b: Bounds): boolean {
+  return a.x1 === b.x1 && a.y1 === b.y1 && a.x2 === b.x2 && a.y2 === b.y2;
+}
+
+function compareElements(before: CompressedNode, after: CompressedNode): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of SCALAR_FIELDS) {
+    if (before[field] !== after[field]) {
+      changes.push({ field, from: before[field], to: after[field] });
+    }
+  }
+  if (!sameBounds(before.bounds, after.bounds)) {
+    changes.push({ field: 'bounds', from: before.bounds, to: after.bounds });
+  }
+  return changes;
+}
+
+/**
+ * Diff two flattened element lists
+ */
+export function diffElements(before: CompressedNode[], after: CompressedNode[]): ElementDiff {
+  const unmatchedBefore = new Set(before);
+  const pairs = new Map<CompressedNode, CompressedNode>();
+
+  IDENTITY_PASSES.forEach((identity, pass) => {
+    const positional = pass === IDENTITY_PASSES.length - 1;
+
+    const byKey = new Map<string, CompressedNode[]>();
+    for (const el of unmatchedBefore) {
+      const key = identity(el);
+      if (key === undefined) continue;
+      const bucket = byKey.get(key);
+      if (bucket) bucket.push(el);
+      else byKey.set(key, [el]);
+    }
+
+    for (const el of after) {
+      if (pairs.has(el)) continue;
+      const key = identity(el);
+      const bucket = key === undefined ? undefined : byKey.get(key);
+      if (!bucket?.length) continue;
+
+      let best: CompressedNode | undefined;
+      let bestDistance = Infinity;
+      for (const candidate of bucket) {
+        if (positional && intersectionOverUnion(candidate.bounds, el.bounds) < MIN_POSITIONAL_IOU) continue;
+        const d = distance(candidate.bounds, el.bounds);
+        if (d < bestDistance) {
+          best = candidate;
+          bestDistance = d;
+        }
+      }
+      if (!best) continue;
+
+      pairs.set(el, best);
+      unmatchedBefore.delete(best);
+      bucket.splice(bucket.indexOf(best), 1);
+    }
+  });
+
+  const added: CompressedNode[] = [];
+  const changed: ElementChange[] = [];
+  let unchanged = 0;
+  for (const el of after) {
+    const previous = pairs.get(el);
+    if (!previous) {
+      added.push(el);
+      continue;
+    }
+    const changes = compareElements(previous, el);
+    if (changes.length > 0) {
+      changed.push({ before: previous, after: el, changes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  return {
+    added,
+    removed: before.filter(el => unmatchedBefore.has(el)),
+    changed,
+    unchanged,
+  };
+}
+
+/**
+ * Diff two states of the same session, usually before and after an action
+ */
+export function diffStates(before: CompactState, after: CompactState): StateDiff {
+  const fromFingerprint = before.fingerprint.fingerprint;
+  const toFingerprint = after.fingerprint.fingerprint;
+  return {
+    fromFingerprint,
+    toFingerprint,
+    screenChanged: fromFingerprint !== toFingerprint,
+    ...diffElements(before.elements, after.elements),
+  };
+}
+
+/**
+ * True when nothing on screen changed
+ */
+export function isEmptyDiff(diff: ElementDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
@@ -0,0 +1,259 @@
+/**
+ * Alternative encodings of CompressedNode[] for the model, so formats can be
+ * A/B tested against the compact line format:
+ *   json     — strict JSON matching ELEMENTS_JSON_SCHEMA
+ *   xml      — pseudo-HTML DOM, nesting recovered from bounds containment
+ *   markdown — outline grouped by zone (anchors, then content)
+ * All of them honour the token budget through planElements.
+ */
+
+import { InvalidArgumentError } from '@device-stream/core';
+import {
+  CompactTextOptions,
+  CompressedNode,
+  ElidedRun,
+  StateFormat,
+  StateSerializer,
+} from './types';
+import {
+  describeElision,
+  planElements,
+  serializeNode,
+  serializeToCompactText,
+} from './compact-serializer';
+
+// ─── JSON ───
+
+/**
+ * JSON Schema (draft 2020-12) of serializeToJson output
+ */
+export const ELEMENTS_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'Screen elements',
+  type: 'object',
+  required: ['elements'],
+  additionalProperties: false,
+  properties: {
+    elements: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['index', 'class', 'bounds'],
+        additionalProperties: false,
+        properties: {
+          index: { type: 'integer', description: 'Element index for actions' },
+          class: { type: 'string' },
+          id: { type: 'string', description: 'Resource id without package prefix' },
+          text: { type: 'string' },
+          desc: { type: 'string', description: 'Content description' },
+          bounds: {
+            type: 'array',
+            items: { type: 'integer' },
+            minItems: 4,
+            maxItems: 4,
+            description: '[x1, y1, x2, y2] in screen pixels',
+          },
+          clickable: { const: true },
+          scrollable: { const: true },
+          focused: { const: true },
+          checked: { type: 'boolean' },
+          selected: { const: true },
+          enabled: { const: false },
+        },
+      },
+    },
+    elided: {
+      type: 'array',
+      description: 'Elements left out to fit the token budget',
+      items: {
+        type: 'object',
+        required: ['after', 'count', 'kind'],
+        additionalProperties: false,
+        properties: {
+          after: { type: ['integer', 'null'], description: 'Index of the element before the run' },
+          count: { type: 'integer' },
+          kind: { enum: ['list items', 'elements'] },
+        },
+      },
+    },
+  },
+} as const;
+
+function toJsonElement(node: CompressedNode): Record<string, unknown> {
+  const { x1, y1, x2, y2 } = node.bounds;
+  const element: Record<string, unknown> = { index: node.index, class: node.className };
+  if (node.resourceId) element.id = node.resourceId;
+  if (node.text) element.text = node.text;
+  if (node.contentDesc) element.desc = node.contentDesc;
+  element.bounds = [x1, y1, x2, y2];
+  if (node.clickable) element.clickable = true;
+  if (node.scrollable) element.scrollable = true;
+  if (node.focused) element.focused = true;
+  if (node.checked !== undefined) element.checked = node.checked;
+  if (node.selected) element.selected = true;
+  if (!node.enabled) element.enabled = false;
+  return element;
+}
+
+function toJsonElision(run: ElidedRun, after: number | null): Record<string, unknown> {
+  return { after, count: run.count, kind: run.content ? 'list items' : 'elements' };
+}
+
+export function serializeToJson(nodes: CompressedNode[], options: CompactTextOptions = {}): string {
+  const plan = planElements(
+    nodes,
+    options,
+    node => JSON.stringify(toJsonElement(node)),
+    run => JSON.stringify(toJsonElision(run, 0)),
+  );
+
+  const elements: Record<string, unknown>[] = [];
+  const elided: Record<string, unknown>[] = [];
+  let previous: number | null = null;
+  for (const entry of plan) {
+    if (entry.kind === 'element') {
+      elements.push(toJsonElement(entry.node));
+      previous = entry.node.index;
+    } else {
+      elided.push(toJsonElision(entry, previous));
+    }
+  }
+
+  return JSON.stringify(elided.length > 0 ? { elements, elided } : { elements });
+}
+
+// ─── XML ───
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function xmlOpenTag(node: CompressedNode): string {
+  const attributes = [`i="${node.index}"`];
+  if (node.resourceId) attributes.push(`id="${escapeXml(node.resourceId)}"`);
+  if (node.contentDesc) attributes.push(`desc="${escapeXml(node.contentDesc)}"`);
+  if (node.clickable) attributes.push('clickable');
+  if (node.scrollable) attributes.push('scrollable');
+  if (node.focused) attributes.push('focused');
+  if (node.checked) attributes.push('checked');
+  if (node.selected) attributes.push('selected');
+  if (!node.enabled) attributes.push('disabled');
+  const { x1, y1, x2, y2 } = node.bounds;
+  attributes.push(`bounds="${x1},${y1},${x2},${y2}"`);
+  return `<${node.className} ${attributes.join(' ')}>`;
+}
+
+function containsBounds(outer: CompressedNode['bounds'], inner: CompressedNode['bounds']): boolean {
+  return inner.x1 >= outer.x1 && inner.y1 >= outer.y1 && inner.x2 <= outer.x2 && inner.y2 <= outer.y2;
+}
+
+/**
+ * Pseudo-HTML DOM. The flat list loses the tree, so an element is nested in
+ * the nearest earlier element whose bounds contain it; text becomes the
+ * element's content.
+ */
+export function serializeToXml(nodes: CompressedNode[], options: CompactTextOptions = {}): string {
+  const plan = planElements(
+    nodes,
+    options,
+    node => `${xmlOpenTag(node)}${escapeXml(node.text ?? '')}</${node.className}>`,
+    run => `<!-- ${describeElision(run)} -->`,
+  );
+
+  const lines: string[] = [];
+  const open: CompressedNode[] = [];
+  const indent = () => '  '.repeat(open.length);
+  const close = () => {
+    const node = open.pop()!;
+    lines.push(`${indent()}</${node.className}>`);
+  };
+
+  plan.forEach((entry, i) => {
+    if (entry.kind === 'elided') {
+      lines.push(`${indent()}<!-- ${describeElision(entry)} -->`);
+      return;
+    }
+
+    const node = entry.node;
+    while (open.length > 0 && !containsBounds(open[open.length - 1].bounds, node.bounds)) {
+      close();
+    }
+
+    const next = plan.slice(i + 1).find(e => e.kind === 'element');
+    const hasChildren = next?.kind === 'element' && containsBounds(node.bounds, next.node.bounds);
+    const text = escapeXml(node.text ?? '');
+    if (hasChildren) {
+      lines.push(`${indent()}${xmlOpenTag(node)}${text}`);
+      open.push(node);
+    } else {
+      lines.push(`${indent()}${xmlOpenTag(node)}${text}</${node.className}>`);
+    }
+  });
+
+  while (open.length > 0) close();
+  return lines.join('\n');
+}
+
+// ─── Markdown ───
+
+function markdownItem(node: CompressedNode): string {
+  return `- ${serializeNode(node)}`;
+}
+
+/**
+ * Markdown outline with anchors (toolbars, tabs, navigation) and content
+ * (list / feed items) under separate headings. Needs `options.zones` for the
+ * split; without it everything is listed under one heading.
+ */
+export function serializeToMarkdown(nodes: CompressedNode[], options: CompactTextOptions = {}): string {
+  const plan = planElements(nodes, options, markdownItem, run => `- ${describeElision(run)}`);
+
+  if (!options.zones) {
+    return ['## Elements', ...plan.map(entry =>
+      entry.kind === 'element' ? markdownItem(entry.node) : `- ${describeElision(entry)}`)].join('\n');
+  }
+
+  const zoneOf = new Map(options.zones.map(c => [c.node.index, c.zone]));
+  const anchors: string[] = [];
+  const content: string[] = [];
+  for (const entry of plan) {
+    if (entry.kind === 'element') {
+      (zoneOf.get(entry.node.index) === 'CONTENT' ? content : anchors).push(markdownItem(entry.node));
+    } else {
+      (entry.content ? content : anchors).push(`- ${describeElision(entry)}`);
+    }
+  }
+
+  const sections: string[] = [];
+  if (anchors.length > 0) sections.push(['## Anchors', ...anchors].join('\n'));
+  if (content.length > 0) sections.push(['## Content', ...content].join('\n'));
+  return sections.join('\n\n');
+}
+
+// ─── Registry ───
+
+export const STATE_SERIALIZERS: Record<StateFormat, StateSerializer> = {
+  compact: serializeToCompactText,
+  json: serializeToJson,
+  xml: serializeToXml,
+  markdown: serializeToMarkdown,
+};
+
+/**
+ * Serialize with a built-in format or a custom serializer
+ */
+export function serializeState(
+  nodes: CompressedNode[],
+  format: StateFormat | StateSerializer = 'compact',
+  options?: CompactTextOptions,
+): string {
+  const serializer = typeof format === 'function' ? format : STATE_SERIALIZERS[format];
+  if (!serializer) {
+    throw new InvalidArgumentError(`Unknown state format: ${format}`);
+  }
+  return serializer(nodes, options);
+}
@@ -3,7 +3,7 @@
  * Navigation graphs, skeleton fingerprinting, and LLM-optimized state.
  */
 
-import { AccessibilityNode, DeviceStateSnapshot } from '@device-stream/core';
+import { AccessibilityNode, DeviceErrorCode, DeviceStateSnapshot } from '@device-stream/core';
 
 // ─── Tree Compression ───
 
@@ -35,6 +35,47 @@ export interface ClassifiedNode {
   zone: ZoneType;
 }
 
+// ─── Compact Serialization ───
+
+/**
+ * Token count for a piece of serialized text, e.g. a model tokenizer
+ */
+export type TokenEstimator = (text: string) => number;
+
+export interface CompactTextOptions {
+  /** Keep the output within this many tokens, eliding low-priority elements */
+  tokenBudget?: number;
+  /** Defaults to approximateTokens (~4 characters per token) */
+  estimateTokens?: TokenEstimator;
+  /** classifyZones() output; anchors are kept before content */
+  zones?: ClassifiedNode[];
+  /** Screen size; elements outside it are kept last */
+  screen?: { width: number; height: number };
+}
+
+/**
+ * Built-in encodings of CompressedNode[] for the model (see state-formats)
+ */
+export type StateFormat = 'compact' | 'json' | 'xml' | 'markdown';
+
+export type StateSerializer = (nodes: CompressedNode[], options?: CompactTextOptions) => string;
+
+/**
+ * Consecutive elements dropped to fit a token budget
+ */
+export interface ElidedRun {
+  count: number;
+  /** Every element in the run is CONTENT zone (list / feed items) */
+  content: boolean;
+}
+
+/**
+ * What a serializer emits, in document order (see planElements)
+ */
+export type PlanEntry =
+  | { kind: 'element'; node: CompressedNode }
+  | ({ kind: 'elided' } & ElidedRun);
+
 // ─── Screen Context & Fingerprinting ───
 
 export interface ScreenContext {
@@ -60,6 +101,91 @@ export interface ElementSelector {
   resourceId?: string;
   contentDesc?: string;
   className?: string;
+  /** Prefer candidates near this point when several match */
+  near?: { x: number; y: number };
+}
+
+// ─── Element Resolution ───
+
+/**
+ * Per-signal scores (0..1) behind an ElementCandidate's total
+ */
+export interface CandidateSignals {
+  /** 1 for exact text / description matches, lower for case-insensitive and substring ones */
+  match: number;
+  enabled: number;
+  clickable: number;
+  /** Share of the bounds inside the screen */
+  onScreen: number;
+  /** 0 when a later-drawn element covers the center */
+  topmost: number;
+  /** Only when the selector has a `near` hint */
+  proximity?: number;
+}
+
+export interface ElementCandidate {
+  element: CompressedNode;
+  /** Weighted signal average, 0..1 */
+  score: number;
+  signals: CandidateSignals;
+}
+
+export interface ElementResolution {
+  best?: ElementCandidate;
+  /** Other matches, best first */
+  alternatives: ElementCandidate[];
+  /** The runner-up scores within the ambiguity margin of the best */
+  ambiguous: boolean;
+}
+
+export interface ResolveOptions {
+  /** Screen size for the on-screen check; defaults to the union of element bounds */
+  screen?: { width: number; height: number };
+  /** Score gap below which the top two count as ambiguous (default 0.05) */
+  ambiguityMargin?: number;
+}
+
+// ─── Selector Queries ───
+
+/**
+ * A node matched by querySelectorAll
+ */
+export interface SelectorMatch {
+  node: AccessibilityNode;
+  /** Child indices from the root list down to the node */
+  path: number[];
+  /** 0 for root nodes */
+  depth: number;
+}
+
+// ─── State Diff ───
+
+export type DiffField = 'text' | 'contentDesc' | 'checked' | 'selected' | 'focused' | 'enabled' | 'bounds';
+
+export interface FieldChange {
+  field: DiffField;
+  from: string | boolean | CompressedNode['bounds'] | undefined;
+  to: string | boolean | CompressedNode['bounds'] | undefined;
+}
+
+export interface ElementChange {
+  before: CompressedNode;
+  after: CompressedNode;
+  changes: FieldChange[];
+}
+
+export interface ElementDiff {
+  added: CompressedNode[];
+  removed: CompressedNode[];
+  changed: ElementChange[];
+  /** Matched elements with no tracked field changes */
+  unchanged: number;
+}
+
+export interface StateDiff extends ElementDiff {
+  fromFingerprint: string;
+  toFingerprint: string;
+  screenChanged: boolean;
 }
 
 // ─── Actions ───
@@ -79,6 +205,8 @@ export interface ScreenNode {
   screenType: string;
   appPackage: string;
   anchorElements: string[];
+  /** Toolbar title / selected tab when first seen, for similarity */
+  context?: ScreenContext;
   availableActions: ActionDescriptor[];
   visitCount: number;
   lastVisitedAt: number;
@@ -95,23 +223,314 @@ export interface GraphEdge {
   lastUsedAt: number;
 }
 
+/**
+ * One observed result of an action: the screen it ended on
+ */
+export interface ActionOutcome {
+  to: string;
+  /** Attempts that ended here, failed or not */
+  count: number;
+  failCount: number;
+  /** Share of all attempts of the action */
+  probability: number;
+  avgLatencyMs: number;
+}
+
+/**
+ * An action from a screen with the distribution of screens it led to,
+ * grouped from the edges sharing `from` and actionKey
+ */
+export interface ActionOutcomes {
+  from: string;
+  action: ActionDescriptor;
+  key: string;
+  attempts: number;
+  /** Share of attempts whose device call failed */
+  failProbability: number;
+  /** Most likely first */
+  outcomes: ActionOutcome[];
+}
+
+export interface PlanOptions {
+  /** Fixed cost added per action on top of its latency, favoring fewer steps (default 200) */
+  stepCostMs?: number;
+  /** Cost of ending on a screen with no known way to the target (default 60000) */
+  deadEndCostMs?: number;
+}
+
+export interface PlannedAction {
+  action: ActionDescriptor;
+  /** Expected cost to reach the target when starting with this action */
+  expectedCostMs: number;
+  /** Most likely screen it leads to, other than staying put */
+  expectedOutcome?: string;
+  outcomes: ActionOutcome[];
+}
+
+/**
+ * Best action towards `target` from every screen that can reach it
+ */
+export interface NavigationPlan {
+  target: string;
+  policy: Map<string, PlannedAction>;
+}
+
+export interface NavigateOptions {
+  /** Stops navigation; also aborts the action in flight */
+  signal?: AbortSignal;
+  /** Most actions to perform on the way (default 25) */
+  maxSteps?: number;
+}
+
 export interface NavigationGraphData {
   version: number;
   nodes: Record<string, ScreenNode>;
   edges: GraphEdge[];
+  /** Near-duplicate fingerprint → the node it was folded into */
+  aliases?: Record<string, string>;
+}
+
+/**
+ * Relative weight of anchor overlap vs. toolbar title / selected tab in
+ * screenSimilarity
+ */
+export interface SimilarityWeights {
+  anchors: number;
+  context: number;
+}
+
+export interface NavigationGraphOptions {
+  /**
+   * Treat a new fingerprint whose screenSimilarity to a known node is at
+   * least this as an alias of that node instead of a new node (off by default)
+   */
+  aliasThreshold?: number;
+  similarityWeights?: SimilarityWeights;
+}
+
+/**
+ * One mutation of a NavigationGraph, the unit of incremental persistence.
+ * Changes carry their own timestamp, so replaying them rebuilds the graph
+ * exactly, and changes from several sessions merge instead of overwriting.
+ */
+export type GraphChange =
+  | {
+    type: 'visit';
+    at: number;
+    fingerprint: string;
+    screenType: string;
+    appPackage: string;
+    anchors: string[];
+    actions: ActionDescriptor[];
+    context?: ScreenContext;
+  }
+  | {
+    type: 'transition';
+    at: number;
+    from: string;
+    to: string;
+    action: ActionDescriptor;
+    latencyMs: number;
+    success: boolean;
+  }
+  | { type: 'prune'; at: number; cutoff: number }
+  | { type: 'merge'; at: number; data: NavigationGraphData }
+  | { type: 'alias'; at: number; alias: string; canonical: string }
+  | { type: 'consolidate'; at: number; threshold: number; weights?: SimilarityWeights };
+
+/**
+ * Where a NavigationGraph is persisted (see graph-storage)
+ */
+export interface GraphStorage {
+  /** Stored graph, or undefined when nothing is stored yet. Throws on unreadable or corrupt data. */
+  load(): Promise<NavigationGraphData | undefined>;
+  /** Replace the stored graph */
+  save(data: NavigationGraphData): Promise<void>;
+  /** Persist changes on top of what is stored, including other writers' changes */
+  append(changes: GraphChange[]): Promise<void>;
+}
+
+// ─── Screen Queries ───
+
+/** Case-insensitive string, or a RegExp tested as is */
+export type TextMatch = string | RegExp;
+
+/**
+ * A navigation target described by what the screen shows rather than its
+ * fingerprint. All given criteria must match.
+ */
+export interface ScreenQuery {
+  /** Toolbar title or selected tab */
+  title?: TextMatch;
+  toolbarTitle?: TextMatch;
+  selectedTab?: TextMatch;
+  screenType?: TextMatch;
+  appPackage?: string;
+  /** An anchor or known tap target matching this selector */
+  containing?: ElementSelector;
+}
+
+export interface ScreenMatch {
+  node: ScreenNode;
+  /** 1 for exact matches, lower when a string only matched as a substring */
+  quality: number;
+  /** From the starting screen; Infinity when there is no known way there */
+  expectedCostMs: number;
+}
+
+// ─── Waits ───
+
+export interface WaitOptions {
+  /** Give up after this long (default 10000); a timeout throws DeviceTimeoutError */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  /** Delay before the second poll (default 100) */
+  intervalMs?: number;
+  /** Factor applied to the delay after each poll (default 1.5) */
+  backoff?: number;
+  /** Upper bound for the delay between polls (default 1000) */
+  maxIntervalMs?: number;
+}
+
+export interface StableWaitOptions extends WaitOptions {
+  /** Consecutive identical polls that count as stable (default 2) */
+  polls?: number;
+}
+
+export interface WaitResult {
+  /** State from the poll that satisfied the condition */
+  state: CompactState;
+  elapsedMs: number;
+  polls: number;
+}
+
+// ─── Exploration ───
+
+export type ExplorationStrategy = 'bfs' | 'dfs';
+
+export interface AppExplorerOptions {
+  /** Package to stay inside (default: the app in the foreground when exploration starts) */
+  appPackage?: string;
+  /** Breadth-first expands shallow screens first, depth-first follows each new screen (default 'bfs') */
+  strategy?: ExplorationStrategy;
+  /** Device actions to spend per explore() run, including backtracking (default 200) */
+  maxActions?: number;
+  maxDurationMs?: number;
+  /** Screens deeper than this are recorded but not expanded (default 10) */
+  maxDepth?: number;
+  /** Candidate taps per screen, in screen order (default 25) */
+  maxActionsPerScreen?: number;
+  /**
+   * Never tap elements whose text, description or resource id matches; the
+   * defaults (DEFAULT_EXPLORER_DENYLIST) cover delete / log out / pay and
+   * similar
+   */
+  denylist?: (string | RegExp)[];
+  /** back() presses to try before relaunching when backtracking (default 3) */
+  maxBackSteps?: number;
+  /** Bring the app back to its start screen, e.g. () => device.launchApp(serial, pkg) */
+  relaunch?: () => Promise<void>;
+  /** Progress file written after every action; an existing one is resumed */
+  checkpointPath?: string;
+}
+
+/**
+ * Exploration bookkeeping for one screen
+ */
+export interface ExploredScreen {
+  fingerprint: string;
+  screenType: string;
+  /** Actions from the start screen when first reached */
+  depth: number;
+  untried: ActionDescriptor[];
+  /** actionKey()s of actions already tried here */
+  tried: string[];
+  /** Tries that led to another screen of the app */
+  transitions: number;
+  /** Tries that left the app */
+  exits: number;
+  failures: number;
+  /** Elements skipped by the denylist */
+  denied: number;
+  /** Set when the explorer could not get back to this screen */
+  unreachable?: boolean;
+}
+
+export interface ExplorationCheckpoint {
+  version: number;
+  appPackage: string;
+  /** Across all runs */
+  actionsUsed: number;
+  screens: ExploredScreen[];
+}
+
+export interface ScreenCoverage {
+  fingerprint: string;
+  screenType: string;
+  depth: number;
+  /** Candidate actions found on the screen */
+  actions: number;
+  tried: number;
+  transitions: number;
+  exits: number;
+  failures: number;
+  denied: number;
+  /** Every candidate action was tried */
+  complete: boolean;
+  unreachable: boolean;
+}
+
+export interface ExplorationResult {
+  stoppedBecause: 'complete' | 'budget' | 'timeout' | 'left-app' | 'cancelled';
+  /** In this run */
+  actionsUsed: number;
+  durationMs: number;
+  screens: ScreenCoverage[];
 }
 
 // ─── Agent Session ───
 
 export interface AgentSessionOptions {
   serial: string;
+  /** JSON file for the default storage (default nav-graph-<serial>.json) */
   graphPath?: string;
+  /** Overrides graphPath, e.g. a JournalGraphStorage shared by parallel sessions */
+  graphStorage?: GraphStorage;
+  /** Fold near-duplicate screens into one node; see NavigationGraphOptions.aliasThreshold */
+  screenAliasThreshold?: number;
+  /** Cap on compressed elements (default 50; unlimited when tokenBudget is set) */
   maxElements?: number;
+  /** Encoding of CompactState.compactTree (default 'compact'), or a custom serializer */
+  stateFormat?: StateFormat | StateSerializer;
+  /** Budget for CompactState.compactTree; see planElements */
+  tokenBudget?: number;
+  estimateTokens?: TokenEstimator;
+  /**
+   * Sleep this long after each action instead of waiting for the screen to
+   * settle (the pre-settle behaviour)
+   */
   stabilityDelayMs?: number;
+  /**
+   * How actions wait for the screen to settle: until the tree is identical
+   * across `polls` polls, for at most `timeoutMs` (default 5000). A screen
+   * that never settles is captured as-is.
+   */
+  settle?: StableWaitOptions;
+  /** Default deadline for the device calls behind one performAction() */
+  actionTimeoutMs?: number;
+  /**
+   * What element actions do when a selector resolves ambiguously: 'warn'
+   * (default) taps the best match and sets ActionResult.warning, 'refuse'
+   * fails the action with INVALID_ARGUMENT
+   */
+  onAmbiguousSelector?: 'warn' | 'refuse';
+  /** Attach a StateDiff against the previous state to each ActionResult */
+  includeDiff?: boolean;
 }
 
 export interface CompactState {
   fingerprint: ScreenFingerprint;
+  /** Screen elements in the session's stateFormat */
   compactTree: string;
   elements: CompressedNode[];
   appInfo: DeviceStateSnapshot['appInfo'];
@@ -127,6 +546,16 @@ export interface ActionResult {
   transitioned: boolean;
   latencyMs: number;
   error?: string;
+  /** Stable code when the failure was a DeviceError */
+  errorCode?: DeviceErrorCode;
+  /** Set when the action went ahead despite an ambiguous selector */
+  warning?: string;
+  /** Time spent waiting for the screen to settle after the action */
+  settleMs: number;
+  /** False when the settle timeout hit before the tree stopped changing */
+  settled: boolean;
+  /** What changed on screen, when `includeDiff` is on and a previous state exists */
+  diff?: StateDiff;
 }
 
 // Re-export core types used by consumers
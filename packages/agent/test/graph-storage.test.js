@@ -0,0 +1,77 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } = require('node:fs');
+const { tmpdir } = require('node:os');
+const { join } = require('node:path');
+const { withFileLock } = require('../dist/graph-storage');
+
+const delay = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function tempGraphPath(t) {
+  const dir = mkdtempSync(join(tmpdir(), 'graph-storage-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  return join(dir, 'graph.json');
+}
+
+/**
+ * Run `fn` under the lock, counting how many holders are inside at once
+ */
+function tracker() {
+  const state = { inside: 0, maxInside: 0, runs: 0 };
+  state.run = (path, options, holdMs) => withFileLock(path, options, async () => {
+    state.inside++;
+    state.maxInside = Math.max(state.maxInside, state.inside);
+    await delay(holdMs);
+    state.inside--;
+    state.runs++;
+  });
+  return state;
+}
+
+test('waiters never take over the lock of a live holder', async t => {
+  const path = tempGraphPath(t);
+  const options = { staleLockMs: 150, lockTimeoutMs: 5000 };
+  const state = tracker();
+
+  // The holder keeps the lock several times longer than staleLockMs
+  const holder = state.run(path, options, 600);
+  await delay(20);
+  const waiters = Array.from({ length: 3 }, () => state.run(path, options, 10));
+
+  await Promise.all([holder, ...waiters]);
+  assert.equal(state.runs, 4);
+  assert.equal(state.maxInside, 1);
+  assert.equal(existsSync(`${path}.lock`), false);
+});
+
+test('waiters racing for a stale lock take it over one at a time', async t => {
+  const path = tempGraphPath(t);
+  const options = { staleLockMs: 150, lockTimeoutMs: 5000 };
+  const state = tracker();
+
+  // Left behind by a crashed process
+  writeFileSync(`${path}.lock`, '999999 crashed\n');
+  const old = new Date(Date.now() - 60_000);
+  utimesSync(`${path}.lock`, old, old);
+
+  await Promise.all(Array.from({ length: 5 }, () => state.run(path, options, 20)));
+  assert.equal(state.runs, 5);
+  assert.equal(state.maxInside, 1);
+  assert.equal(existsSync(`${path}.lock`), false);
+  assert.equal(existsSync(`${path}.lock.takeover`), false);
+});
+
+test('a lock that stays busy times out', async t => {
+  const path = tempGraphPath(t);
+  const state = tracker();
+  const holder = state.run(path, { staleLockMs: 1000 }, 300);
+  await delay(20);
+
+  await assert.rejects(
+    withFileLock(path, { staleLockMs: 1000, lockTimeoutMs: 100 }, async () => {}),
+    error => error.name === 'GraphStorageError',
+  );
+  await holder;
+});
@@ -0,0 +1,59 @@
+'use strict';
+
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { mkdtempSync, rmSync } = require('node:fs');
+const { tmpdir } = require('node:os');
+const { join } = require('node:path');
+const { FakeDeviceService } = require('@device-stream/core');
+const { AgentSession } = require('../dist');
+
+const SERIAL = 'fake-device';
+
+async function createSession(t) {
+  const dir = mkdtempSync(join(tmpdir(), 'agent-waits-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+
+  const service = new FakeDeviceService({
+    initialScreen: 'home',
+    screens: [{
+      id: 'home',
+      tree: [{
+        index: 0,
+        className: 'android.widget.TextView',
+        text: 'Home',
+        bounds: { x1: 0, y1: 0, x2: 500, y2: 100 },
+        clickable: false,
+        scrollable: false,
+        focused: false,
+        enabled: true,
+      }],
+    }],
+  });
+  await service.connect(SERIAL);
+  return new AgentSession(service, { serial: SERIAL, graphPath: join(dir, 'graph.json') });
+}
+
+test('polling many times on one wait does not pile up abort listeners', async t => {
+  const warnings = [];
+  const onWarning = warning => warnings.push(warning);
+  process.on('warning', onWarning);
+  t.after(() => process.off('warning', onWarning));
+
+  const session = await createSession(t);
+  let polls = 0;
+  const result = await session.waitFor(() => ++polls >= 20, { intervalMs: 1, maxIntervalMs: 1 });
+
+  assert.equal(result.polls, 20);
+  // Warnings are emitted on the next tick
+  await new Promise(resolve => setImmediate(resolve));
+  assert.deepEqual(warnings.filter(warning => warning.name === 'MaxListenersExceededWarning'), []);
+});
+
+test('a wait that never holds times out after polling', async t => {
+  const session = await createSession(t);
+  await assert.rejects(
+    session.waitForElement({ text: 'Never' }, { timeoutMs: 200, intervalMs: 1, maxIntervalMs: 1 }),
+    error => error.code === 'TIMEOUT',
+  );
+});
@@ -12,16 +12,144 @@ import {
   PlatformCapability,
   AppInfo,
   AppearanceMode,
+  CallOptions,
+  CharacterKey,
+  DeviceKey,
+  KeyInput,
+  KeyModifier,
+  DEVICE_KEYS,
+  DeviceError,
+  DeviceGoneError,
+  DeviceNotFoundError,
+  GestureTouchEvent,
+  H264Mp4Muxer,
+  InvalidArgumentError,
+  LogFilter,
+  LogStream,
+  PointerSequence,
+  TransportError,
+  UnsupportedError,
+  compileGestureTimeline,
+  formatKey,
+  isRawKey,
+  isDeviceKey,
+  keyCapabilities,
+  matchesLogFilter,
+  toKeyChord,
+  toDeviceError,
+  raceSignal,
+  abortableDelay,
+  withCallOptions,
 } from '@device-stream/core';
 import { parseUiAutomatorXml } from './hierarchy-parser';
+import { logcatCommand, parseLogcatLine } from './logcat';
+import { scrcpyService } from './scrcpy-service';
 import { Adb, AdbServerClient } from '@yume-chan/adb';
 import { AdbServerNodeTcpConnector } from '@yume-chan/adb-server-node-tcp';
+import {
+  ConcatBufferStream,
+  ConcatStringStream,
+  ReadableStream,
+  SplitStringStream,
+  TextDecoderStream,
+} from '@yume-chan/stream-extra';
+
+const ANDROID_KEYCODES: Record<DeviceKey, string> = {
+  back: 'KEYCODE_BACK',
+  home: 'KEYCODE_HOME',
+  menu: 'KEYCODE_MENU',
+  appSwitch: 'KEYCODE_APP_SWITCH',
+  search: 'KEYCODE_SEARCH',
+  volumeUp: 'KEYCODE_VOLUME_UP',
+  volumeDown: 'KEYCODE_VOLUME_DOWN',
+  volumeMute: 'KEYCODE_VOLUME_MUTE',
+  power: 'KEYCODE_POWER',
+  dpadUp: 'KEYCODE_DPAD_UP',
+  dpadDown: 'KEYCODE_DPAD_DOWN',
+  dpadLeft: 'KEYCODE_DPAD_LEFT',
+  dpadRight: 'KEYCODE_DPAD_RIGHT',
+  dpadCenter: 'KEYCODE_DPAD_CENTER',
+  mediaPlayPause: 'KEYCODE_MEDIA_PLAY_PAUSE',
+  mediaNext: 'KEYCODE_MEDIA_NEXT',
+  mediaPrevious: 'KEYCODE_MEDIA_PREVIOUS',
+  mediaStop: 'KEYCODE_MEDIA_STOP',
+  enter: 'KEYCODE_ENTER',
+  tab: 'KEYCODE_TAB',
+  delete: 'KEYCODE_DEL',
+  forwardDelete: 'KEYCODE_FORWARD_DEL',
+  escape: 'KEYCODE_ESCAPE',
+  space: 'KEYCODE_SPACE',
+  // A single-line EditText runs its imeOptions action on ENTER
+  imeAction: 'KEYCODE_ENTER',
+};
+
+const ANDROID_MODIFIER_KEYCODES: Record<KeyModifier, string> = {
+  shift: 'KEYCODE_SHIFT_LEFT',
+  ctrl: 'KEYCODE_CTRL_LEFT',
+  alt: 'KEYCODE_ALT_LEFT',
+  meta: 'KEYCODE_META_LEFT',
+};
+
+/** `input keycombination` (key chords) arrived in Android 13 */
+const KEY_COMBINATION_MIN_SDK = 33;
+
+function androidKeyCode(key: DeviceKey | CharacterKey): string | undefined {
+  if (isDeviceKey(key)) return ANDROID_KEYCODES[key];
+  return /^[a-z0-9]$/.test(key) ? `KEYCODE_${key.toUpperCase()}` : undefined;
+}
+
+/**
+ * `input motionevent` starts a JVM per call, so the adb fallback samples
+ * moves far more coarsely than the scrcpy control channel.
+ */
+const MOTION_EVENT_STEP_MS = 100;
+
+/** How often the pids behind a LogFilter's `packages` are re-resolved */
+const PACKAGE_PID_REFRESH_MS = 2000;
+
+/**
+ * Single-pointer timeline as one shell script of `input motionevent` calls
+ */
+function motionEventScript(timeline: GestureTouchEvent[]): string {
+  let previousAt = 0;
+  return timeline.map(event => {
+    const wait = (event.at - previousAt) / 1000;
+    previousAt = event.at;
+    const command = `input motionevent ${event.action.toUpperCase()} ${event.x} ${event.y}`;
+    return wait > 0 ? `sleep ${wait.toFixed(3)}; ${command}` : command;
+  }).join('; ');
+}
+
+/**
+ * Map an adb failure onto a DeviceError.
+ * A closed/offline transport means the device went away (unplugged, adbd
+ * restarted); anything else is treated as a transport error.
+ */
+function adbError(error: unknown, message: string, serial: string): DeviceError {
+  if (error instanceof DeviceError) return error;
+  const text = error instanceof Error ? error.message : String(error);
+  if (/offline|unauthorized|closed|ECONNRESET|EPIPE|device .*not found/i.test(text)) {
+    return new DeviceGoneError(`${message}: ${error}`, { cause: error, serial, platform: 'android' });
+  }
+  return toDeviceError(error, message, { serial, platform: 'android' });
+}
+
+interface ActiveRecording {
+  muxer: H264Mp4Muxer;
+  unsubscribe: () => void;
+  /** Set when the recording started its own scrcpy stream */
+  stopStream?: () => Promise<void>;
+}
 
 export class AndroidDeviceService extends BaseDeviceService {
   private client: AdbServerClient;
   private devices: Map<string, Adb> = new Map();
   private pendingConnections: Map<string, Promise<Adb>> = new Map();
   private deviceInfoCache: Map<string, Device> = new Map();
+  private recordings: Map<string, ActiveRecording> = new Map();
+  private logStreams: Map<string, LogStream> = new Map();
+  /** ro.build.version.sdk of connected devices, read on connect */
+  private sdkLevels: Map<string, number> = new Map();
 
   constructor() {
     super('android');
@@ -32,9 +160,13 @@ export class AndroidDeviceService extends BaseDeviceService {
     this.client = new AdbServerClient(connector);
   }
 
-  async listDevices(): Promise<Device[]> {
+  async listDevices(options?: CallOptions): Promise<Device[]> {
+    return withCallOptions(options, 'listDevices', { platform: 'android' }, signal => this.listDevicesInternal(signal));
+  }
+
+  private async listDevicesInternal(signal?: AbortSignal): Promise<Device[]> {
     try {
-      const deviceList = await this.client.getDevices();
+      const deviceList = await raceSignal(this.client.getDevices(), signal);
       const devices: Device[] = [];
 
       for (const device of deviceList) {
@@ -44,7 +176,7 @@ export class AndroidDeviceService extends BaseDeviceService {
           // See: https://tangoadb.dev/tango/server/transport/
           const transport = await this.client.createTransport(device);
           adb = new Adb(transport);
-          const props = await this.getDeviceProperties(adb);
+          const props = await this.getDeviceProperties(adb, signal);
 
           const [width, height] = this.parseResolution(props.resolution);
 
@@ -61,6 +193,7 @@ export class AndroidDeviceService extends BaseDeviceService {
           this.deviceInfoCache.set(device.serial, deviceInfo);
           devices.push(deviceInfo);
         } catch (error) {
+          if (signal?.aborted) throw signal.reason;
           console.error(`Failed to get properties for device ${device.serial}:`, error);
           devices.push({
             serial: device.serial,
@@ -80,100 +213,130 @@ export class AndroidDeviceService extends BaseDeviceService {
       return devices;
     } catch (error) {
       console.error('Failed to list Android devices:', error);
-      throw error;
+      throw toDeviceError(error, 'Failed to list Android devices', { platform: 'android' });
     }
   }
 
-  async connect(serial: string): Promise<void> {
-    try {
-      await this.getAdbDevice(serial);
-      this.markConnected(serial);
-      console.log(`Android device ${serial} connected via TangoADB`);
-    } catch (error) {
-      console.error(`Failed to connect Android device ${serial}:`, error);
-      throw new Error(`Failed to connect device: ${error}`);
-    }
+  async connect(serial: string, options?: CallOptions): Promise<void> {
+    return this.cancellable(serial, 'connect', options, async signal => {
+      try {
+        const adb = await raceSignal(this.getAdbDevice(serial), signal);
+        await this.getSdkLevel(serial, adb, signal);
+        this.markConnected(serial);
+        console.log(`Android device ${serial} connected via TangoADB`);
+      } catch (error) {
+        console.error(`Failed to connect Android device ${serial}:`, error);
+        throw adbError(error, 'Failed to connect device', serial);
+      }
+    });
   }
 
   async disconnect(serial: string): Promise<void> {
+    await this.discardRecording(serial);
+    await this.stopLogStream(serial);
     if (this.devices.has(serial)) {
       const adb = this.devices.get(serial)!;
       await adb.close();
       this.devices.delete(serial);
+      this.sdkLevels.delete(serial);
       this.markDisconnected(serial);
       console.log(`Android device ${serial} disconnected`);
     }
   }
 
-  async tap(serial: string, x: number, y: number): Promise<void> {
+  async tap(serial: string, x: number, y: number, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    try {
-      const adb = await this.getAdbDevice(serial);
-      await this.runShellCommand(adb, `input tap ${x} ${y}`);
-      console.log(`Tapped at (${x}, ${y}) on Android device ${serial}`);
-    } catch (error) {
-      console.error(`Failed to tap on Android device ${serial}:`, error);
-      throw new Error(`Failed to tap: ${error}`);
-    }
+    return this.cancellable(serial, 'tap', options, async signal => {
+      try {
+        const adb = await this.getAdbDevice(serial);
+        await this.runShellCommand(adb, `input tap ${x} ${y}`, signal);
+        console.log(`Tapped at (${x}, ${y}) on Android device ${serial}`);
+      } catch (error) {
+        console.error(`Failed to tap on Android device ${serial}:`, error);
+        throw adbError(error, 'Failed to tap', serial);
+      }
+    });
   }
 
-  async typeText(serial: string, text: string): Promise<void> {
+  async typeText(serial: string, text: string, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    try {
-      const adb = await this.getAdbDevice(serial);
-      const shellEscape = (s: string) => "'" + s.replace(/'/g, "'\\''") + "'";
-      const escapedText = text.replace(/ /g, '%s');
-      await this.runShellCommand(adb, `input text ${shellEscape(escapedText)}`);
-      console.log(`Input text "${text}" on Android device ${serial}`);
-    } catch (error) {
-      console.error(`Failed to input text on Android device ${serial}:`, error);
-      throw new Error(`Failed to input text: ${error}`);
-    }
+    return this.cancellable(serial, 'typeText', options, async signal => {
+      try {
+        const adb = await this.getAdbDevice(serial);
+        const shellEscape = (s: string) => "'" + s.replace(/'/g, "'\\''") + "'";
+        const escapedText = text.replace(/ /g, '%s');
+        await this.runShellCommand(adb, `input text ${shellEscape(escapedText)}`, signal);
+        console.log(`Input text "${text}" on Android device ${serial}`);
+      } catch (error) {
+        console.error(`Failed to input text on Android device ${serial}:`, error);
+        throw adbError(error, 'Failed to input text', serial);
+      }
+    });
   }
 
-  async pressKey(serial: string, key: string): Promise<void> {
+  async pressKey(serial: string, key: KeyInput, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    try {
+    const chord = toKeyChord(key);
+
+    let command: string;
+    if (isRawKey(chord)) {
+      command = `input keyevent ${chord.raw}`;
+    } else {
+      const code = androidKeyCode(chord.key);
+      if (!code) {
+        throw new UnsupportedError(`Key ${formatKey(key)} is not supported on android`, { serial, platform: 'android' });
+      }
+      command = chord.modifiers.length > 0
+        ? `input keycombination ${chord.modifiers.map(m => ANDROID_MODIFIER_KEYCODES[m]).join(' ')} ${code}`
+        : `input keyevent ${code}`;
+    }
+    const isChord = !isRawKey(chord) && chord.modifiers.length > 0;
+
+    return this.cancellable(serial, 'pressKey', options, async signal => {
       const adb = await this.getAdbDevice(serial);
-      const keyCodes: Record<string, string> = {
-        back: 'KEYCODE_BACK',
-        home: 'KEYCODE_HOME',
-        menu: 'KEYCODE_MENU',
-        enter: 'KEYCODE_ENTER',
-      };
+      // Older devices would fail with a shell usage error
+      if (isChord && !this.supportsKeyChords(await this.getSdkLevel(serial, adb, signal))) {
+        throw new UnsupportedError(
+          `Key chords need Android 13 (SDK ${KEY_COMBINATION_MIN_SDK}) or later: ${formatKey(key)}`,
+          { serial, platform: 'android' },
+        );
+      }
 
-      const code = keyCodes[key] || key;
-      await this.runShellCommand(adb, `input keyevent ${code}`);
-      console.log(`Pressed key ${key} on Android device ${serial}`);
-    } catch (error) {
-      console.error(`Failed to press key on Android device ${serial}:`, error);
-      throw new Error(`Failed to press key: ${error}`);
-    }
+      try {
+        await this.runShellCommand(adb, command, signal);
+        console.log(`Pressed key ${formatKey(key)} on Android device ${serial}`);
+      } catch (error) {
+        console.error(`Failed to press key on Android device ${serial}:`, error);
+        throw adbError(error, 'Failed to press key', serial);
+      }
+    });
   }
 
-  async screenshot(serial: string): Promise<Buffer> {
+  async screenshot(serial: string, options?: CallOptions): Promise<Buffer> {
     this.assertConnected(serial);
-    try {
-      const adb = await this.getAdbDevice(serial);
-      const output = await this.runShellCommandBinary(adb, 'screencap -p');
-      console.log(`Screenshot captured from Android device ${serial}`);
-      return Buffer.from(output);
-    } catch (error) {
-      console.error(`Failed to capture screenshot from Android device ${serial}:`, error);
-      throw new Error(`Failed to capture screenshot: ${error}`);
-    }
+    return this.cancellable(serial, 'screenshot', options, async signal => {
+      try {
+        const adb = await this.getAdbDevice(serial);
+        const output = await this.runShellCommandBinary(adb, 'screencap -p', signal);
+        console.log(`Screenshot captured from Android device ${serial}`);
+        return Buffer.from(output);
+      } catch (error) {
+        console.error(`Failed to capture screenshot from Android device ${serial}:`, error);
+        throw adbError(error, 'Failed to capture screenshot', serial);
+      }
+    });
   }
 
-  async startMirroring(serial: string): Promise<VideoStreamMetadata> {
+  async startMirroring(serial: string, options?: CallOptions): Promise<VideoStreamMetadata> {
     this.assertConnected(serial);
     // Use cached device info to avoid full listDevices call
     let device = this.deviceInfoCache.get(serial);
     if (!device) {
-      const devices = await this.listDevices();
+      const devices = await this.listDevices(options);
       device = devices.find(d => d.serial === serial);
     }
     if (!device) {
-      throw new Error(`Device ${serial} not found`);
+      throw new DeviceNotFoundError(`Device ${serial} not found`, { serial, platform: 'android' });
     }
 
     return {
@@ -209,18 +372,28 @@ export class AndroidDeviceService extends BaseDeviceService {
   }
 
   private async _createAdbConnection(serial: string): Promise<Adb> {
-    const deviceList = await this.client.getDevices();
+    let deviceList;
+    try {
+      deviceList = await this.client.getDevices();
+    } catch (error) {
+      throw new TransportError(`ADB server unavailable: ${error}`, { cause: error, serial, platform: 'android' });
+    }
+
     const device = deviceList.find(d => d.serial === serial);
     if (!device) {
-      throw new Error(`Device ${serial} not found`);
+      throw new DeviceNotFoundError(`Device ${serial} not found`, { serial, platform: 'android' });
     }
 
     // Use createTransport + new Adb()
     // See: https://tangoadb.dev/tango/server/transport/
-    const transport = await this.client.createTransport(device);
-    const adb = new Adb(transport);
-    this.devices.set(serial, adb);
-    return adb;
+    try {
+      const transport = await this.client.createTransport(device);
+      const adb = new Adb(transport);
+      this.devices.set(serial, adb);
+      return adb;
+    } catch (error) {
+      throw adbError(error, `Failed to open transport to ${serial}`, serial);
+    }
   }
 
   /**
@@ -228,63 +401,132 @@ export class AndroidDeviceService extends BaseDeviceService {
    * Uses spawnWaitText for simplicity
    * See: https://tangoadb.dev/api/adb/subprocess/none-protocol/
    */
-  private async runShellCommand(adb: Adb, command: string): Promise<string> {
-    const output = await adb.subprocess.noneProtocol.spawnWaitText(command);
-    return output;
+  private async runShellCommand(adb: Adb, command: string, signal?: AbortSignal): Promise<string> {
+    try {
+      if (!signal) {
+        return await adb.subprocess.noneProtocol.spawnWaitText(command);
+      }
+      return await this.spawnCancellable(adb, command, signal, output =>
+        output.pipeThrough(new TextDecoderStream()).pipeThrough(new ConcatStringStream()),
+      );
+    } catch (error) {
+      throw adbError(error, `Shell command failed (${command})`, adb.serial);
+    }
   }
 
   /**
    * Run a shell command and return binary output
    * Uses spawnWait for binary data
    */
-  private async runShellCommandBinary(adb: Adb, command: string): Promise<Uint8Array> {
-    const output = await adb.subprocess.noneProtocol.spawnWait(command);
-    return output;
+  private async runShellCommandBinary(adb: Adb, command: string, signal?: AbortSignal): Promise<Uint8Array> {
+    try {
+      if (!signal) {
+        return await adb.subprocess.noneProtocol.spawnWait(command);
+      }
+      return await this.spawnCancellable(adb, command, signal, output =>
+        output.pipeThrough(new ConcatBufferStream()),
+      );
+    } catch (error) {
+      throw adbError(error, `Shell command failed (${command})`, adb.serial);
+    }
+  }
+
+  /**
+   * Spawn a command and kill it (closing its adb socket) when `signal` aborts,
+   * so a hung `uiautomator dump` doesn't outlive its caller
+   */
+  private async spawnCancellable<T>(
+    adb: Adb,
+    command: string,
+    signal: AbortSignal,
+    collect: (output: ReadableStream<Uint8Array>) => Promise<T>,
+  ): Promise<T> {
+    signal.throwIfAborted();
+    const process = await raceSignal(adb.subprocess.noneProtocol.spawn(command), signal);
+    const kill = () => void Promise.resolve(process.kill()).catch(() => {});
+    signal.addEventListener('abort', kill, { once: true });
+    try {
+      return await raceSignal(collect(process.output), signal);
+    } finally {
+      signal.removeEventListener('abort', kill);
+    }
   }
 
-  private async getDeviceProperties(adb: Adb): Promise<{
+  /**
+   * assertConnected + run one shell command under the caller's CallOptions
+   */
+  private async shell(serial: string, operation: string, command: string, options?: CallOptions): Promise<string> {
+    this.assertConnected(serial);
+    return this.cancellable(serial, operation, options, async signal => {
+      const adb = await this.getAdbDevice(serial);
+      return this.runShellCommand(adb, command, signal);
+    });
+  }
+
+  private async getDeviceProperties(adb: Adb, signal?: AbortSignal): Promise<{
     model: string;
     androidVersion: string;
     resolution: string;
     battery: number;
   }> {
     const [model, androidVersion, resolution, battery] = await Promise.all([
-      this.getProperty(adb, 'ro.product.model'),
-      this.getProperty(adb, 'ro.build.version.release'),
-      this.getDisplaySize(adb),
-      this.getBatteryLevel(adb),
+      this.getProperty(adb, 'ro.product.model', signal),
+      this.getProperty(adb, 'ro.build.version.release', signal),
+      this.getDisplaySize(adb, signal),
+      this.getBatteryLevel(adb, signal),
     ]);
 
     return { model, androidVersion, resolution, battery };
   }
 
-  private async getProperty(adb: Adb, property: string): Promise<string> {
+  /**
+   * SDK level of a device, cached per serial; undefined when unreadable
+   */
+  private async getSdkLevel(serial: string, adb: Adb, signal?: AbortSignal): Promise<number | undefined> {
+    const cached = this.sdkLevels.get(serial);
+    if (cached !== undefined) return cached;
+
+    const level = parseInt(await this.getProperty(adb, 'ro.build.version.sdk', signal), 10);
+    if (Number.isNaN(level)) return undefined;
+    this.sdkLevels.set(serial, level);
+    return level;
+  }
+
+  /** Unknown SDK levels get the benefit of the doubt */
+  private supportsKeyChords(sdkLevel: number | undefined): boolean {
+    return sdkLevel === undefined || sdkLevel >= KEY_COMBINATION_MIN_SDK;
+  }
+
+  private async getProperty(adb: Adb, property: string, signal?: AbortSignal): Promise<string> {
     try {
-      const output = await this.runShellCommand(adb, `getprop ${property}`);
+      const output = await this.runShellCommand(adb, `getprop ${property}`, signal);
       return output.trim() || 'Unknown';
     } catch (error) {
+      if (signal?.aborted) throw signal.reason;
       console.error(`Failed to get property ${property}:`, error);
       return 'Unknown';
     }
   }
 
-  private async getDisplaySize(adb: Adb): Promise<string> {
+  private async getDisplaySize(adb: Adb, signal?: AbortSignal): Promise<string> {
     try {
-      const output = await this.runShellCommand(adb, 'wm size');
+      const output = await this.runShellCommand(adb, 'wm size', signal);
       const match = output.match(/Physical size: (\d+x\d+)/);
       return match ? match[1] : '1080x1920';
     } catch (error) {
+      if (signal?.aborted) throw signal.reason;
       console.error('Failed to get display size:', error);
       return '1080x1920';
     }
   }
 
-  private async getBatteryLevel(adb: Adb): Promise<number> {
+  private async getBatteryLevel(adb: Adb, signal?: AbortSignal): Promise<number> {
     try {
-      const output = await this.runShellCommand(adb, 'dumpsys battery');
+      const output = await this.runShellCommand(adb, 'dumpsys battery', signal);
       const match = output.match(/level: (\d+)/);
       return match ? parseInt(match[1], 10) : 100;
     } catch (error) {
+      if (signal?.aborted) throw signal.reason;
       console.error('Failed to get battery level:', error);
       return 100;
     }
@@ -310,67 +552,73 @@ export class AndroidDeviceService extends BaseDeviceService {
 
   // Explorer Methods
 
-  async captureUIHierarchy(serial: string): Promise<string> {
+  async captureUIHierarchy(serial: string, options?: CallOptions): Promise<string> {
     this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    try {
-      await this.runShellCommand(adb, 'uiautomator dump /sdcard/ui_dump.xml');
+    return this.cancellable(serial, 'captureUIHierarchy', options, async signal => {
+      const adb = await this.getAdbDevice(serial);
+      try {
+        await this.runShellCommand(adb, 'uiautomator dump /sdcard/ui_dump.xml', signal);
 
-      const xmlContent = await this.runShellCommand(adb, 'cat /sdcard/ui_dump.xml');
+        const xmlContent = await this.runShellCommand(adb, 'cat /sdcard/ui_dump.xml', signal);
 
-      if (!xmlContent || xmlContent.includes('ERROR')) {
-        throw new Error('Failed to capture UI hierarchy');
-      }
+        if (!xmlContent || xmlContent.includes('ERROR')) {
+          throw new TransportError('Failed to capture UI hierarchy', { serial, platform: 'android' });
+        }
 
-      console.log(`Captured UI hierarchy from Android device ${serial}`);
-      return xmlContent.trim();
-    } catch (error) {
-      console.error(`Failed to capture UI hierarchy from ${serial}:`, error);
-      throw new Error(`Failed to capture UI hierarchy: ${error}`);
-    } finally {
-      await this.runShellCommand(adb, 'rm /sdcard/ui_dump.xml').catch(() => {});
-    }
+        console.log(`Captured UI hierarchy from Android device ${serial}`);
+        return xmlContent.trim();
+      } catch (error) {
+        console.error(`Failed to capture UI hierarchy from ${serial}:`, error);
+        throw adbError(error, 'Failed to capture UI hierarchy', serial);
+      } finally {
+        await this.runShellCommand(adb, 'rm /sdcard/ui_dump.xml').catch(() => {});
+      }
+    });
   }
 
-  async getCurrentActivity(serial: string): Promise<string> {
+  async getCurrentActivity(serial: string, options?: CallOptions): Promise<string> {
     this.assertConnected(serial);
-    try {
-      const adb = await this.getAdbDevice(serial);
+    return this.cancellable(serial, 'getCurrentActivity', options, async signal => {
+      try {
+        const adb = await this.getAdbDevice(serial);
 
-      const output = await this.runShellCommand(adb, 'dumpsys window | grep mCurrentFocus');
+        const output = await this.runShellCommand(adb, 'dumpsys window | grep mCurrentFocus', signal);
 
-      const match = output.match(/mCurrentFocus=Window\{[^\s]+ [^\s]+ ([^\s}]+)\}/);
-      if (match && match[1]) {
-        return match[1];
-      }
+        const match = output.match(/mCurrentFocus=Window\{[^\s]+ [^\s]+ ([^\s}]+)\}/);
+        if (match && match[1]) {
+          return match[1];
+        }
 
-      const output2 = await this.runShellCommand(adb, 'dumpsys window | grep mFocusedApp');
-      const match2 = output2.match(/mFocusedApp=.*ActivityRecord\{[^}]+ ([^\s}]+)/);
-      if (match2 && match2[1]) {
-        return match2[1];
-      }
+        const output2 = await this.runShellCommand(adb, 'dumpsys window | grep mFocusedApp', signal);
+        const match2 = output2.match(/mFocusedApp=.*ActivityRecord\{[^}]+ ([^\s}]+)/);
+        if (match2 && match2[1]) {
+          return match2[1];
+        }
 
-      return 'unknown/unknown';
-    } catch (error) {
-      console.error(`Failed to get current activity from ${serial}:`, error);
-      return 'unknown/unknown';
-    }
+        return 'unknown/unknown';
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error(`Failed to get current activity from ${serial}:`, error);
+        return 'unknown/unknown';
+      }
+    });
   }
 
-  async getCurrentApp(serial: string): Promise<string> {
-    try {
-      const activity = await this.getCurrentActivity(serial);
-      const packageName = activity.split('/')[0];
-      return packageName || 'unknown';
-    } catch {
-      return 'unknown';
-    }
+  async getCurrentApp(serial: string, options?: CallOptions): Promise<string> {
+    return this.cancellable(serial, 'getCurrentApp', options, async signal => {
+      try {
+        const activity = await this.getCurrentActivity(serial, { signal });
+        const packageName = activity.split('/')[0];
+        return packageName || 'unknown';
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        return 'unknown';
+      }
+    });
   }
 
-  async forceStopApp(serial: string, packageId: string): Promise<void> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `am force-stop ${packageId}`);
+  async forceStopApp(serial: string, packageId: string, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'forceStopApp', `am force-stop ${packageId}`, options);
   }
 
   async swipe(
@@ -379,34 +627,44 @@ export class AndroidDeviceService extends BaseDeviceService {
     startY: number,
     endX: number,
     endY: number,
-    duration: number = 300
+    duration: number = 300,
+    options?: CallOptions
   ): Promise<void> {
     this.assertConnected(serial);
-    try {
-      const adb = await this.getAdbDevice(serial);
-      await this.runShellCommand(adb, `input swipe ${startX} ${startY} ${endX} ${endY} ${duration}`);
-      console.log(`Swiped from (${startX}, ${startY}) to (${endX}, ${endY}) on Android device ${serial}`);
-    } catch (error) {
-      console.error(`Failed to swipe on Android device ${serial}:`, error);
-      throw new Error(`Failed to swipe: ${error}`);
-    }
+    return this.cancellable(serial, 'swipe', options, async signal => {
+      try {
+        const adb = await this.getAdbDevice(serial);
+        await this.runShellCommand(adb, `input swipe ${startX} ${startY} ${endX} ${endY} ${duration}`, signal);
+        console.log(`Swiped from (${startX}, ${startY}) to (${endX}, ${endY}) on Android device ${serial}`);
+      } catch (error) {
+        console.error(`Failed to swipe on Android device ${serial}:`, error);
+        throw adbError(error, 'Failed to swipe', serial);
+      }
+    });
   }
 
   // ─── Phase 2: Accessibility Tree + Device State ───
 
-  async getAccessibilityTree(serial: string, _maxElements?: number): Promise<AccessibilityNode[]> {
-    const xml = await this.captureUIHierarchy(serial);
+  async getAccessibilityTree(serial: string, _maxElements?: number, options?: CallOptions): Promise<AccessibilityNode[]> {
+    const xml = await this.captureUIHierarchy(serial, options);
     return parseUiAutomatorXml(xml);
   }
 
-  async getDeviceState(serial: string): Promise<DeviceStateSnapshot> {
+  async getDeviceState(serial: string, options?: CallOptions): Promise<DeviceStateSnapshot> {
     this.assertConnected(serial);
+    return this.cancellable(serial, 'getDeviceState', options, signal => this.captureDeviceState(serial, signal));
+  }
+
+  private async captureDeviceState(serial: string, signal?: AbortSignal): Promise<DeviceStateSnapshot> {
     const start = Date.now();
 
     const [xml, currentApp, screenshotBuf] = await Promise.all([
-      this.captureUIHierarchy(serial),
-      this.getCurrentApp(serial),
-      this.screenshot(serial).catch(() => null),
+      this.captureUIHierarchy(serial, { signal }),
+      this.getCurrentApp(serial, { signal }),
+      this.screenshot(serial, { signal }).catch(error => {
+        if (signal?.aborted) throw error;
+        return null;
+      }),
     ]);
 
     const tree = parseUiAutomatorXml(xml);
@@ -428,7 +686,14 @@ export class AndroidDeviceService extends BaseDeviceService {
     };
   }
 
-  getCapabilities(): PlatformCapability[] {
+  /**
+   * `keyChords` is reported for a device on Android 13+, or without
+   * `serial` when every connected device is
+   */
+  getCapabilities(serial?: string): PlatformCapability[] {
+    const levels = serial !== undefined ? [this.sdkLevels.get(serial)] : Array.from(this.sdkLevels.values());
+    const keyChords = levels.every(level => this.supportsKeyChords(level));
+
     return [
       'accessibility',
       'appManagement',
@@ -439,41 +704,44 @@ export class AndroidDeviceService extends BaseDeviceService {
       'recording',
       'media',
       'logStream',
+      'multiTouch',
+      ...(keyChords ? ['keyChords' as const] : []),
+      ...keyCapabilities(DEVICE_KEYS),
     ];
   }
 
   // ─── Phase 3: App Management (wiring existing methods) ───
 
-  async launchApp(serial: string, appId: string): Promise<void> {
+  async launchApp(serial: string, appId: string, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `monkey -p ${appId} -c android.intent.category.LAUNCHER 1`);
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    return this.cancellable(serial, 'launchApp', options, async signal => {
+      const adb = await this.getAdbDevice(serial);
+      await this.runShellCommand(adb, `monkey -p ${appId} -c android.intent.category.LAUNCHER 1`, signal);
+      await abortableDelay(1000, signal);
+    });
   }
 
-  async terminateApp(serial: string, appId: string): Promise<void> {
-    await this.forceStopApp(serial, appId);
+  async terminateApp(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    await this.forceStopApp(serial, appId, options);
   }
 
-  async installApp(serial: string, path: string): Promise<void> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    const result = await this.runShellCommand(adb, `pm install -r "${path}"`);
+  async installApp(serial: string, path: string, options?: CallOptions): Promise<void> {
+    const result = await this.shell(serial, 'installApp', `pm install -r "${path}"`, options);
     if (result.includes('Failure')) {
-      throw new Error(`Failed to install app: ${result.trim()}`);
+      throw new TransportError(`Failed to install app: ${result.trim()}`, {
+        serial,
+        platform: 'android',
+        retryable: false,
+      });
     }
   }
 
-  async uninstallApp(serial: string, appId: string): Promise<void> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `pm uninstall ${appId}`);
+  async uninstallApp(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'uninstallApp', `pm uninstall ${appId}`, options);
   }
 
-  async listInstalledApps(serial: string): Promise<AppInfo[]> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    const output = await this.runShellCommand(adb, 'pm list packages -3');
+  async listInstalledApps(serial: string, options?: CallOptions): Promise<AppInfo[]> {
+    const output = await this.shell(serial, 'listInstalledApps', 'pm list packages -3', options);
     const packages = output
       .split('\n')
       .filter((line: string) => line.startsWith('package:'))
@@ -487,95 +755,294 @@ export class AndroidDeviceService extends BaseDeviceService {
     }));
   }
 
-  async clearAppData(serial: string, appId: string): Promise<void> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `pm clear ${appId}`);
+  async clearAppData(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'clearAppData', `pm clear ${appId}`, options);
   }
 
   // ─── Phase 4: Device Control ───
 
-  async openDeepLink(serial: string, url: string): Promise<void> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `am start -a android.intent.action.VIEW -d '${url}'`);
+  async openDeepLink(serial: string, url: string, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'openDeepLink', `am start -a android.intent.action.VIEW -d '${url}'`, options);
   }
 
-  async back(serial: string): Promise<void> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, 'input keyevent KEYCODE_BACK');
+  async back(serial: string, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'back', 'input keyevent KEYCODE_BACK', options);
   }
 
-  async longPress(serial: string, x: number, y: number, duration: number = 1000): Promise<void> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `input swipe ${x} ${y} ${x} ${y} ${duration}`);
+  async longPress(serial: string, x: number, y: number, duration: number = 1000, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'longPress', `input swipe ${x} ${y} ${x} ${y} ${duration}`, options);
   }
 
-  async setAppearance(serial: string, mode: AppearanceMode): Promise<void> {
+  /**
+   * Multi-touch goes through the scrcpy control channel, so it needs a running
+   * stream; without one, single-pointer gestures fall back to `input motionevent`.
+   */
+  async performGestures(serial: string, pointers: PointerSequence[], options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `cmd uimode night ${mode === 'dark' ? 'yes' : 'no'}`);
+    return this.cancellable(serial, 'performGestures', options, async signal => {
+      if (scrcpyService.hasControl(serial)) {
+        await scrcpyService.injectGesture(serial, compileGestureTimeline(pointers), signal);
+        return;
+      }
+
+      if (pointers.length > 1) {
+        throw new UnsupportedError(
+          'Multi-touch on Android needs an active scrcpy stream (control channel)',
+          { serial, platform: 'android' },
+        );
+      }
+
+      const timeline = compileGestureTimeline(pointers, { stepMs: MOTION_EVENT_STEP_MS });
+      try {
+        const adb = await this.getAdbDevice(serial);
+        await this.runShellCommand(adb, motionEventScript(timeline), signal);
+      } catch (error) {
+        throw adbError(error, 'Failed to perform gesture', serial);
+      }
+    });
   }
 
-  async getAppearance(serial: string): Promise<AppearanceMode> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    const output = await this.runShellCommand(adb, 'cmd uimode night');
+  async setAppearance(serial: string, mode: AppearanceMode, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'setAppearance', `cmd uimode night ${mode === 'dark' ? 'yes' : 'no'}`, options);
+  }
+
+  async getAppearance(serial: string, options?: CallOptions): Promise<AppearanceMode> {
+    const output = await this.shell(serial, 'getAppearance', 'cmd uimode night', options);
     return output.includes('yes') ? 'dark' : 'light';
   }
 
-  async grantPermission(serial: string, appId: string, permission: string): Promise<void> {
+  async grantPermission(serial: string, appId: string, permission: string, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'grantPermission', `pm grant ${appId} ${permission}`, options);
+  }
+
+  async revokePermission(serial: string, appId: string, permission: string, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'revokePermission', `pm revoke ${appId} ${permission}`, options);
+  }
+
+  // ─── Logs ───
+
+  /**
+   * Stream logcat (threadtime) as parsed LogEntry values, starting from now.
+   * Tags and minLevel are applied on the device; `packages` is resolved to
+   * pids with `pidof`, refreshed every PACKAGE_PID_REFRESH_MS so restarts
+   * are followed.
+   */
+  async startLogStream(serial: string, filter?: string | LogFilter, options?: CallOptions): Promise<LogStream> {
     this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `pm grant ${appId} ${permission}`);
+    await this.stopLogStream(serial);
+
+    return this.cancellable(serial, 'startLogStream', options, async signal => {
+      try {
+        const adb = await this.getAdbDevice(serial);
+        const deviceNow = (await this.runShellCommand(adb, 'date +%s', signal)).trim();
+        const command = logcatCommand(filter, /^\d+$/.test(deviceNow) ? `${deviceNow}.000` : undefined);
+        const spawning = adb.subprocess.noneProtocol.spawn(command);
+        let process: Awaited<typeof spawning>;
+        try {
+          process = await raceSignal(spawning, signal);
+        } catch (error) {
+          // Gave up waiting: a logcat that still starts has no owner, kill it
+          if (signal?.aborted) void spawning.then(spawned => spawned.kill()).catch(() => {});
+          throw error;
+        }
+
+        const logFilter = typeof filter === 'object' ? filter : {};
+        const packagePids = new Set<number>();
+        let pidTimer: ReturnType<typeof setInterval> | undefined;
+
+        const stream = new LogStream(serial, {
+          onStop: async () => {
+            clearInterval(pidTimer);
+            await process.kill();
+          },
+        });
+
+        try {
+          if (logFilter.packages?.length) {
+            const command = `pidof ${logFilter.packages.map(p => `'${p.replace(/'/g, "'\\''")}'`).join(' ')}`;
+            const refresh = async (refreshSignal?: AbortSignal) => {
+              // pidof exits non-zero when nothing is running; that's an empty set
+              const output = await this.runShellCommand(adb, command, refreshSignal).catch(() => '');
+              packagePids.clear();
+              for (const pid of output.split(/\s+/).filter(Boolean)) {
+                packagePids.add(parseInt(pid, 10));
+              }
+            };
+            await refresh(signal);
+            signal?.throwIfAborted();
+            pidTimer = setInterval(() => void refresh(), PACKAGE_PID_REFRESH_MS);
+            pidTimer.unref?.();
+          }
+          signal?.throwIfAborted();
+        } catch (error) {
+          // The caller has been released with the abort and never sees the
+          // stream, so nothing else would stop this logcat
+          clearInterval(pidTimer);
+          try {
+            await process.kill();
+          } catch {
+            // Already gone
+          }
+          throw error;
+        }
+
+        this.logStreams.set(serial, stream);
+        stream.once('end', () => {
+          clearInterval(pidTimer);
+          if (this.logStreams.get(serial) === stream) this.logStreams.delete(serial);
+        });
+
+        this.pumpLogcat(serial, process.output, stream, logFilter, packagePids);
+        console.log(`Log stream started on Android device ${serial}`);
+        return stream;
+      } catch (error) {
+        throw adbError(error, 'Failed to start log stream', serial);
+      }
+    });
   }
 
-  async revokePermission(serial: string, appId: string, permission: string): Promise<void> {
+  async stopLogStream(serial: string): Promise<void> {
+    const stream = this.logStreams.get(serial);
+    if (!stream) return;
+    this.logStreams.delete(serial);
+    await stream.stop();
+  }
+
+  private pumpLogcat(
+    serial: string,
+    output: ReadableStream<Uint8Array>,
+    stream: LogStream,
+    filter: LogFilter,
+    packagePids: ReadonlySet<number>,
+  ): void {
+    const lines = output
+      .pipeThrough(new TextDecoderStream())
+      .pipeThrough(new SplitStringStream('\n'));
+
+    void (async () => {
+      const reader = lines.getReader();
+      try {
+        while (!stream.closed && !stream.stopRequested) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          const entry = parseLogcatLine(value);
+          if (entry && matchesLogFilter(entry, filter, packagePids)) {
+            stream.push(entry);
+          }
+        }
+        stream.end();
+      } catch (error) {
+        // Killing logcat on stop() closes the socket; that's not a failure,
+        // even while the kill is still in flight
+        stream.end(stream.stopRequested || stream.closed ? undefined : adbError(error, 'Log stream failed', serial));
+      }
+    })();
+  }
+
+  // ─── Recording ───
+
+  /**
+   * Record the screen from the scrcpy H.264 stream, muxed to MP4 in memory.
+   * Reuses a live stream when one is running (viewers are unaffected) and
+   * otherwise starts a headless one; no screenrecord time limit applies.
+   */
+  async startRecording(serial: string, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `pm revoke ${appId} ${permission}`);
+    if (this.recordings.has(serial)) {
+      throw new InvalidArgumentError(`Already recording ${serial}`, { serial, platform: 'android' });
+    }
+
+    return this.cancellable(serial, 'startRecording', options, async signal => {
+      const muxer = new H264Mp4Muxer();
+      const recording: ActiveRecording = {
+        muxer,
+        unsubscribe: scrcpyService.subscribePackets(serial, packet => muxer.addPacket(packet)),
+      };
+      this.recordings.set(serial, recording);
+
+      try {
+        if (!scrcpyService.isStreaming(serial) && !scrcpyService.isCallbackStreaming(serial)) {
+          const adb = await this.getAdbDevice(serial);
+          signal?.throwIfAborted();
+          const starting = scrcpyService.startPacketStream(adb, serial, () => {}, () => {});
+          try {
+            recording.stopStream = await raceSignal(starting, signal);
+          } catch (error) {
+            // Gave up waiting: a stream that still comes up has no owner, stop it
+            if (signal?.aborted) void starting.then(stop => stop()).catch(() => {});
+            throw error;
+          }
+        }
+        console.log(`Recording started on Android device ${serial}`);
+      } catch (error) {
+        await this.discardRecording(serial);
+        throw adbError(error, 'Failed to start recording', serial);
+      }
+    });
+  }
+
+  /**
+   * Stop recording and return the MP4. Stops the scrcpy stream only if
+   * startRecording started it.
+   */
+  async stopRecording(serial: string, options?: CallOptions): Promise<Buffer> {
+    const recording = this.recordings.get(serial);
+    if (!recording) {
+      throw new InvalidArgumentError(`Not recording ${serial}`, { serial, platform: 'android' });
+    }
+
+    return this.cancellable(serial, 'stopRecording', options, async () => {
+      await this.discardRecording(serial);
+      const video = recording.muxer.finalize();
+      console.log(`Recording stopped on Android device ${serial}: ${recording.muxer.durationMs}ms, ${video.length} bytes`);
+      return video;
+    });
+  }
+
+  private async discardRecording(serial: string): Promise<void> {
+    const recording = this.recordings.get(serial);
+    if (!recording) return;
+
+    this.recordings.delete(serial);
+    recording.unsubscribe();
+    await recording.stopStream?.();
   }
 
   // ─── Phase 5: I/O ───
 
-  async getClipboard(serial: string): Promise<string> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    const output = await this.runShellCommand(adb, 'cmd clipboard get-text');
+  async getClipboard(serial: string, options?: CallOptions): Promise<string> {
+    const output = await this.shell(serial, 'getClipboard', 'cmd clipboard get-text', options);
     return output.trim();
   }
 
-  async setClipboard(serial: string, text: string): Promise<void> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
+  async setClipboard(serial: string, text: string, options?: CallOptions): Promise<void> {
     const escaped = text.replace(/'/g, "'\\''");
-    await this.runShellCommand(adb, `cmd clipboard set-text '${escaped}'`);
+    await this.shell(serial, 'setClipboard', `cmd clipboard set-text '${escaped}'`, options);
   }
 
-  async addMedia(serial: string, path: string): Promise<void> {
-    this.assertConnected(serial);
-    const adb = await this.getAdbDevice(serial);
-    await this.runShellCommand(adb, `am broadcast -a android.intent.action.MEDIA_SCANNER_SCAN_FILE -d file://${path}`);
+  async addMedia(serial: string, path: string, options?: CallOptions): Promise<void> {
+    await this.shell(serial, 'addMedia', `am broadcast -a android.intent.action.MEDIA_SCANNER_SCAN_FILE -d file://${path}`, options);
   }
 
-  async listPackages(serial: string): Promise<string[]> {
+  async listPackages(serial: string, options?: CallOptions): Promise<string[]> {
     this.assertConnected(serial);
-    try {
-      const adb = await this.getAdbDevice(serial);
-      const output = await this.runShellCommand(adb, 'pm list packages -3');
-
-      const packages = output
-        .split('\n')
-        .filter((line: string) => line.startsWith('package:'))
-        .map((line: string) => line.replace('package:', '').trim());
-
-      return packages;
-    } catch (error) {
-      console.error(`Failed to list packages on ${serial}:`, error);
-      return [];
-    }
+    return this.cancellable(serial, 'listPackages', options, async signal => {
+      try {
+        const adb = await this.getAdbDevice(serial);
+        const output = await this.runShellCommand(adb, 'pm list packages -3', signal);
+
+        const packages = output
+          .split('\n')
+          .filter((line: string) => line.startsWith('package:'))
+          .map((line: string) => line.replace('package:', '').trim());
+
+        return packages;
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error(`Failed to list packages on ${serial}:`, error);
+        return [];
+      }
+    });
   }
 }
 
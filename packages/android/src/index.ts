@@ -12,6 +12,8 @@ export {
 export {
   ScrcpyService,
   scrcpyService,
+  FrameCallback,
+  PacketCallback,
 } from './scrcpy-service';
 
 export {
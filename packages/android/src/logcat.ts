@@ -0,0 +1,94 @@
+/**
+ * Parser for `adb logcat -v threadtime` output → LogEntry
+ *
+ * threadtime lines look like:
+ *   01-15 13:45:02.123  1234  1256 I ActivityManager: Start proc com.example
+ * With `-v epoch` the date/time is replaced by seconds since the epoch:
+ *   1705326302.123  1234  1256 I ActivityManager: Start proc com.example
+ */
+
+import { LogEntry, LogFilter, LogLevel } from '@device-stream/core';
+
+const LEVELS: Record<string, LogLevel> = {
+  V: 'verbose',
+  D: 'debug',
+  I: 'info',
+  W: 'warn',
+  E: 'error',
+  F: 'fatal',
+  A: 'fatal',
+};
+
+const LOGCAT_PRIORITIES: Record<LogLevel, string> = {
+  verbose: 'V',
+  debug: 'D',
+  info: 'I',
+  warn: 'W',
+  error: 'E',
+  fatal: 'F',
+};
+
+const THREADTIME_LINE =
+  /^(?:(\d+\.\d+)|(?:(\d{4})-)?(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})\.(\d{3}))\s+(\d+)\s+(\d+)\s+([VDIWEFA])\s+(.*?)\s*: ?(.*)$/;
+
+/**
+ * Parse one threadtime (or threadtime + epoch) line.
+ * Returns undefined for separators ("--------- beginning of main") and
+ * anything else that isn't a log line. Without a year in the line, the most
+ * recent matching date is assumed, in the host's time zone.
+ */
+export function parseLogcatLine(line: string, now: number = Date.now()): LogEntry | undefined {
+  const match = THREADTIME_LINE.exec(line.trimEnd());
+  if (!match) return undefined;
+
+  const [, epoch, year, month, day, hours, minutes, seconds, millis, pid, tid, level, tag, message] = match;
+
+  let timestamp: number;
+  if (epoch) {
+    timestamp = Math.round(parseFloat(epoch) * 1000);
+  } else {
+    const at = (y: number) => new Date(y, +month - 1, +day, +hours, +minutes, +seconds, +millis).getTime();
+    const currentYear = new Date(now).getFullYear();
+    timestamp = year ? at(+year) : at(currentYear);
+    // A December line read in early January belongs to last year
+    if (!year && timestamp > now + 24 * 60 * 60 * 1000) {
+      timestamp = at(currentYear - 1);
+    }
+  }
+
+  return {
+    timestamp,
+    level: LEVELS[level],
+    tag,
+    message,
+    pid: parseInt(pid, 10),
+    tid: parseInt(tid, 10),
+  };
+}
+
+/**
+ * Build the logcat command for a stream. Tag and level filters become
+ * filterspecs so logcat drops unwanted lines on the device; a string filter
+ * is passed through as filterspecs. `since` is device epoch seconds.
+ */
+export function logcatCommand(filter: string | LogFilter | undefined, since?: string): string {
+  const args = ['logcat', '-v', 'threadtime', '-v', 'epoch'];
+  if (since) {
+    args.push('-T', since);
+  }
+
+  if (typeof filter === 'string') {
+    args.push(...filter.split(/\s+/).filter(Boolean).map(shellQuote));
+  } else if (filter?.tags?.length) {
+    const priority = LOGCAT_PRIORITIES[filter.minLevel ?? 'verbose'];
+    args.push(...filter.tags.map(tag => shellQuote(`${tag}:${priority}`)), "'*:S'");
+  } else if (filter?.minLevel) {
+    args.push(`'*:${LOGCAT_PRIORITIES[filter.minLevel]}'`);
+  }
+
+  return args.join(' ');
+}
+
+function shellQuote(value: string): string {
+  return "'" + value.replace(/'/g, "'\\''") + "'";
+}
@@ -6,25 +6,49 @@
 import type { Adb } from '@yume-chan/adb';
 import { AdbScrcpyClient, AdbScrcpyOptionsLatest } from '@yume-chan/adb-scrcpy';
 import { VERSION } from '@yume-chan/fetch-scrcpy-server';
+import { AndroidMotionEventAction } from '@yume-chan/scrcpy';
 import type { ScrcpyMediaStreamPacket } from '@yume-chan/scrcpy';
 import type { ReadableStream } from '@yume-chan/stream-extra';
 import type { WebSocket } from 'ws';
+import {
+  CODEC,
+  GestureTouchEvent,
+  StreamPacket,
+  NotConnectedError,
+  TransportError,
+  abortableDelay,
+  encodeStreamPacket,
+  negotiateStreamFormat,
+} from '@device-stream/core';
 import { scrcpySetup } from './scrcpy-setup';
 
+/**
+ * Current video size; touch coordinates are sent relative to it
+ */
+interface VideoSize {
+  readonly width: number;
+  readonly height: number;
+}
+
 interface ScrcpySession {
   client: AdbScrcpyClient<AdbScrcpyOptionsLatest<true>>;
   videoStream: ReadableStream<ScrcpyMediaStreamPacket>;
+  video: VideoSize;
   serial: string;
   ws: WebSocket;
   reader?: ReadableStreamDefaultReader<ScrcpyMediaStreamPacket>;
+  /** Last SPS/PPS, replayed to packet subscribers that join mid-stream */
+  configuration?: StreamPacket;
   stopping?: boolean;
 }
 
 interface ScrcpyCallbackSession {
   client: AdbScrcpyClient<AdbScrcpyOptionsLatest<true>>;
   videoStream: ReadableStream<ScrcpyMediaStreamPacket>;
+  video: VideoSize;
   serial: string;
   reader?: ReadableStreamDefaultReader<ScrcpyMediaStreamPacket>;
+  configuration?: StreamPacket;
   stopping?: boolean;
 }
 
@@ -35,9 +59,33 @@ export type FrameCallback = (packet: {
   pts?: string;
 }) => void;
 
+/**
+ * Receives raw video packets without base64 encoding
+ */
+export type PacketCallback = (packet: StreamPacket) => void;
+
+function toStreamPacket(value: ScrcpyMediaStreamPacket): StreamPacket {
+  if (value.type === 'data') {
+    return {
+      type: 'data',
+      codec: CODEC.H264,
+      data: value.data,
+      keyframe: value.keyframe,
+      pts: value.pts,
+    };
+  }
+  return {
+    type: 'configuration',
+    codec: CODEC.H264,
+    data: value.data,
+  };
+}
+
 export class ScrcpyService {
   private sessions: Map<string, ScrcpySession> = new Map();
   private callbackSessions: Map<string, ScrcpyCallbackSession> = new Map();
+  private packetListeners: Map<string, Set<PacketCallback>> = new Map();
+  private publishingSessions: Map<string, ScrcpySession | ScrcpyCallbackSession> = new Map();
 
   async startStream(adb: Adb, serial: string, ws: WebSocket): Promise<void> {
     // Stop any existing session for this device
@@ -75,7 +123,7 @@ export class ScrcpyService {
       const videoStreamPromise = await client.videoStream;
 
       if (!videoStreamPromise) {
-        throw new Error('Video stream not available');
+        throw new TransportError('Video stream not available', { serial, platform: 'android' });
       }
 
       const videoStream = videoStreamPromise.stream;
@@ -91,6 +139,7 @@ export class ScrcpyService {
       const session: ScrcpySession = {
         client,
         videoStream,
+        video: videoStreamPromise,
         serial,
         ws,
       };
@@ -118,6 +167,7 @@ export class ScrcpyService {
 
   private async pipeVideoStream(session: ScrcpySession): Promise<void> {
     const { videoStream, ws, serial } = session;
+    const format = negotiateStreamFormat(ws.protocol);
 
     try {
       const reader = videoStream.getReader() as unknown as ReadableStreamDefaultReader<ScrcpyMediaStreamPacket>;
@@ -131,18 +181,12 @@ export class ScrcpyService {
           break;
         }
 
+        const packet = toStreamPacket(value);
+        this.publish(session, packet);
+
         // Forward video packet to WebSocket client
         if (ws.readyState === 1) { // WebSocket.OPEN
-          const packet = {
-            type: value.type,
-            data: Buffer.from(value.data).toString('base64'),
-            ...(value.type === 'data' && {
-              keyframe: value.keyframe,
-              pts: value.pts?.toString(),
-            }),
-          };
-
-          ws.send(JSON.stringify(packet));
+          ws.send(encodeStreamPacket(packet, format));
         } else {
           console.log(`WebSocket closed for ${serial}, stopping stream`);
           break;
@@ -190,6 +234,30 @@ export class ScrcpyService {
     onMetadata: (metadata: { codec: number; width: number; height: number }) => void,
     onFrame: FrameCallback,
   ): Promise<void> {
+    await this.startPacketStream(adb, serial, onMetadata, (packet) => {
+      onFrame({
+        type: packet.type,
+        data: Buffer.from(packet.data).toString('base64'),
+        ...(packet.type === 'data' && {
+          keyframe: packet.keyframe,
+          pts: packet.pts?.toString(),
+        }),
+      });
+    });
+  }
+
+  /**
+   * Same as startStreamWithCallback, but delivers raw packets so consumers
+   * can encode them once per wire format instead of paying for base64.
+   * Resolves with a function that stops this session only (a no-op once
+   * another callback stream has replaced it).
+   */
+  async startPacketStream(
+    adb: Adb,
+    serial: string,
+    onMetadata: (metadata: { codec: number; width: number; height: number }) => void,
+    onPacket: PacketCallback,
+  ): Promise<() => Promise<void>> {
     // Stop any existing callback session for this device
     await this.stopCallbackStream(serial);
 
@@ -218,7 +286,7 @@ export class ScrcpyService {
 
       const videoStreamPromise = await client.videoStream;
       if (!videoStreamPromise) {
-        throw new Error('Video stream not available');
+        throw new TransportError('Video stream not available', { serial, platform: 'android' });
       }
 
       const videoStream = videoStreamPromise.stream;
@@ -227,6 +295,7 @@ export class ScrcpyService {
       const session: ScrcpyCallbackSession = {
         client,
         videoStream,
+        video: videoStreamPromise,
         serial,
       };
 
@@ -238,10 +307,12 @@ export class ScrcpyService {
         height: videoStreamPromise.height,
       });
 
-      this.pipeCallbackStream(session, onFrame).catch(err =>
+      this.pipeCallbackStream(session, onPacket).catch(err =>
         console.error('pipeCallbackStream error for', serial, ':', err)
       );
 
+      return () => this.stopCallbackStream(serial, session);
+
     } catch (error) {
       console.error('Failed to start scrcpy callback stream for', serial, ':', error);
       throw error;
@@ -250,7 +321,7 @@ export class ScrcpyService {
 
   private async pipeCallbackStream(
     session: ScrcpyCallbackSession,
-    onFrame: FrameCallback,
+    onPacket: PacketCallback,
   ): Promise<void> {
     const { videoStream, serial } = session;
 
@@ -274,27 +345,23 @@ export class ScrcpyService {
           console.log('[pipeCallbackStream]', serial, 'frame', frameCount, 'type:', value.type, 'size:', value.data?.length);
         }
 
-        const packet = {
-          type: value.type,
-          data: Buffer.from(value.data).toString('base64'),
-          ...(value.type === 'data' && {
-            keyframe: value.keyframe,
-            pts: value.pts?.toString(),
-          }),
-        };
-
-        onFrame(packet);
+        const packet = toStreamPacket(value);
+        this.publish(session, packet);
+        onPacket(packet);
       }
     } catch (error) {
       console.error('Error reading callback video stream for', serial, ':', error);
     } finally {
-      await this.stopCallbackStream(serial);
+      await this.stopCallbackStream(serial, session);
     }
   }
 
-  async stopCallbackStream(serial: string): Promise<void> {
+  /**
+   * Stop the callback stream; with `expected`, only if it is still that session
+   */
+  async stopCallbackStream(serial: string, expected?: ScrcpyCallbackSession): Promise<void> {
     const session = this.callbackSessions.get(serial);
-    if (!session || session.stopping) return;
+    if (!session || session.stopping || (expected && session !== expected)) return;
 
     session.stopping = true;
     this.callbackSessions.delete(serial);
@@ -315,6 +382,124 @@ export class ScrcpyService {
     return this.callbackSessions.has(serial);
   }
 
+  /**
+   * Whether a running session (either kind) has a control channel for this device
+   */
+  hasControl(serial: string): boolean {
+    return this.getControlSession(serial) !== undefined;
+  }
+
+  /**
+   * Replay a gesture timeline as multi-touch events over the control channel.
+   * Pointers still down when the gesture is aborted are lifted.
+   */
+  async injectGesture(serial: string, timeline: GestureTouchEvent[], signal?: AbortSignal): Promise<void> {
+    const session = this.getControlSession(serial);
+    const controller = session?.client.controller;
+    if (!session || !controller) {
+      throw new NotConnectedError(`No scrcpy control channel for ${serial}`, { serial, platform: 'android' });
+    }
+
+    const inject = (event: GestureTouchEvent) => controller.injectTouch({
+      action: event.action === 'down'
+        ? AndroidMotionEventAction.Down
+        : event.action === 'up' ? AndroidMotionEventAction.Up : AndroidMotionEventAction.Move,
+      pointerId: BigInt(event.pointer),
+      pointerX: event.x,
+      pointerY: event.y,
+      videoWidth: session.video.width,
+      videoHeight: session.video.height,
+      pressure: event.action === 'up' ? 0 : 1,
+      actionButton: 0,
+      buttons: 0,
+    });
+
+    const pressed = new Map<number, GestureTouchEvent>();
+    const start = Date.now();
+    try {
+      for (const event of timeline) {
+        const wait = start + event.at - Date.now();
+        if (wait > 0) await abortableDelay(wait, signal);
+        signal?.throwIfAborted();
+
+        await inject(event);
+        if (event.action === 'up') {
+          pressed.delete(event.pointer);
+        } else {
+          pressed.set(event.pointer, event);
+        }
+      }
+    } finally {
+      for (const event of pressed.values()) {
+        await inject({ ...event, action: 'up' }).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Receive every video packet for a device, from whichever session is
+   * streaming it (WebSocket or callback), across session restarts.
+   * The current SPS/PPS is replayed immediately when a session is live.
+   * Returns an unsubscribe function.
+   */
+  subscribePackets(serial: string, listener: PacketCallback): () => void {
+    let listeners = this.packetListeners.get(serial);
+    if (!listeners) {
+      listeners = new Set();
+      this.packetListeners.set(serial, listeners);
+    }
+    listeners.add(listener);
+
+    const session = this.sessions.get(serial) ?? this.callbackSessions.get(serial);
+    if (session?.configuration) {
+      this.publishingSessions.set(serial, session);
+      listener(session.configuration);
+    }
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0 && this.packetListeners.get(serial) === listeners) {
+        this.packetListeners.delete(serial);
+        this.publishingSessions.delete(serial);
+      }
+    };
+  }
+
+  private publish(session: ScrcpySession | ScrcpyCallbackSession, packet: StreamPacket): void {
+    if (packet.type === 'configuration') {
+      session.configuration = packet;
+    }
+    // Only the session that owns the device's slot feeds subscribers, so a
+    // WebSocket and a callback stream running together don't interleave
+    const { serial } = session;
+    if ((this.sessions.get(serial) ?? this.callbackSessions.get(serial)) !== session) return;
+
+    const listeners = this.packetListeners.get(serial);
+    if (!listeners) return;
+
+    // Switching sessions mid-stream: lead with the new session's SPS/PPS
+    const switched = this.publishingSessions.get(serial) !== session;
+    this.publishingSessions.set(serial, session);
+    const packets = switched && packet.type !== 'configuration' && session.configuration
+      ? [session.configuration, packet]
+      : [packet];
+
+    for (const listener of listeners) {
+      for (const item of packets) {
+        try {
+          listener(item);
+        } catch (error) {
+          console.error('Packet listener error for', serial, ':', error);
+        }
+      }
+    }
+  }
+
+  private getControlSession(serial: string): ScrcpySession | ScrcpyCallbackSession | undefined {
+    const session = this.sessions.get(serial) ?? this.callbackSessions.get(serial);
+    return session?.client.controller ? session : undefined;
+  }
+
   /**
    * Stop all active streams
    */
@@ -0,0 +1,135 @@
+/**
+ * Cancellation helpers behind CallOptions ({ signal, timeoutMs }).
+ * Turns a caller's signal and/or timeout into one AbortSignal whose `reason`
+ * is already a typed DeviceError (CancelledError / DeviceTimeoutError).
+ */
+
+import { CallOptions } from './types';
+import {
+  CancelledError,
+  DeviceError,
+  DeviceErrorOptions,
+  DeviceTimeoutError,
+} from './errors';
+
+export interface CallScope {
+  /** Undefined when the caller passed neither a signal nor a timeout */
+  signal?: AbortSignal;
+  /** Clear the timeout timer and detach from the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Combine `options.signal` and `options.timeoutMs` into a single signal.
+ * A parent signal aborted with a DeviceError reason (e.g. an outer timeout)
+ * propagates that error unchanged.
+ */
+export function createCallScope(
+  options: CallOptions | undefined,
+  operation: string,
+  errorOptions: Omit<DeviceErrorOptions, 'cause'> = {},
+): CallScope {
+  const parent = options?.signal;
+  const timeoutMs = options?.timeoutMs;
+  if (!parent && timeoutMs === undefined) {
+    return { signal: undefined, dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onParentAbort = () => {
+    const reason = parent!.reason;
+    controller.abort(reason instanceof DeviceError
+      ? reason
+      : new CancelledError(`${operation} was cancelled`, { ...errorOptions, cause: reason }));
+  };
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (timeoutMs !== undefined && !controller.signal.aborted) {
+    timer = setTimeout(() => {
+      controller.abort(new DeviceTimeoutError(`${operation} timed out after ${timeoutMs}ms`, errorOptions));
+    }, timeoutMs);
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+/**
+ * Reject as soon as `signal` aborts, even if `promise` never settles
+ */
+export function raceSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(signal.aborted ? signal.reason : error);
+      },
+    );
+  });
+}
+
+/**
+ * Run `fn` under CallOptions. `fn` receives the combined signal to forward to
+ * cancellable I/O; the caller is released on abort either way.
+ */
+export async function withCallOptions<T>(
+  options: CallOptions | undefined,
+  operation: string,
+  errorOptions: Omit<DeviceErrorOptions, 'cause'>,
+  fn: (signal: AbortSignal | undefined) => Promise<T>,
+): Promise<T> {
+  const scope = createCallScope(options, operation, errorOptions);
+  if (!scope.signal) return fn(undefined);
+
+  try {
+    scope.signal.throwIfAborted();
+    return await raceSignal(fn(scope.signal), scope.signal);
+  } finally {
+    scope.dispose();
+  }
+}
+
+/**
+ * setTimeout as a promise that rejects with the signal's reason on abort.
+ * The abort listener goes away with the timer, so many delays on one
+ * long-lived signal don't pile up listeners.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) return new Promise(resolve => setTimeout(resolve, ms));
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
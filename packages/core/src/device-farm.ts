@@ -0,0 +1,397 @@
+/**
+ * DeviceFarm: pools simulators/emulators from pluggable providers.
+ * Enforces per-platform limits, hands devices out FIFO via acquire(),
+ * and reaps devices that sit idle longer than `idleTimeout`.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  DevicePlatform,
+  FarmDevice,
+  CreateDeviceOptions,
+  DeviceFarmConfig,
+  DeviceFarmStats,
+  QueuedTask,
+  DeviceFarmEvent,
+} from './types';
+import { DeviceTimeoutError, DeviceNotFoundError, UnsupportedError, toDeviceError } from './errors';
+
+/**
+ * Creates and tears down devices for one platform.
+ * IOSSimulatorManager satisfies this interface as-is.
+ */
+export interface DeviceProvider {
+  readonly platform: DevicePlatform;
+  /** Create (or reuse) a device. May resolve before it has booted. */
+  createDevice(options: CreateDeviceOptions): Promise<FarmDevice>;
+  /** Boot a created device. Required if createDevice resolves with a non-ready device. */
+  startDevice?(deviceId: string): Promise<FarmDevice | void>;
+  /** Shut the device down */
+  stopDevice(deviceId: string): Promise<void>;
+  /** Remove the device entirely after it is stopped */
+  deleteDevice?(deviceId: string): Promise<void>;
+}
+
+export interface AcquireOptions {
+  /** Identifies the task in events and on `FarmDevice.taskId` (default: generated) */
+  taskId?: string;
+  /** Reject with DeviceTimeoutError if no device is handed out in time */
+  timeoutMs?: number;
+}
+
+export interface DeviceFarmOptions extends Partial<DeviceFarmConfig> {
+  providers?: DeviceProvider[];
+  /** Delete idle-reaped devices instead of only stopping them (default false) */
+  deleteOnReap?: boolean;
+}
+
+const DEFAULT_CONFIG: DeviceFarmConfig = {
+  maxAndroidDevices: 2,
+  maxIOSDevices: 2,
+  androidDefaults: {
+    deviceType: 'pixel_6',
+    systemImage: 'system-images;android-34;google_apis;x86_64',
+  },
+  iosDefaults: {
+    deviceType: 'com.apple.CoreSimulator.SimDeviceType.iPhone-15-Pro',
+    runtime: '', // latest available
+  },
+  bootTimeout: 120000,
+  idleTimeout: 300000,
+};
+
+/**
+ * Every event is emitted twice: under its own `type` (e.g. 'device:ready')
+ * and under 'event', so a single listener can consume the typed stream.
+ */
+export class DeviceFarm extends EventEmitter {
+  readonly config: DeviceFarmConfig;
+  private providers: Map<DevicePlatform, DeviceProvider> = new Map();
+  private devices: Map<string, FarmDevice> = new Map();
+  private queue: QueuedTask[] = [];
+  private queueTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private idleTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private creating: Record<DevicePlatform, number> = { android: 0, ios: 0 };
+  private deleteOnReap: boolean;
+  private taskCounter = 0;
+  private closed = false;
+
+  constructor(options: DeviceFarmOptions = {}) {
+    super();
+    const { providers = [], deleteOnReap = false, ...config } = options;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.deleteOnReap = deleteOnReap;
+    for (const provider of providers) {
+      this.registerProvider(provider);
+    }
+  }
+
+  /**
+   * Register (or replace) the provider for a platform
+   */
+  registerProvider(provider: DeviceProvider): void {
+    this.providers.set(provider.platform, provider);
+  }
+
+  /**
+   * Subscribe to the typed event stream. Returns an unsubscribe function.
+   */
+  onEvent(listener: (event: DeviceFarmEvent) => void): () => void {
+    this.on('event', listener);
+    return () => this.off('event', listener);
+  }
+
+  // ─── Acquire / release ───
+
+  /**
+   * Get a ready device for `platform`, booting a new one if under the limit.
+   * Requests are served strictly in arrival order per platform.
+   */
+  acquire(platform: DevicePlatform, options: AcquireOptions = {}): Promise<FarmDevice> {
+    if (this.closed) {
+      return Promise.reject(new UnsupportedError('DeviceFarm is shut down', { platform }));
+    }
+    if (!this.providers.has(platform)) {
+      return Promise.reject(new UnsupportedError(`No device provider registered for ${platform}`, { platform }));
+    }
+
+    const id = options.taskId ?? `task-${++this.taskCounter}`;
+
+    return new Promise<FarmDevice>((resolve, reject) => {
+      this.queue.push({ id, platform, resolve, reject, createdAt: Date.now() });
+      this.publish({ type: 'queue:added', taskId: id, platform });
+
+      if (options.timeoutMs !== undefined) {
+        const timer = setTimeout(() => {
+          if (this.removeTask(id)) {
+            reject(new DeviceTimeoutError(
+              `Timed out after ${options.timeoutMs}ms waiting for a ${platform} device (task ${id})`,
+              { platform },
+            ));
+          }
+        }, options.timeoutMs);
+        this.queueTimers.set(id, timer);
+      }
+
+      this.dispatch(platform);
+    });
+  }
+
+  /**
+   * Return a device to the pool. It goes to the next queued task,
+   * or starts its idle countdown if nobody is waiting.
+   */
+  release(deviceId: string): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      throw new DeviceNotFoundError(`Device not found: ${deviceId}`, { serial: deviceId });
+    }
+    if (device.status !== 'busy') return;
+
+    device.status = 'ready';
+    device.taskId = undefined;
+    device.lastUsedAt = Date.now();
+    this.publish({ type: 'device:released', device });
+
+    this.dispatch(device.platform);
+  }
+
+  /**
+   * Acquire a device, run `fn`, and release the device afterwards
+   */
+  async withDevice<T>(
+    platform: DevicePlatform,
+    fn: (device: FarmDevice) => Promise<T>,
+    options?: AcquireOptions,
+  ): Promise<T> {
+    const device = await this.acquire(platform, options);
+    try {
+      return await fn(device);
+    } finally {
+      if (this.devices.has(device.id)) this.release(device.id);
+    }
+  }
+
+  // ─── Inspection ───
+
+  getDevice(deviceId: string): FarmDevice | undefined {
+    return this.devices.get(deviceId);
+  }
+
+  getAllDevices(): FarmDevice[] {
+    return Array.from(this.devices.values());
+  }
+
+  getStats(): DeviceFarmStats {
+    const count = (platform: DevicePlatform) => {
+      const devices = this.getAllDevices().filter(d => d.platform === platform);
+      return {
+        total: devices.length,
+        ready: devices.filter(d => d.status === 'ready').length,
+        busy: devices.filter(d => d.status === 'busy').length,
+      };
+    };
+
+    return {
+      totalDevices: this.devices.size,
+      androidDevices: count('android'),
+      iosDevices: count('ios'),
+      queueLength: this.queue.length,
+    };
+  }
+
+  // ─── Shutdown ───
+
+  /**
+   * Reject all queued tasks and stop every device the farm owns
+   */
+  async shutdown(): Promise<void> {
+    this.closed = true;
+
+    for (const timer of this.queueTimers.values()) clearTimeout(timer);
+    this.queueTimers.clear();
+    for (const task of this.queue.splice(0)) {
+      task.reject(new UnsupportedError('DeviceFarm is shut down', { platform: task.platform }));
+    }
+
+    await Promise.allSettled(this.getAllDevices().map(d => this.stopDevice(d, false)));
+  }
+
+  // ─── Internals ───
+
+  private publish(event: DeviceFarmEvent): void {
+    this.emit(event.type, event);
+    this.emit('event', event);
+  }
+
+  private maxDevices(platform: DevicePlatform): number {
+    return platform === 'android' ? this.config.maxAndroidDevices : this.config.maxIOSDevices;
+  }
+
+  private removeTask(taskId: string): QueuedTask | undefined {
+    const index = this.queue.findIndex(t => t.id === taskId);
+    if (index === -1) return undefined;
+
+    const [task] = this.queue.splice(index, 1);
+    const timer = this.queueTimers.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.queueTimers.delete(taskId);
+    }
+    return task;
+  }
+
+  /**
+   * Match queued tasks with ready devices, then boot new devices for
+   * whatever is still waiting, up to the platform limit.
+   */
+  private dispatch(platform: DevicePlatform): void {
+    for (const task of this.queue.filter(t => t.platform === platform)) {
+      const device = this.getAllDevices().find(d => d.platform === platform && d.status === 'ready');
+      if (!device) break;
+
+      this.removeTask(task.id);
+      this.clearIdleTimer(device.id);
+      device.status = 'busy';
+      device.taskId = task.id;
+      device.lastUsedAt = Date.now();
+      this.publish({ type: 'device:busy', device, taskId: task.id });
+      this.publish({ type: 'queue:fulfilled', taskId: task.id, deviceId: device.id });
+      task.resolve(device);
+    }
+
+    const waiting = this.queue.filter(t => t.platform === platform).length;
+    const owned = this.getAllDevices().filter(d => d.platform === platform).length;
+    let toCreate = Math.min(
+      waiting - this.creating[platform],
+      this.maxDevices(platform) - owned - this.creating[platform],
+    );
+    while (toCreate-- > 0) {
+      void this.createDevice(platform);
+    }
+
+    for (const device of this.getAllDevices()) {
+      if (device.platform === platform && device.status === 'ready') {
+        this.armIdleTimer(device);
+      }
+    }
+  }
+
+  private async createDevice(platform: DevicePlatform): Promise<void> {
+    const provider = this.providers.get(platform)!;
+    const defaults = platform === 'android'
+      ? { deviceType: this.config.androidDefaults.deviceType, osVersion: this.config.androidDefaults.systemImage }
+      : { deviceType: this.config.iosDefaults.deviceType, osVersion: this.config.iosDefaults.runtime || undefined };
+
+    this.creating[platform]++;
+    let device: FarmDevice | undefined;
+    // Set once the farm gave up on this creation (bootTimeout); a device
+    // the provider hands over after that is stopped, nothing else owns it
+    let abandoned = false;
+
+    try {
+      device = await withTimeout(
+        (async () => {
+          const created = await provider.createDevice({ platform, ...defaults });
+          if (abandoned) {
+            void provider.stopDevice(created.id).catch(() => {});
+            return created;
+          }
+          device = created;
+          this.publish({ type: 'device:created', device: created });
+
+          if (created.status !== 'ready' && provider.startDevice) {
+            await provider.startDevice(created.id);
+          }
+          return created;
+        })(),
+        this.config.bootTimeout,
+        `Timed out after ${this.config.bootTimeout}ms booting ${platform} device`,
+      );
+    } catch (error) {
+      abandoned = true;
+      this.creating[platform]--;
+      const failure = toDeviceError(error, `Failed to create ${platform} device`, { platform });
+      const failed: FarmDevice = device ?? { id: '', platform, name: '', status: 'error', createdAt: Date.now() };
+      failed.status = 'error';
+      failed.error = failure.message;
+      this.publish({ type: 'device:error', device: failed, error: failure.message });
+      if (device) void provider.stopDevice(device.id).catch(() => {});
+
+      // Fail the oldest waiter rather than retrying forever against a broken provider
+      const task = this.queue.find(t => t.platform === platform);
+      if (task) {
+        this.removeTask(task.id);
+        task.reject(failure);
+      }
+      this.dispatch(platform);
+      return;
+    }
+
+    this.creating[platform]--;
+
+    if (this.closed) {
+      void provider.stopDevice(device.id).catch(() => {});
+      return;
+    }
+
+    device.status = 'ready';
+    this.devices.set(device.id, device);
+    this.publish({ type: 'device:ready', device });
+    this.dispatch(platform);
+  }
+
+  private armIdleTimer(device: FarmDevice): void {
+    if (this.idleTimers.has(device.id) || this.config.idleTimeout <= 0) return;
+
+    const timer = setTimeout(() => {
+      this.idleTimers.delete(device.id);
+      if (device.status === 'ready') {
+        void this.stopDevice(device, this.deleteOnReap);
+      }
+    }, this.config.idleTimeout);
+    timer.unref?.();
+    this.idleTimers.set(device.id, timer);
+  }
+
+  private clearIdleTimer(deviceId: string): void {
+    const timer = this.idleTimers.get(deviceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(deviceId);
+    }
+  }
+
+  private async stopDevice(device: FarmDevice, remove: boolean): Promise<void> {
+    const provider = this.providers.get(device.platform)!;
+    this.clearIdleTimer(device.id);
+    this.devices.delete(device.id);
+    device.status = 'stopping';
+
+    try {
+      await provider.stopDevice(device.id);
+      if (remove && provider.deleteDevice) {
+        await provider.deleteDevice(device.id);
+      }
+      device.status = 'stopped';
+      this.publish({ type: 'device:stopped', device });
+    } catch (error) {
+      device.status = 'error';
+      device.error = error instanceof Error ? error.message : String(error);
+      this.publish({ type: 'device:error', device, error: device.error });
+    }
+
+    // A slot just opened up
+    if (!this.closed) this.dispatch(device.platform);
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  if (ms <= 0) return promise;
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new DeviceTimeoutError(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
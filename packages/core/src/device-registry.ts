@@ -0,0 +1,396 @@
+/**
+ * DeviceRegistry: one DeviceService over any number of platform services.
+ * Learns which service owns each serial from listDevices() and routes calls there,
+ * so consumers no longer need to know whether a serial is Android or iOS.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  Device,
+  DevicePlatform,
+  VideoStreamMetadata,
+  ScrollDirection,
+  AccessibilityNode,
+  DeviceStateSnapshot,
+  AppInfo,
+  PlatformCapability,
+  AppearanceMode,
+  CallOptions,
+  PointerSequence,
+  KeyInput,
+  LogFilter,
+} from './types';
+import { DeviceService } from './interfaces';
+import { LogStream } from './log-stream';
+import { DeviceNotFoundError, UnsupportedError, isDeviceError } from './errors';
+
+export interface DeviceRegistryOptions {
+  /** Poll listDevices() at this interval to pick up hot-plugged devices (default: off) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Emits 'device:added' (Device) and 'device:removed' (Device) whenever a
+ * refresh sees the device set change.
+ */
+export class DeviceRegistry extends EventEmitter implements DeviceService {
+  private services: DeviceService[] = [];
+  private owners: Map<string, DeviceService> = new Map();
+  private known: Map<string, Device> = new Map();
+  private refreshing: Promise<Device[]> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(services: DeviceService[] = [], options: DeviceRegistryOptions = {}) {
+    super();
+    for (const service of services) {
+      this.register(service);
+    }
+    if (options.pollIntervalMs) {
+      this.startWatching(options.pollIntervalMs);
+    }
+  }
+
+  // ─── Registration ───
+
+  /**
+   * Add a platform service. Earlier services win if two list the same serial.
+   */
+  register(service: DeviceService): void {
+    if (!this.services.includes(service)) {
+      this.services.push(service);
+    }
+  }
+
+  /**
+   * Remove a service and forget every serial it owned
+   */
+  unregister(service: DeviceService): void {
+    this.services = this.services.filter(s => s !== service);
+    for (const [serial, owner] of this.owners) {
+      if (owner === service) {
+        this.owners.delete(serial);
+        this.known.delete(serial);
+      }
+    }
+  }
+
+  getServices(): DeviceService[] {
+    return [...this.services];
+  }
+
+  // ─── Ownership ───
+
+  /**
+   * Re-list devices on every service and rebuild the ownership cache.
+   * Concurrent callers share one in-flight refresh.
+   */
+  refresh(): Promise<Device[]> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Find the service that owns `serial`, refreshing once on a cache miss
+   */
+  async resolve(serial: string): Promise<DeviceService> {
+    const cached = this.owners.get(serial);
+    if (cached) return cached;
+
+    await this.refresh();
+    const owner = this.owners.get(serial);
+    if (!owner) {
+      throw new DeviceNotFoundError(`Device ${serial} not found`, { serial });
+    }
+    return owner;
+  }
+
+  /**
+   * Cached owner lookup (no refresh)
+   */
+  serviceFor(serial: string): DeviceService | undefined {
+    return this.owners.get(serial);
+  }
+
+  async platformOf(serial: string): Promise<DevicePlatform> {
+    return (await this.resolve(serial)).getPlatform();
+  }
+
+  /**
+   * Poll for hot-plugged / removed devices
+   */
+  startWatching(intervalMs: number = 2000): void {
+    this.stopWatching();
+    this.pollTimer = setInterval(() => {
+      this.refresh().catch(error => console.error('[DeviceRegistry] Refresh failed:', error));
+    }, intervalMs);
+    this.pollTimer.unref?.();
+  }
+
+  stopWatching(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  // ─── DeviceService ───
+
+  /**
+   * A registry spans platforms; this reports the first registered service's platform.
+   * Use platformOf(serial) for a specific device.
+   */
+  getPlatform(): DevicePlatform {
+    if (this.services.length === 0) {
+      throw new UnsupportedError('DeviceRegistry has no registered services');
+    }
+    return this.services[0].getPlatform();
+  }
+
+  listDevices(): Promise<Device[]> {
+    return this.refresh();
+  }
+
+  isConnected(serial: string): boolean {
+    return this.owners.get(serial)?.isConnected(serial) ?? false;
+  }
+
+  /**
+   * Union of every registered service's capabilities
+   */
+  getCapabilities(): PlatformCapability[] {
+    const capabilities = new Set<PlatformCapability>();
+    for (const service of this.services) {
+      for (const capability of service.getCapabilities?.() ?? []) {
+        capabilities.add(capability);
+      }
+    }
+    return Array.from(capabilities);
+  }
+
+  connect(serial: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'connect', s => s.connect(serial, options));
+  }
+
+  disconnect(serial: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'disconnect', s => s.disconnect(serial, options));
+  }
+
+  tap(serial: string, x: number, y: number, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'tap', s => s.tap(serial, x, y, options));
+  }
+
+  typeText(serial: string, text: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'typeText', s => s.typeText(serial, text, options));
+  }
+
+  pressKey(serial: string, key: KeyInput, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'pressKey', s => s.pressKey(serial, key, options));
+  }
+
+  screenshot(serial: string, options?: CallOptions): Promise<Buffer> {
+    return this.route(serial, 'screenshot', s => s.screenshot(serial, options));
+  }
+
+  swipe(
+    serial: string,
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    duration?: number,
+    options?: CallOptions
+  ): Promise<void> {
+    return this.route(serial, 'swipe', s => s.swipe?.(serial, startX, startY, endX, endY, duration, options));
+  }
+
+  scroll(serial: string, direction: ScrollDirection, distance?: number, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'scroll', s => s.scroll?.(serial, direction, distance, options));
+  }
+
+  startMirroring(serial: string, options?: CallOptions): Promise<VideoStreamMetadata> {
+    return this.route(serial, 'startMirroring', s => s.startMirroring(serial, options));
+  }
+
+  stopMirroring(serial: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'stopMirroring', s => s.stopMirroring(serial, options));
+  }
+
+  getAccessibilityTree(serial: string, maxElements?: number, options?: CallOptions): Promise<AccessibilityNode[]> {
+    return this.route(serial, 'getAccessibilityTree', s => s.getAccessibilityTree?.(serial, maxElements, options));
+  }
+
+  getDeviceState(serial: string, options?: CallOptions): Promise<DeviceStateSnapshot> {
+    return this.route(serial, 'getDeviceState', s => s.getDeviceState?.(serial, options));
+  }
+
+  launchApp(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'launchApp', s => s.launchApp?.(serial, appId, options));
+  }
+
+  terminateApp(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'terminateApp', s => s.terminateApp?.(serial, appId, options));
+  }
+
+  installApp(serial: string, path: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'installApp', s => s.installApp?.(serial, path, options));
+  }
+
+  uninstallApp(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'uninstallApp', s => s.uninstallApp?.(serial, appId, options));
+  }
+
+  listInstalledApps(serial: string, options?: CallOptions): Promise<AppInfo[]> {
+    return this.route(serial, 'listInstalledApps', s => s.listInstalledApps?.(serial, options));
+  }
+
+  clearAppData(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'clearAppData', s => s.clearAppData?.(serial, appId, options));
+  }
+
+  openDeepLink(serial: string, url: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'openDeepLink', s => s.openDeepLink?.(serial, url, options));
+  }
+
+  back(serial: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'back', s => s.back?.(serial, options));
+  }
+
+  longPress(serial: string, x: number, y: number, duration?: number, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'longPress', s => s.longPress?.(serial, x, y, duration, options));
+  }
+
+  performGestures(serial: string, pointers: PointerSequence[], options?: CallOptions): Promise<void> {
+    return this.route(serial, 'performGestures', s => s.performGestures?.(serial, pointers, options));
+  }
+
+  setLocation(serial: string, lat: number, lng: number, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'setLocation', s => s.setLocation?.(serial, lat, lng, options));
+  }
+
+  clearLocation(serial: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'clearLocation', s => s.clearLocation?.(serial, options));
+  }
+
+  setAppearance(serial: string, mode: AppearanceMode, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'setAppearance', s => s.setAppearance?.(serial, mode, options));
+  }
+
+  getAppearance(serial: string, options?: CallOptions): Promise<AppearanceMode> {
+    return this.route(serial, 'getAppearance', s => s.getAppearance?.(serial, options));
+  }
+
+  setLocale(serial: string, locale: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'setLocale', s => s.setLocale?.(serial, locale, options));
+  }
+
+  grantPermission(serial: string, appId: string, permission: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'grantPermission', s => s.grantPermission?.(serial, appId, permission, options));
+  }
+
+  revokePermission(serial: string, appId: string, permission: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'revokePermission', s => s.revokePermission?.(serial, appId, permission, options));
+  }
+
+  getClipboard(serial: string, options?: CallOptions): Promise<string> {
+    return this.route(serial, 'getClipboard', s => s.getClipboard?.(serial, options));
+  }
+
+  setClipboard(serial: string, text: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'setClipboard', s => s.setClipboard?.(serial, text, options));
+  }
+
+  addMedia(serial: string, path: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'addMedia', s => s.addMedia?.(serial, path, options));
+  }
+
+  startLogStream(serial: string, filter?: string | LogFilter, options?: CallOptions): Promise<LogStream> {
+    return this.route(serial, 'startLogStream', s => s.startLogStream?.(serial, filter, options));
+  }
+
+  stopLogStream(serial: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'stopLogStream', s => s.stopLogStream?.(serial, options));
+  }
+
+  startRecording(serial: string, options?: CallOptions): Promise<void> {
+    return this.route(serial, 'startRecording', s => s.startRecording?.(serial, options));
+  }
+
+  stopRecording(serial: string, options?: CallOptions): Promise<Buffer> {
+    return this.route(serial, 'stopRecording', s => s.stopRecording?.(serial, options));
+  }
+
+  // ─── Internals ───
+
+  private async doRefresh(): Promise<Device[]> {
+    const services = [...this.services];
+    const results = await Promise.allSettled(services.map(s => s.listDevices()));
+
+    const owners = new Map<string, DeviceService>();
+    const devices = new Map<string, Device>();
+
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        // Keep the previous view of a platform that failed to list (e.g. adb restarting)
+        console.error(`[DeviceRegistry] listDevices failed for ${services[i].getPlatform()}:`, result.reason);
+        for (const [serial, owner] of this.owners) {
+          const device = this.known.get(serial);
+          if (owner === services[i] && device && !owners.has(serial)) {
+            owners.set(serial, owner);
+            devices.set(serial, device);
+          }
+        }
+        return;
+      }
+
+      for (const device of result.value) {
+        if (owners.has(device.serial)) continue;
+        owners.set(device.serial, services[i]);
+        devices.set(device.serial, device);
+      }
+    });
+
+    const previous = this.known;
+    this.owners = owners;
+    this.known = devices;
+
+    for (const [serial, device] of devices) {
+      if (!previous.has(serial)) this.emit('device:added', device);
+    }
+    for (const [serial, device] of previous) {
+      if (!devices.has(serial)) this.emit('device:removed', device);
+    }
+
+    return Array.from(devices.values());
+  }
+
+  /**
+   * Resolve the owner and invoke `call` on it. `call` returns undefined when
+   * the owner does not implement an optional method.
+   */
+  private async route<T>(
+    serial: string,
+    method: string,
+    call: (service: DeviceService) => Promise<T> | undefined,
+  ): Promise<T> {
+    const service = await this.resolve(serial);
+    const pending = call(service);
+    if (pending === undefined) {
+      const platform = service.getPlatform();
+      throw new UnsupportedError(`${method} is not supported on platform: ${platform}`, { serial, platform });
+    }
+
+    try {
+      return await pending;
+    } catch (error) {
+      // The device left its service; look it up again on the next call
+      if (isDeviceError(error, 'DEVICE_GONE') || isDeviceError(error, 'NOT_FOUND')) {
+        this.owners.delete(serial);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Typed device errors with stable, machine-readable codes.
+ * Callers branch on `code` / `retryable` instead of matching message strings.
+ */
+
+import { DevicePlatform } from './types';
+
+/**
+ * Stable error codes
+ * - NOT_CONNECTED: connect() was never called (or the device was disconnected)
+ * - NOT_FOUND: the device / simulator id is unknown, or no known path leads
+ *   to a navigation target
+ * - UNSUPPORTED: the platform does not implement the operation
+ * - TIMEOUT: the operation did not finish in time
+ * - DEVICE_GONE: the device went away mid-session; reconnect before retrying
+ * - ELEMENT_NOT_FOUND: no UI element matched the selector
+ * - TRANSPORT: adb / WDA / simctl / HTTP failure talking to the device
+ * - INVALID_ARGUMENT: the caller passed a malformed value
+ * - CANCELLED: the caller aborted the operation via its AbortSignal
+ * - DIVERGED: a replayed session issued a call its trace doesn't contain
+ */
+export type DeviceErrorCode =
+  | 'NOT_CONNECTED'
+  | 'NOT_FOUND'
+  | 'UNSUPPORTED'
+  | 'TIMEOUT'
+  | 'DEVICE_GONE'
+  | 'ELEMENT_NOT_FOUND'
+  | 'TRANSPORT'
+  | 'INVALID_ARGUMENT'
+  | 'CANCELLED'
+  | 'DIVERGED';
+
+export interface DeviceErrorOptions {
+  cause?: unknown;
+  serial?: string;
+  platform?: DevicePlatform;
+  /** Overrides the code's default retryable flag */
+  retryable?: boolean;
+}
+
+const RETRYABLE_BY_DEFAULT: Record<DeviceErrorCode, boolean> = {
+  NOT_CONNECTED: false,
+  NOT_FOUND: false,
+  UNSUPPORTED: false,
+  TIMEOUT: true,
+  DEVICE_GONE: false,
+  ELEMENT_NOT_FOUND: true,
+  TRANSPORT: true,
+  INVALID_ARGUMENT: false,
+  CANCELLED: false,
+  DIVERGED: false,
+};
+
+/**
+ * Base class for every error raised by device services
+ */
+export class DeviceError extends Error {
+  readonly code: DeviceErrorCode;
+  readonly retryable: boolean;
+  readonly serial?: string;
+  readonly platform?: DevicePlatform;
+
+  constructor(code: DeviceErrorCode, message: string, options: DeviceErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'DeviceError';
+    this.code = code;
+    this.retryable = options.retryable ?? RETRYABLE_BY_DEFAULT[code];
+    this.serial = options.serial;
+    this.platform = options.platform;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      serial: this.serial,
+      platform: this.platform,
+    };
+  }
+}
+
+export class NotConnectedError extends DeviceError {
+  constructor(message: string, options?: DeviceErrorOptions) {
+    super('NOT_CONNECTED', message, options);
+    this.name = 'NotConnectedError';
+  }
+}
+
+export class DeviceNotFoundError extends DeviceError {
+  constructor(message: string, options?: DeviceErrorOptions) {
+    super('NOT_FOUND', message, options);
+    this.name = 'DeviceNotFoundError';
+  }
+}
+
+export class UnsupportedError extends DeviceError {
+  constructor(message: string, options?: DeviceErrorOptions) {
+    super('UNSUPPORTED', message, options);
+    this.name = 'UnsupportedError';
+  }
+}
+
+export class DeviceTimeoutError extends DeviceError {
+  constructor(message: string, options?: DeviceErrorOptions) {
+    super('TIMEOUT', message, options);
+    this.name = 'DeviceTimeoutError';
+  }
+}
+
+export class DeviceGoneError extends DeviceError {
+  constructor(message: string, options?: DeviceErrorOptions) {
+    super('DEVICE_GONE', message, options);
+    this.name = 'DeviceGoneError';
+  }
+}
+
+export class ElementNotFoundError extends DeviceError {
+  constructor(message: string, options?: DeviceErrorOptions) {
+    super('ELEMENT_NOT_FOUND', message, options);
+    this.name = 'ElementNotFoundError';
+  }
+}
+
+export class TransportError extends DeviceError {
+  constructor(message: string, options?: DeviceErrorOptions) {
+    super('TRANSPORT', message, options);
+    this.name = 'TransportError';
+  }
+}
+
+export class InvalidArgumentError extends DeviceError {
+  constructor(message: string, options?: DeviceErrorOptions) {
+    super('INVALID_ARGUMENT', message, options);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+export class CancelledError extends DeviceError {
+  constructor(message: string, options?: DeviceErrorOptions) {
+    super('CANCELLED', message, options);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * A replayed call doesn't match the trace. `expected` / `actual` describe the
+ * calls as `method(args)`; `expected` is absent when the trace ran out.
+ */
+export class ReplayDivergenceError extends DeviceError {
+  readonly index: number;
+  readonly expected?: string;
+  readonly actual: string;
+
+  constructor(
+    message: string,
+    details: { index: number; expected?: string; actual: string },
+    options?: DeviceErrorOptions,
+  ) {
+    super('DIVERGED', message, options);
+    this.name = 'ReplayDivergenceError';
+    this.index = details.index;
+    this.expected = details.expected;
+    this.actual = details.actual;
+  }
+}
+
+/**
+ * Type guard for DeviceError (optionally of a specific code)
+ */
+export function isDeviceError(error: unknown, code?: DeviceErrorCode): error is DeviceError {
+  return error instanceof DeviceError && (code === undefined || error.code === code);
+}
+
+/**
+ * Normalize an unknown thrown value into a DeviceError.
+ * DeviceErrors pass through untouched, as does the DeviceError reason of an
+ * aborted call; other aborts become CancelledError, AbortSignal.timeout()
+ * DeviceTimeoutError. Anything else is wrapped by `wrap` (TransportError by
+ * default) with the original value as `cause`.
+ */
+export function toDeviceError(
+  error: unknown,
+  message: string,
+  options: Omit<DeviceErrorOptions, 'cause'> = {},
+  wrap: new (message: string, options?: DeviceErrorOptions) => DeviceError = TransportError,
+): DeviceError {
+  if (error instanceof DeviceError) return error;
+  if (error instanceof Error && error.name === 'AbortError') {
+    // Node's AbortError carries the signal's reason, which createCallScope
+    // already made a CancelledError or DeviceTimeoutError
+    if (error.cause instanceof DeviceError) return error.cause;
+    return new CancelledError(`${message}: ${error.message}`, { ...options, cause: error });
+  }
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return new DeviceTimeoutError(`${message}: ${error.message}`, { ...options, cause: error });
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  return new wrap(`${message}: ${detail}`, { ...options, cause: error });
+}
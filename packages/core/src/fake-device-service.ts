@@ -0,0 +1,451 @@
+/**
+ * In-memory fake device driven by a declarative screen model.
+ * Lets AgentSession, NavigationGraph and anything built on DeviceService
+ * run end-to-end without a phone, emulator or Mac.
+ */
+
+import { createHash } from 'node:crypto';
+import { deflateSync } from 'node:zlib';
+import {
+  Device,
+  DevicePlatform,
+  VideoStreamMetadata,
+  AccessibilityNode,
+  DeviceStateSnapshot,
+  PlatformCapability,
+  FakeAppModel,
+  FakeScreen,
+  FakeTransition,
+  FakeRegion,
+  PointerSequence,
+  KeyInput,
+} from './types';
+import { BaseDeviceService } from './interfaces';
+import { DeviceNotFoundError, InvalidArgumentError } from './errors';
+import { validatePointerSequences } from './gestures';
+import { DEVICE_KEYS, isRawKey, keyCapabilities, toKeyChord } from './keys';
+
+export interface FakeDeviceServiceOptions {
+  serial?: string;
+  platform?: DevicePlatform;
+  model?: string;
+  osVersion?: string;
+  /** Placeholder screenshot size relative to the screen (default 0.25) */
+  screenshotScale?: number;
+}
+
+/**
+ * A call recorded by FakeDeviceService, in order of arrival
+ */
+export interface FakeDeviceEvent {
+  method: string;
+  args: unknown[];
+  screenBefore: string;
+  screenAfter: string;
+}
+
+const DEFAULT_SERIAL = 'fake-device';
+const DEFAULT_SCREEN_WIDTH = 1080;
+const DEFAULT_SCREEN_HEIGHT = 1920;
+
+function contains(region: FakeRegion, x: number, y: number): boolean {
+  return x >= region.x1 && x <= region.x2 && y >= region.y1 && y <= region.y2;
+}
+
+function findNode(
+  nodes: AccessibilityNode[],
+  match: NonNullable<FakeTransition['element']>,
+): AccessibilityNode | undefined {
+  for (const node of nodes) {
+    const matches =
+      (match.resourceId === undefined || node.resourceId === match.resourceId) &&
+      (match.text === undefined || node.text === match.text) &&
+      (match.contentDesc === undefined || node.contentDesc === match.contentDesc);
+    if (matches) return node;
+    if (node.children) {
+      const found = findNode(node.children, match);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+function flatten(nodes: AccessibilityNode[], out: AccessibilityNode[] = []): AccessibilityNode[] {
+  for (const node of nodes) {
+    out.push(node);
+    if (node.children) flatten(node.children, out);
+  }
+  return out;
+}
+
+// ─── Placeholder PNG ───
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Render a screen as a flat-colored PNG with element bounds outlined.
+ * Color is derived from the screen id, so different screens look different.
+ */
+function renderPlaceholder(
+  screen: FakeScreen,
+  screenWidth: number,
+  screenHeight: number,
+  scale: number,
+): Buffer {
+  const width = Math.max(1, Math.round(screenWidth * scale));
+  const height = Math.max(1, Math.round(screenHeight * scale));
+  const digest = createHash('sha256').update(screen.id).digest();
+  const background = [digest[0], digest[1], digest[2]];
+  const outline = background.map(c => 255 - c);
+
+  // One filter byte (0 = none) per scanline, then RGB pixels
+  const stride = width * 3 + 1;
+  const raw = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      raw.set(background, y * stride + 1 + x * 3);
+    }
+  }
+
+  const plot = (x: number, y: number) => {
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+    raw.set(outline, y * stride + 1 + x * 3);
+  };
+
+  for (const node of flatten(screen.tree)) {
+    const x1 = Math.round(node.bounds.x1 * scale);
+    const y1 = Math.round(node.bounds.y1 * scale);
+    const x2 = Math.round(node.bounds.x2 * scale) - 1;
+    const y2 = Math.round(node.bounds.y2 * scale) - 1;
+    for (let x = x1; x <= x2; x++) {
+      plot(x, y1);
+      plot(x, y2);
+    }
+    for (let y = y1; y <= y2; y++) {
+      plot(x1, y);
+      plot(x2, y);
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8);   // bit depth
+  header.writeUInt8(2, 9);   // color type: truecolor RGB
+  header.writeUInt8(0, 10);  // compression
+  header.writeUInt8(0, 11);  // filter
+  header.writeUInt8(0, 12);  // interlace
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Device service backed by a FakeAppModel state machine.
+ *
+ * Taps, back, deep links and typed text move between screens according to the
+ * model's transitions; getDeviceState/getAccessibilityTree return the current
+ * screen's tree and screenshot() renders a placeholder PNG.
+ */
+export class FakeDeviceService extends BaseDeviceService {
+  private model: FakeAppModel;
+  private screens: Map<string, FakeScreen> = new Map();
+  private serial: string;
+  private deviceModel: string;
+  private osVersion: string;
+  private screenshotScale: number;
+  private currentScreenId: string;
+  private history: string[] = [];
+  private events: FakeDeviceEvent[] = [];
+
+  constructor(model: FakeAppModel, options: FakeDeviceServiceOptions = {}) {
+    super(options.platform ?? 'android');
+    this.model = model;
+    this.serial = options.serial ?? DEFAULT_SERIAL;
+    this.deviceModel = options.model ?? 'Fake Device';
+    this.osVersion = options.osVersion ?? '0.0';
+    this.screenshotScale = options.screenshotScale ?? 0.25;
+
+    for (const screen of model.screens) {
+      if (this.screens.has(screen.id)) {
+        throw new Error(`FakeAppModel: duplicate screen id "${screen.id}"`);
+      }
+      this.screens.set(screen.id, screen);
+    }
+    this.assertScreen(model.initialScreen, 'initialScreen');
+    for (const screen of model.screens) {
+      for (const transition of screen.transitions ?? []) {
+        this.assertScreen(transition.to, `transition from "${screen.id}"`);
+      }
+    }
+    for (const [url, to] of Object.entries(model.deepLinks ?? {})) {
+      this.assertScreen(to, `deep link "${url}"`);
+    }
+
+    this.currentScreenId = model.initialScreen;
+  }
+
+  // ─── Fake-specific helpers ───
+
+  /**
+   * Id of the screen currently shown
+   */
+  getCurrentScreen(): string {
+    return this.currentScreenId;
+  }
+
+  /**
+   * Jump straight to a screen (clears back history)
+   */
+  setCurrentScreen(screenId: string): void {
+    this.assertScreen(screenId, 'setCurrentScreen');
+    this.currentScreenId = screenId;
+    this.history = [];
+  }
+
+  /**
+   * Calls received so far, with the screen before and after each one
+   */
+  getEvents(): FakeDeviceEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Return to the initial screen and forget history and recorded events
+   */
+  reset(): void {
+    this.currentScreenId = this.model.initialScreen;
+    this.history = [];
+    this.events = [];
+  }
+
+  // ─── DeviceService ───
+
+  async listDevices(): Promise<Device[]> {
+    return [{
+      serial: this.serial,
+      platform: this.platform,
+      model: this.deviceModel,
+      osVersion: this.osVersion,
+      screenWidth: this.screenWidth,
+      screenHeight: this.screenHeight,
+      connected: this.isConnected(this.serial),
+    }];
+  }
+
+  async connect(serial: string): Promise<void> {
+    this.assertKnownSerial(serial);
+    this.markConnected(serial);
+  }
+
+  async disconnect(serial: string): Promise<void> {
+    this.markDisconnected(serial);
+  }
+
+  async tap(serial: string, x: number, y: number): Promise<void> {
+    this.assertConnected(serial);
+    this.record('tap', [x, y], () => {
+      const transition = this.currentTransitions('tap').find(t => {
+        const region = this.resolveRegion(t);
+        return region !== undefined && contains(region, x, y);
+      });
+      if (transition) this.navigate(transition.to);
+    });
+  }
+
+  async longPress(serial: string, x: number, y: number, duration?: number): Promise<void> {
+    this.assertConnected(serial);
+    this.record('longPress', [x, y, duration], () => {});
+  }
+
+  async performGestures(serial: string, pointers: PointerSequence[]): Promise<void> {
+    this.assertConnected(serial);
+    validatePointerSequences(pointers);
+    this.record('performGestures', [pointers], () => {});
+  }
+
+  async typeText(serial: string, text: string): Promise<void> {
+    this.assertConnected(serial);
+    this.record('typeText', [text], () => {
+      const transition = this.currentTransitions('type')
+        .find(t => t.text === undefined || t.text === text);
+      if (transition) this.navigate(transition.to);
+    });
+  }
+
+  async pressKey(serial: string, key: KeyInput): Promise<void> {
+    this.assertConnected(serial);
+    const chord = toKeyChord(key);
+    if (!isRawKey(chord) && chord.key === 'back' && chord.modifiers.length === 0) {
+      await this.back(serial);
+      return;
+    }
+    this.record('pressKey', [key], () => {});
+  }
+
+  async back(serial: string): Promise<void> {
+    this.assertConnected(serial);
+    this.record('back', [], () => {
+      const transition = this.currentTransitions('back')[0];
+      if (transition) {
+        this.navigate(transition.to);
+        return;
+      }
+      const previous = this.history.pop();
+      if (previous !== undefined) {
+        this.currentScreenId = previous;
+      }
+    });
+  }
+
+  async openDeepLink(serial: string, url: string): Promise<void> {
+    this.assertConnected(serial);
+    this.record('openDeepLink', [url], () => {
+      const transition = this.currentTransitions('deeplink').find(t => t.url === url);
+      const to = transition?.to ?? this.model.deepLinks?.[url];
+      if (to === undefined) {
+        throw new InvalidArgumentError(`No screen handles deep link: ${url}`, { serial, platform: this.platform });
+      }
+      this.navigate(to);
+    });
+  }
+
+  async launchApp(serial: string, appId: string): Promise<void> {
+    this.assertConnected(serial);
+    this.record('launchApp', [appId], () => {
+      this.currentScreenId = this.model.initialScreen;
+      this.history = [];
+    });
+  }
+
+  async screenshot(serial: string): Promise<Buffer> {
+    this.assertConnected(serial);
+    return renderPlaceholder(
+      this.currentScreen,
+      this.screenWidth,
+      this.screenHeight,
+      this.screenshotScale,
+    );
+  }
+
+  async getAccessibilityTree(serial: string, _maxElements?: number): Promise<AccessibilityNode[]> {
+    this.assertConnected(serial);
+    return structuredClone(this.currentScreen.tree);
+  }
+
+  async getDeviceState(serial: string): Promise<DeviceStateSnapshot> {
+    this.assertConnected(serial);
+    const start = Date.now();
+    const screen = this.currentScreen;
+    const appPackage = screen.appPackage ?? this.model.appPackage ?? 'com.example.fake';
+    const screenshotBuf = await this.screenshot(serial);
+
+    return {
+      tree: structuredClone(screen.tree),
+      appInfo: {
+        currentApp: screen.currentApp ?? appPackage,
+        packageName: appPackage,
+        keyboardVisible: screen.keyboardVisible ?? false,
+      },
+      deviceContext: {
+        screenWidth: this.screenWidth,
+        screenHeight: this.screenHeight,
+      },
+      screenshot: screenshotBuf.toString('base64'),
+      captureMs: Date.now() - start,
+    };
+  }
+
+  getCapabilities(): PlatformCapability[] {
+    return ['accessibility', 'deepLinks', 'multiTouch', 'keyChords', ...keyCapabilities(DEVICE_KEYS)];
+  }
+
+  async startMirroring(_serial: string): Promise<VideoStreamMetadata> {
+    throw this.unsupported('startMirroring');
+  }
+
+  async stopMirroring(_serial: string): Promise<void> {
+    // Nothing is ever streamed
+  }
+
+  // ─── Internals ───
+
+  private get screenWidth(): number {
+    return this.model.screenWidth ?? DEFAULT_SCREEN_WIDTH;
+  }
+
+  private get screenHeight(): number {
+    return this.model.screenHeight ?? DEFAULT_SCREEN_HEIGHT;
+  }
+
+  private get currentScreen(): FakeScreen {
+    return this.screens.get(this.currentScreenId)!;
+  }
+
+  private currentTransitions(trigger: FakeTransition['trigger']): FakeTransition[] {
+    return (this.currentScreen.transitions ?? []).filter(t => t.trigger === trigger);
+  }
+
+  private resolveRegion(transition: FakeTransition): FakeRegion | undefined {
+    if (transition.region) return transition.region;
+    if (transition.element) {
+      return findNode(this.currentScreen.tree, transition.element)?.bounds;
+    }
+    return undefined;
+  }
+
+  private navigate(to: string): void {
+    if (to === this.currentScreenId) return;
+    this.history.push(this.currentScreenId);
+    this.currentScreenId = to;
+  }
+
+  private record(method: string, args: unknown[], apply: () => void): void {
+    const screenBefore = this.currentScreenId;
+    apply();
+    this.events.push({ method, args, screenBefore, screenAfter: this.currentScreenId });
+  }
+
+  private assertScreen(screenId: string, context: string): void {
+    if (!this.screens.has(screenId)) {
+      throw new Error(`FakeAppModel: unknown screen "${screenId}" in ${context}`);
+    }
+  }
+
+  private assertKnownSerial(serial: string): void {
+    if (serial !== this.serial) {
+      throw new DeviceNotFoundError(`Device ${serial} not found`, { serial, platform: this.platform });
+    }
+  }
+}
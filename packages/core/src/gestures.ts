@@ -0,0 +1,305 @@
+/**
+ * Multi-pointer gestures on top of DeviceService.performGestures.
+ * Builders for common gestures (pinch, rotate, drag-and-drop), validation, and
+ * a timeline compiler for transports that inject raw touch events (scrcpy, adb).
+ */
+
+import { CallOptions, PointerSequence, PointerStep } from './types';
+import { DeviceService } from './interfaces';
+import { InvalidArgumentError, UnsupportedError } from './errors';
+
+/**
+ * A single touch event at `at` ms from the start of the gesture
+ */
+export interface GestureTouchEvent {
+  at: number;
+  /** Index of the pointer in the input array */
+  pointer: number;
+  action: 'down' | 'move' | 'up';
+  x: number;
+  y: number;
+}
+
+export interface GestureTimelineOptions {
+  /** Spacing of interpolated move events while a pointer is down (default 16ms) */
+  stepMs?: number;
+}
+
+export interface PinchOptions {
+  centerX: number;
+  centerY: number;
+  /** Distance between the two fingers at the start */
+  startDistance: number;
+  /** Distance at the end: larger zooms in, smaller zooms out */
+  endDistance: number;
+  /** Axis of the fingers in degrees, 0 = horizontal (default 0) */
+  angle?: number;
+  duration?: number;
+}
+
+export interface RotateOptions {
+  centerX: number;
+  centerY: number;
+  /** Distance of each finger from the center */
+  radius: number;
+  /** Rotation in degrees; positive is clockwise on screen */
+  degrees: number;
+  /** Angle of the first finger in degrees, 0 = right of center (default 0) */
+  startAngle?: number;
+  duration?: number;
+}
+
+export interface DragAndDropOptions {
+  fromX: number;
+  fromY: number;
+  toX: number;
+  toY: number;
+  /** Hold before moving, long enough to trigger a drag (default 600ms) */
+  holdMs?: number;
+  /** Duration of the move (default 500ms) */
+  duration?: number;
+  /** Pause over the drop target before lifting (default 100ms) */
+  dropDelayMs?: number;
+}
+
+const DEFAULT_STEP_MS = 16;
+const DEFAULT_GESTURE_DURATION_MS = 400;
+const ROTATE_SEGMENT_DEGREES = 15;
+
+function stepDuration(step: PointerStep): number {
+  return step.type === 'move' || step.type === 'pause' ? step.duration ?? 0 : 0;
+}
+
+function pointerLabel(pointers: PointerSequence[], index: number): string {
+  return pointers[index].id ?? `finger${index + 1}`;
+}
+
+/**
+ * Throw InvalidArgumentError unless every pointer moves before pressing,
+ * alternates down/up and ends lifted.
+ */
+export function validatePointerSequences(pointers: PointerSequence[]): void {
+  if (pointers.length === 0) {
+    throw new InvalidArgumentError('performGestures needs at least one pointer');
+  }
+
+  pointers.forEach((pointer, index) => {
+    const label = pointerLabel(pointers, index);
+    let positioned = false;
+    let down = false;
+
+    for (const step of pointer.steps) {
+      const duration = stepDuration(step);
+      if (!Number.isFinite(duration) || duration < 0) {
+        throw new InvalidArgumentError(`${label}: invalid duration ${duration}`);
+      }
+
+      switch (step.type) {
+        case 'move':
+          if (!Number.isFinite(step.x) || !Number.isFinite(step.y)) {
+            throw new InvalidArgumentError(`${label}: move needs finite x and y`);
+          }
+          positioned = true;
+          break;
+        case 'down':
+          if (!positioned) throw new InvalidArgumentError(`${label}: down before any move`);
+          if (down) throw new InvalidArgumentError(`${label}: down while already down`);
+          down = true;
+          break;
+        case 'up':
+          if (!down) throw new InvalidArgumentError(`${label}: up while not down`);
+          down = false;
+          break;
+        case 'pause':
+          break;
+      }
+    }
+
+    if (down) {
+      throw new InvalidArgumentError(`${label}: ends while still down`);
+    }
+  });
+}
+
+/**
+ * Flatten pointer sequences into timed touch events. Steps run in lockstep
+ * ticks (W3C semantics); moves while down are interpolated every `stepMs`.
+ */
+export function compileGestureTimeline(
+  pointers: PointerSequence[],
+  options: GestureTimelineOptions = {},
+): GestureTouchEvent[] {
+  validatePointerSequences(pointers);
+
+  const stepMs = Math.max(1, options.stepMs ?? DEFAULT_STEP_MS);
+  const state = pointers.map(() => ({ x: 0, y: 0, down: false }));
+  const tickCount = Math.max(...pointers.map(p => p.steps.length));
+  const events: GestureTouchEvent[] = [];
+  let tickStart = 0;
+
+  for (let tick = 0; tick < tickCount; tick++) {
+    let tickDuration = 0;
+
+    pointers.forEach((pointer, index) => {
+      const step = pointer.steps[tick];
+      if (!step) return;
+
+      const current = state[index];
+      const duration = stepDuration(step);
+      tickDuration = Math.max(tickDuration, duration);
+
+      switch (step.type) {
+        case 'move': {
+          if (current.down) {
+            const segments = Math.max(1, Math.ceil(duration / stepMs));
+            for (let k = 1; k <= segments; k++) {
+              const t = k / segments;
+              events.push({
+                at: tickStart + duration * t,
+                pointer: index,
+                action: 'move',
+                x: Math.round(current.x + (step.x - current.x) * t),
+                y: Math.round(current.y + (step.y - current.y) * t),
+              });
+            }
+          }
+          current.x = step.x;
+          current.y = step.y;
+          break;
+        }
+        case 'down':
+        case 'up':
+          current.down = step.type === 'down';
+          events.push({
+            at: tickStart,
+            pointer: index,
+            action: step.type,
+            x: Math.round(current.x),
+            y: Math.round(current.y),
+          });
+          break;
+        case 'pause':
+          break;
+      }
+    });
+
+    tickStart += tickDuration;
+  }
+
+  // Array.prototype.sort is stable, so simultaneous events keep pointer order
+  return events.sort((a, b) => a.at - b.at);
+}
+
+// ─── Builders ───
+
+/**
+ * Two fingers moving apart (zoom in) or together (zoom out) along one axis
+ */
+export function pinchGesture(options: PinchOptions): PointerSequence[] {
+  const radians = ((options.angle ?? 0) * Math.PI) / 180;
+  const duration = options.duration ?? DEFAULT_GESTURE_DURATION_MS;
+  const at = (sign: number, distance: number) => ({
+    x: Math.round(options.centerX + (sign * distance * Math.cos(radians)) / 2),
+    y: Math.round(options.centerY + (sign * distance * Math.sin(radians)) / 2),
+  });
+
+  return [-1, 1].map((sign, index) => ({
+    id: `finger${index + 1}`,
+    steps: [
+      { type: 'move', ...at(sign, options.startDistance) },
+      { type: 'down' },
+      { type: 'move', ...at(sign, options.endDistance), duration },
+      { type: 'up' },
+    ],
+  }));
+}
+
+/**
+ * Two opposite fingers turning around a center, as an arc of short moves
+ */
+export function rotateGesture(options: RotateOptions): PointerSequence[] {
+  const duration = options.duration ?? DEFAULT_GESTURE_DURATION_MS;
+  const startAngle = options.startAngle ?? 0;
+  const segments = Math.max(1, Math.ceil(Math.abs(options.degrees) / ROTATE_SEGMENT_DEGREES));
+  const at = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    return {
+      x: Math.round(options.centerX + options.radius * Math.cos(radians)),
+      y: Math.round(options.centerY + options.radius * Math.sin(radians)),
+    };
+  };
+
+  return [0, 180].map((offset, index) => {
+    const steps: PointerStep[] = [{ type: 'move', ...at(startAngle + offset) }, { type: 'down' }];
+    for (let k = 1; k <= segments; k++) {
+      steps.push({
+        type: 'move',
+        ...at(startAngle + offset + (options.degrees * k) / segments),
+        duration: duration / segments,
+      });
+    }
+    steps.push({ type: 'up' });
+    return { id: `finger${index + 1}`, steps };
+  });
+}
+
+/**
+ * Press, hold until the drag starts, move, and release over the target
+ */
+export function dragAndDropGesture(options: DragAndDropOptions): PointerSequence[] {
+  return [{
+    id: 'finger1',
+    steps: [
+      { type: 'move', x: Math.round(options.fromX), y: Math.round(options.fromY) },
+      { type: 'down' },
+      { type: 'pause', duration: options.holdMs ?? 600 },
+      { type: 'move', x: Math.round(options.toX), y: Math.round(options.toY), duration: options.duration ?? 500 },
+      { type: 'pause', duration: options.dropDelayMs ?? 100 },
+      { type: 'up' },
+    ],
+  }];
+}
+
+// ─── Convenience ───
+
+async function perform(
+  service: DeviceService,
+  serial: string,
+  pointers: PointerSequence[],
+  callOptions?: CallOptions,
+): Promise<void> {
+  if (!service.performGestures) {
+    throw new UnsupportedError('DeviceService does not support performGestures', {
+      serial,
+      platform: service.getPlatform(),
+    });
+  }
+  await service.performGestures(serial, pointers, callOptions);
+}
+
+export function pinch(
+  service: DeviceService,
+  serial: string,
+  options: PinchOptions,
+  callOptions?: CallOptions,
+): Promise<void> {
+  return perform(service, serial, pinchGesture(options), callOptions);
+}
+
+export function rotate(
+  service: DeviceService,
+  serial: string,
+  options: RotateOptions,
+  callOptions?: CallOptions,
+): Promise<void> {
+  return perform(service, serial, rotateGesture(options), callOptions);
+}
+
+export function dragAndDrop(
+  service: DeviceService,
+  serial: string,
+  options: DragAndDropOptions,
+  callOptions?: CallOptions,
+): Promise<void> {
+  return perform(service, serial, dragAndDropGesture(options), callOptions);
+}
@@ -9,6 +9,7 @@ export {
   InputAction,
   VideoCodec,
   ScrollDirection,
+  CallOptions,
   DeviceStatus,
   Device,
   VideoStreamMetadata,
@@ -28,7 +29,20 @@ export {
   AppInfo,
   LogLevel,
   LogEntry,
+  LogFilter,
   AppearanceMode,
+  PointerStep,
+  PointerSequence,
+  DeviceKey,
+  KeyModifier,
+  CharacterKey,
+  KeyChord,
+  KeyInput,
+  RawKey,
+  FakeRegion,
+  FakeTransition,
+  FakeScreen,
+  FakeAppModel,
 } from './types';
 
 // Interfaces
@@ -37,23 +51,173 @@ export {
   BaseDeviceService,
 } from './interfaces';
 
+// Errors
+export {
+  DeviceErrorCode,
+  DeviceErrorOptions,
+  DeviceError,
+  NotConnectedError,
+  DeviceNotFoundError,
+  UnsupportedError,
+  DeviceTimeoutError,
+  DeviceGoneError,
+  ElementNotFoundError,
+  TransportError,
+  InvalidArgumentError,
+  CancelledError,
+  ReplayDivergenceError,
+  isDeviceError,
+  toDeviceError,
+} from './errors';
+
+// Cancellation
+export {
+  CallScope,
+  createCallScope,
+  raceSignal,
+  withCallOptions,
+  abortableDelay,
+} from './cancellation';
+
+// Keys
+export {
+  DEVICE_KEYS,
+  KEY_MODIFIERS,
+  NormalizedKeyChord,
+  isDeviceKey,
+  isRawKey,
+  parseKey,
+  toKeyChord,
+  formatKey,
+  keyCapabilities,
+  supportedKeys,
+} from './keys';
+
+// Gestures
+export {
+  GestureTouchEvent,
+  GestureTimelineOptions,
+  PinchOptions,
+  RotateOptions,
+  DragAndDropOptions,
+  validatePointerSequences,
+  compileGestureTimeline,
+  pinchGesture,
+  rotateGesture,
+  dragAndDropGesture,
+  pinch,
+  rotate,
+  dragAndDrop,
+} from './gestures';
+
+// Fake device (offline testing)
+export {
+  FakeDeviceService,
+  FakeDeviceServiceOptions,
+  FakeDeviceEvent,
+} from './fake-device-service';
+
+// Session traces (record / replay)
+export {
+  TRACE_FORMAT_VERSION,
+  TRACE_ACTION_METHODS,
+  SessionTrace,
+  TraceCall,
+  TraceError,
+  TraceRecorder,
+  TraceRecorderOptions,
+  isTraceAction,
+  encodeTraceValue,
+  decodeTraceValue,
+  serializeTrace,
+  parseTrace,
+} from './trace';
+export {
+  ReplayDeviceService,
+  ReplayDeviceServiceOptions,
+} from './replay-device-service';
+
+// Interceptors
+export {
+  INTERCEPTABLE_METHODS,
+  InterceptableMethod,
+  InvocationContext,
+  DeviceInterceptor,
+  withInterceptors,
+  LoggingInterceptor,
+  LoggingInterceptorOptions,
+  TimingInterceptor,
+  MethodTiming,
+} from './interceptors';
+
+// Device registry
+export {
+  DeviceRegistry,
+  DeviceRegistryOptions,
+} from './device-registry';
+
+// Device farm
+export {
+  DeviceFarm,
+  DeviceFarmOptions,
+  DeviceProvider,
+  AcquireOptions,
+} from './device-farm';
+
 // Protocol
 export {
   CODEC,
   CODEC_NAME,
   MESSAGE_TYPE,
+  BINARY_SUBPROTOCOL,
+  BINARY_PROTOCOL_VERSION,
+  BINARY_HEADER_SIZE,
+  BINARY_FRAME_TYPE,
+  BINARY_FLAG,
+  StreamFormat,
+  StreamPacket,
+  BinaryFrame,
   MetadataMessage,
   FrameMessage,
   DataMessage,
+  ConfigurationMessage,
   DeviceDisconnectedMessage,
   PingMessage,
   createMetadataMessage,
   createFrameMessage,
   createDataMessage,
+  createConfigurationMessage,
+  encodeBinaryFrame,
+  decodeBinaryFrame,
+  encodeStreamPacket,
+  negotiateStreamFormat,
 } from './protocol';
 
+// Logs
+export {
+  LOG_LEVELS,
+  LogStream,
+  LogStreamOptions,
+  isLogLevelAtLeast,
+  matchesLogFilter,
+} from './log-stream';
+
+// Recording
+export {
+  H264Mp4Muxer,
+  Mp4MuxerOptions,
+  splitAnnexB,
+} from './mp4-muxer';
+
 // Utilities
 export {
   AsyncMutex,
+  AsyncRWLock,
   DeviceMutexManager,
+  DeviceMutexManagerOptions,
+  LockMode,
+  LockOptions,
+  LockHolderInfo,
+  LockWaiterInfo,
+  LockDiagnostics,
 } from './mutex';
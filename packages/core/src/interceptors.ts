@@ -0,0 +1,241 @@
+/**
+ * Interceptor pipeline for DeviceService.
+ * Wraps any service with an ordered chain of interceptors (audit logging, timing,
+ * rate limiting, dry-run, validation) without touching the platform code.
+ */
+
+import { DeviceService } from './interfaces';
+import { isDeviceError } from './errors';
+
+/**
+ * Every async DeviceService method, required and optional.
+ * Sync accessors (getPlatform, isConnected, getCapabilities) are never intercepted.
+ */
+export const INTERCEPTABLE_METHODS = [
+  'listDevices',
+  'connect',
+  'disconnect',
+  'tap',
+  'typeText',
+  'pressKey',
+  'screenshot',
+  'swipe',
+  'scroll',
+  'startMirroring',
+  'stopMirroring',
+  'getAccessibilityTree',
+  'getDeviceState',
+  'launchApp',
+  'terminateApp',
+  'installApp',
+  'uninstallApp',
+  'listInstalledApps',
+  'clearAppData',
+  'openDeepLink',
+  'back',
+  'longPress',
+  'performGestures',
+  'setLocation',
+  'clearLocation',
+  'setAppearance',
+  'getAppearance',
+  'setLocale',
+  'grantPermission',
+  'revokePermission',
+  'getClipboard',
+  'setClipboard',
+  'addMedia',
+  'startLogStream',
+  'stopLogStream',
+  'startRecording',
+  'stopRecording',
+] as const satisfies readonly (keyof DeviceService)[];
+
+export type InterceptableMethod = typeof INTERCEPTABLE_METHODS[number];
+
+type AsyncMethodOf<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends (...args: never[]) => Promise<unknown> ? K : never;
+}[keyof T];
+
+// Fails to compile when DeviceService gains an async method missing from the list above
+const assertAllMethodsListed: Exclude<AsyncMethodOf<DeviceService>, InterceptableMethod> extends never ? true : never = true;
+void assertAllMethodsListed;
+
+/**
+ * One call flowing through the pipeline.
+ * Interceptors may rewrite `args` before calling next().
+ */
+export interface InvocationContext {
+  method: InterceptableMethod;
+  args: unknown[];
+  /** First argument when the method is per-device */
+  serial?: string;
+  /** The wrapped (inner) service */
+  service: DeviceService;
+  startedAt: number;
+}
+
+/**
+ * Onion-style interceptor: call next() to continue down the chain, or return
+ * without calling it to short-circuit. Awaiting next() yields the result or
+ * throws the error from everything below.
+ */
+export interface DeviceInterceptor {
+  name?: string;
+  intercept(context: InvocationContext, next: () => Promise<unknown>): Promise<unknown>;
+}
+
+const METHOD_SET: ReadonlySet<string> = new Set(INTERCEPTABLE_METHODS);
+
+/**
+ * Wrap `service` so every async method runs through `interceptors`, first to last.
+ * Optional methods the service doesn't implement stay undefined, so feature
+ * checks like `if (service.getDeviceState)` keep working.
+ */
+export function withInterceptors<T extends DeviceService>(
+  service: T,
+  interceptors: DeviceInterceptor[],
+): T {
+  const chain = [...interceptors];
+
+  return new Proxy(service, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== 'string' || !METHOD_SET.has(property) || typeof value !== 'function') {
+        return value;
+      }
+
+      const method = property as InterceptableMethod;
+      return (...args: unknown[]) => {
+        const context: InvocationContext = {
+          method,
+          args,
+          serial: method === 'listDevices' ? undefined : (args[0] as string),
+          service: target,
+          startedAt: Date.now(),
+        };
+
+        const run = (index: number): Promise<unknown> => {
+          if (index === chain.length) {
+            return Promise.resolve(value.apply(target, context.args));
+          }
+          return chain[index].intercept(context, () => run(index + 1));
+        };
+
+        return run(0);
+      };
+    },
+  });
+}
+
+// ─── Built-ins ───
+
+export interface LoggingInterceptorOptions {
+  /** Line sink (default console.log) */
+  log?: (line: string) => void;
+  /** Prefix for every line (default '[DeviceService]') */
+  tag?: string;
+  /** Include arguments after the serial (default true) */
+  logArgs?: boolean;
+}
+
+function formatArg(arg: unknown): string {
+  if (Buffer.isBuffer(arg)) return `<Buffer ${arg.length} bytes>`;
+  if (typeof arg === 'string') return arg.length > 64 ? JSON.stringify(arg.slice(0, 64) + '…') : JSON.stringify(arg);
+  return JSON.stringify(arg) ?? String(arg);
+}
+
+/**
+ * Audit log: one line per call with outcome and duration
+ */
+export class LoggingInterceptor implements DeviceInterceptor {
+  readonly name = 'logging';
+  private log: (line: string) => void;
+  private tag: string;
+  private logArgs: boolean;
+
+  constructor(options: LoggingInterceptorOptions = {}) {
+    this.log = options.log ?? (line => console.log(line));
+    this.tag = options.tag ?? '[DeviceService]';
+    this.logArgs = options.logArgs ?? true;
+  }
+
+  async intercept(context: InvocationContext, next: () => Promise<unknown>): Promise<unknown> {
+    const rest = context.serial === undefined ? context.args : context.args.slice(1);
+    const call = `${context.method}(${this.logArgs ? rest.map(formatArg).join(', ') : ''})`;
+    const device = context.serial ? ` ${context.serial}` : '';
+    const start = Date.now();
+
+    try {
+      const result = await next();
+      this.log(`${this.tag}${device} ${call} ok ${Date.now() - start}ms`);
+      return result;
+    } catch (error) {
+      const code = isDeviceError(error) ? ` ${error.code}` : '';
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(`${this.tag}${device} ${call} failed${code} ${Date.now() - start}ms: ${message}`);
+      throw error;
+    }
+  }
+}
+
+export interface MethodTiming {
+  count: number;
+  errors: number;
+  totalMs: number;
+  minMs: number;
+  maxMs: number;
+  avgMs: number;
+}
+
+/**
+ * Per-method latency and error counters
+ */
+export class TimingInterceptor implements DeviceInterceptor {
+  readonly name = 'timing';
+  private timings: Map<InterceptableMethod, MethodTiming> = new Map();
+
+  async intercept(context: InvocationContext, next: () => Promise<unknown>): Promise<unknown> {
+    const start = Date.now();
+    let failed = false;
+    try {
+      return await next();
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      this.record(context.method, Date.now() - start, failed);
+    }
+  }
+
+  getStats(): Partial<Record<InterceptableMethod, MethodTiming>> {
+    const stats: Partial<Record<InterceptableMethod, MethodTiming>> = {};
+    for (const [method, timing] of this.timings) {
+      stats[method] = { ...timing };
+    }
+    return stats;
+  }
+
+  reset(): void {
+    this.timings.clear();
+  }
+
+  private record(method: InterceptableMethod, durationMs: number, failed: boolean): void {
+    const timing = this.timings.get(method) ?? {
+      count: 0,
+      errors: 0,
+      totalMs: 0,
+      minMs: Infinity,
+      maxMs: 0,
+      avgMs: 0,
+    };
+
+    timing.count++;
+    if (failed) timing.errors++;
+    timing.totalMs += durationMs;
+    timing.minMs = Math.min(timing.minMs, durationMs);
+    timing.maxMs = Math.max(timing.maxMs, durationMs);
+    timing.avgMs = timing.totalMs / timing.count;
+    this.timings.set(method, timing);
+  }
+}
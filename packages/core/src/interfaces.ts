@@ -12,12 +12,20 @@ import {
   DeviceStateSnapshot,
   AppInfo,
   LogEntry,
+  LogFilter,
   PlatformCapability,
   AppearanceMode,
+  CallOptions,
+  PointerSequence,
+  KeyInput,
 } from './types';
+import { NotConnectedError, UnsupportedError } from './errors';
+import { withCallOptions } from './cancellation';
+import { LogStream } from './log-stream';
 
 /**
  * Base interface for all device services (Android, iOS, etc.)
+ * Every async method takes an optional trailing CallOptions ({ signal, timeoutMs }).
  */
 export interface DeviceService {
   /**
@@ -28,17 +36,17 @@ export interface DeviceService {
   /**
    * List all available devices for this platform
    */
-  listDevices(): Promise<Device[]>;
+  listDevices(options?: CallOptions): Promise<Device[]>;
 
   /**
    * Connect to a specific device
    */
-  connect(serial: string): Promise<void>;
+  connect(serial: string, options?: CallOptions): Promise<void>;
 
   /**
    * Disconnect from a device
    */
-  disconnect(serial: string): Promise<void>;
+  disconnect(serial: string, options?: CallOptions): Promise<void>;
 
   /**
    * Check if a device is connected
@@ -48,22 +56,24 @@ export interface DeviceService {
   /**
    * Execute tap gesture at coordinates
    */
-  tap(serial: string, x: number, y: number): Promise<void>;
+  tap(serial: string, x: number, y: number, options?: CallOptions): Promise<void>;
 
   /**
    * Type text on the device
    */
-  typeText(serial: string, text: string): Promise<void>;
+  typeText(serial: string, text: string, options?: CallOptions): Promise<void>;
 
   /**
-   * Press a system key
+   * Press a key or chord. Throws UnsupportedError for keys the platform
+   * can't press; see `key:*` entries in getCapabilities(). A RawKey is sent
+   * as a native code where the platform has them.
    */
-  pressKey(serial: string, key: string): Promise<void>;
+  pressKey(serial: string, key: KeyInput, options?: CallOptions): Promise<void>;
 
   /**
    * Capture screenshot
    */
-  screenshot(serial: string): Promise<Buffer>;
+  screenshot(serial: string, options?: CallOptions): Promise<Buffer>;
 
   /**
    * Perform swipe gesture
@@ -74,7 +84,8 @@ export interface DeviceService {
     startY: number,
     endX: number,
     endY: number,
-    duration?: number
+    duration?: number,
+    options?: CallOptions
   ): Promise<void>;
 
   /**
@@ -83,162 +94,172 @@ export interface DeviceService {
   scroll?(
     serial: string,
     direction: ScrollDirection,
-    distance?: number
+    distance?: number,
+    options?: CallOptions
   ): Promise<void>;
 
   /**
    * Start screen mirroring stream
    */
-  startMirroring(serial: string): Promise<VideoStreamMetadata>;
+  startMirroring(serial: string, options?: CallOptions): Promise<VideoStreamMetadata>;
 
   /**
    * Stop screen mirroring stream
    */
-  stopMirroring(serial: string): Promise<void>;
+  stopMirroring(serial: string, options?: CallOptions): Promise<void>;
 
   // ─── State ───
 
   /**
    * Get the accessibility tree (UI hierarchy) for AI agent automation
    */
-  getAccessibilityTree?(serial: string, maxElements?: number): Promise<AccessibilityNode[]>;
+  getAccessibilityTree?(serial: string, maxElements?: number, options?: CallOptions): Promise<AccessibilityNode[]>;
 
   /**
    * Get combined device state (a11y tree + app info + device context)
    */
-  getDeviceState?(serial: string): Promise<DeviceStateSnapshot>;
+  getDeviceState?(serial: string, options?: CallOptions): Promise<DeviceStateSnapshot>;
 
   /**
-   * Get the list of capabilities this platform supports
+   * Get the list of capabilities this platform supports. With `serial`,
+   * narrowed to what that connected device supports (e.g. OS version
+   * dependent features).
    */
-  getCapabilities?(): PlatformCapability[];
+  getCapabilities?(serial?: string): PlatformCapability[];
 
   // ─── App Management ───
 
   /**
    * Launch an app by bundle/package ID
    */
-  launchApp?(serial: string, appId: string): Promise<void>;
+  launchApp?(serial: string, appId: string, options?: CallOptions): Promise<void>;
 
   /**
    * Terminate a running app
    */
-  terminateApp?(serial: string, appId: string): Promise<void>;
+  terminateApp?(serial: string, appId: string, options?: CallOptions): Promise<void>;
 
   /**
    * Install an app from a local file path
    */
-  installApp?(serial: string, path: string): Promise<void>;
+  installApp?(serial: string, path: string, options?: CallOptions): Promise<void>;
 
   /**
    * Uninstall an app by bundle/package ID
    */
-  uninstallApp?(serial: string, appId: string): Promise<void>;
+  uninstallApp?(serial: string, appId: string, options?: CallOptions): Promise<void>;
 
   /**
    * List installed applications
    */
-  listInstalledApps?(serial: string): Promise<AppInfo[]>;
+  listInstalledApps?(serial: string, options?: CallOptions): Promise<AppInfo[]>;
 
   /**
    * Clear app data/cache
    */
-  clearAppData?(serial: string, appId: string): Promise<void>;
+  clearAppData?(serial: string, appId: string, options?: CallOptions): Promise<void>;
 
   // ─── Navigation ───
 
   /**
    * Open a deep link / URL on the device
    */
-  openDeepLink?(serial: string, url: string): Promise<void>;
+  openDeepLink?(serial: string, url: string, options?: CallOptions): Promise<void>;
 
   /**
    * Press the back button / navigate back
    */
-  back?(serial: string): Promise<void>;
+  back?(serial: string, options?: CallOptions): Promise<void>;
 
   /**
    * Perform a long press at coordinates
    */
-  longPress?(serial: string, x: number, y: number, duration?: number): Promise<void>;
+  longPress?(serial: string, x: number, y: number, duration?: number, options?: CallOptions): Promise<void>;
+
+  /**
+   * Perform a (multi-)pointer gesture described as W3C-style action sequences
+   */
+  performGestures?(serial: string, pointers: PointerSequence[], options?: CallOptions): Promise<void>;
 
   // ─── Settings ───
 
   /**
    * Set simulated GPS location
    */
-  setLocation?(serial: string, lat: number, lng: number): Promise<void>;
+  setLocation?(serial: string, lat: number, lng: number, options?: CallOptions): Promise<void>;
 
   /**
    * Clear simulated GPS location
    */
-  clearLocation?(serial: string): Promise<void>;
+  clearLocation?(serial: string, options?: CallOptions): Promise<void>;
 
   /**
    * Set appearance mode (light/dark)
    */
-  setAppearance?(serial: string, mode: AppearanceMode): Promise<void>;
+  setAppearance?(serial: string, mode: AppearanceMode, options?: CallOptions): Promise<void>;
 
   /**
    * Get current appearance mode
    */
-  getAppearance?(serial: string): Promise<AppearanceMode>;
+  getAppearance?(serial: string, options?: CallOptions): Promise<AppearanceMode>;
 
   /**
    * Set device locale
    */
-  setLocale?(serial: string, locale: string): Promise<void>;
+  setLocale?(serial: string, locale: string, options?: CallOptions): Promise<void>;
 
   // ─── Permissions ───
 
   /**
    * Grant a permission to an app
    */
-  grantPermission?(serial: string, appId: string, permission: string): Promise<void>;
+  grantPermission?(serial: string, appId: string, permission: string, options?: CallOptions): Promise<void>;
 
   /**
    * Revoke a permission from an app
    */
-  revokePermission?(serial: string, appId: string, permission: string): Promise<void>;
+  revokePermission?(serial: string, appId: string, permission: string, options?: CallOptions): Promise<void>;
 
   // ─── I/O ───
 
   /**
    * Get device clipboard text
    */
-  getClipboard?(serial: string): Promise<string>;
+  getClipboard?(serial: string, options?: CallOptions): Promise<string>;
 
   /**
    * Set device clipboard text
    */
-  setClipboard?(serial: string, text: string): Promise<void>;
+  setClipboard?(serial: string, text: string, options?: CallOptions): Promise<void>;
 
   /**
    * Add media (photo/video) to the device gallery
    */
-  addMedia?(serial: string, path: string): Promise<void>;
+  addMedia?(serial: string, path: string, options?: CallOptions): Promise<void>;
 
   // ─── Streaming ───
 
   /**
-   * Start streaming device logs
+   * Start streaming device logs. A string filter is passed to the platform
+   * tool as-is (e.g. a logcat filterspec); a LogFilter is applied to parsed
+   * entries. Starting again replaces the device's previous stream.
    */
-  startLogStream?(serial: string, filter?: string): Promise<void>;
+  startLogStream?(serial: string, filter?: string | LogFilter, options?: CallOptions): Promise<LogStream>;
 
   /**
-   * Stop streaming device logs
+   * Stop streaming device logs (ends the LogStream)
    */
-  stopLogStream?(serial: string): Promise<void>;
+  stopLogStream?(serial: string, options?: CallOptions): Promise<void>;
 
   /**
    * Start screen recording
    */
-  startRecording?(serial: string): Promise<void>;
+  startRecording?(serial: string, options?: CallOptions): Promise<void>;
 
   /**
    * Stop screen recording and return the video buffer
    */
-  stopRecording?(serial: string): Promise<Buffer>;
+  stopRecording?(serial: string, options?: CallOptions): Promise<Buffer>;
 }
 
 /**
@@ -276,18 +297,45 @@ export abstract class BaseDeviceService implements DeviceService {
 
   protected assertConnected(serial: string): void {
     if (!this.isConnected(serial)) {
-      throw new Error(`Device ${serial} is not connected. Platform: ${this.platform}`);
+      throw this.notConnected(serial);
     }
   }
 
   protected getConnection(serial: string): DeviceConnection {
     const connection = this.connections.get(serial);
     if (!connection) {
-      throw new Error(`Device ${serial} is not connected. Platform: ${this.platform}`);
+      throw this.notConnected(serial);
     }
     return connection;
   }
 
+  protected notConnected(serial: string): NotConnectedError {
+    return new NotConnectedError(
+      `Device ${serial} is not connected. Platform: ${this.platform}`,
+      { serial, platform: this.platform },
+    );
+  }
+
+  protected unsupported(method: string): UnsupportedError {
+    return new UnsupportedError(
+      `${method} is not supported on platform: ${this.platform}`,
+      { platform: this.platform },
+    );
+  }
+
+  /**
+   * Run `fn` under the caller's CallOptions; `fn` gets the combined signal
+   * to forward to cancellable I/O (shell commands, HTTP, child processes).
+   */
+  protected cancellable<T>(
+    serial: string,
+    operation: string,
+    options: CallOptions | undefined,
+    fn: (signal: AbortSignal | undefined) => Promise<T>,
+  ): Promise<T> {
+    return withCallOptions(options, operation, { serial, platform: this.platform }, fn);
+  }
+
   async swipe(
     _serial: string,
     _startX: number,
@@ -296,7 +344,7 @@ export abstract class BaseDeviceService implements DeviceService {
     _endY: number,
     _duration?: number
   ): Promise<void> {
-    throw new Error(`swipe is not supported on platform: ${this.platform}`);
+    throw this.unsupported('swipe');
   }
 
   async scroll(
@@ -304,15 +352,15 @@ export abstract class BaseDeviceService implements DeviceService {
     _direction: ScrollDirection,
     _distance?: number
   ): Promise<void> {
-    throw new Error(`scroll is not supported on platform: ${this.platform}`);
+    throw this.unsupported('scroll');
   }
 
   async getAccessibilityTree(_serial: string, _maxElements?: number): Promise<AccessibilityNode[]> {
-    throw new Error(`getAccessibilityTree is not supported on platform: ${this.platform}`);
+    throw this.unsupported('getAccessibilityTree');
   }
 
   async getDeviceState(_serial: string): Promise<DeviceStateSnapshot> {
-    throw new Error(`getDeviceState is not supported on platform: ${this.platform}`);
+    throw this.unsupported('getDeviceState');
   }
 
   getCapabilities(): PlatformCapability[] {
@@ -320,105 +368,109 @@ export abstract class BaseDeviceService implements DeviceService {
   }
 
   async launchApp(_serial: string, _appId: string): Promise<void> {
-    throw new Error(`launchApp is not supported on platform: ${this.platform}`);
+    throw this.unsupported('launchApp');
   }
 
   async terminateApp(_serial: string, _appId: string): Promise<void> {
-    throw new Error(`terminateApp is not supported on platform: ${this.platform}`);
+    throw this.unsupported('terminateApp');
   }
 
   async installApp(_serial: string, _path: string): Promise<void> {
-    throw new Error(`installApp is not supported on platform: ${this.platform}`);
+    throw this.unsupported('installApp');
   }
 
   async uninstallApp(_serial: string, _appId: string): Promise<void> {
-    throw new Error(`uninstallApp is not supported on platform: ${this.platform}`);
+    throw this.unsupported('uninstallApp');
   }
 
   async listInstalledApps(_serial: string): Promise<AppInfo[]> {
-    throw new Error(`listInstalledApps is not supported on platform: ${this.platform}`);
+    throw this.unsupported('listInstalledApps');
   }
 
   async clearAppData(_serial: string, _appId: string): Promise<void> {
-    throw new Error(`clearAppData is not supported on platform: ${this.platform}`);
+    throw this.unsupported('clearAppData');
   }
 
   async openDeepLink(_serial: string, _url: string): Promise<void> {
-    throw new Error(`openDeepLink is not supported on platform: ${this.platform}`);
+    throw this.unsupported('openDeepLink');
   }
 
   async back(_serial: string): Promise<void> {
-    throw new Error(`back is not supported on platform: ${this.platform}`);
+    throw this.unsupported('back');
   }
 
   async longPress(_serial: string, _x: number, _y: number, _duration?: number): Promise<void> {
-    throw new Error(`longPress is not supported on platform: ${this.platform}`);
+    throw this.unsupported('longPress');
+  }
+
+  async performGestures(_serial: string, _pointers: PointerSequence[]): Promise<void> {
+    throw this.unsupported('performGestures');
   }
 
   async setLocation(_serial: string, _lat: number, _lng: number): Promise<void> {
-    throw new Error(`setLocation is not supported on platform: ${this.platform}`);
+    throw this.unsupported('setLocation');
   }
 
   async clearLocation(_serial: string): Promise<void> {
-    throw new Error(`clearLocation is not supported on platform: ${this.platform}`);
+    throw this.unsupported('clearLocation');
   }
 
   async setAppearance(_serial: string, _mode: AppearanceMode): Promise<void> {
-    throw new Error(`setAppearance is not supported on platform: ${this.platform}`);
+    throw this.unsupported('setAppearance');
   }
 
   async getAppearance(_serial: string): Promise<AppearanceMode> {
-    throw new Error(`getAppearance is not supported on platform: ${this.platform}`);
+    throw this.unsupported('getAppearance');
   }
 
   async setLocale(_serial: string, _locale: string): Promise<void> {
-    throw new Error(`setLocale is not supported on platform: ${this.platform}`);
+    throw this.unsupported('setLocale');
   }
 
   async grantPermission(_serial: string, _appId: string, _permission: string): Promise<void> {
-    throw new Error(`grantPermission is not supported on platform: ${this.platform}`);
+    throw this.unsupported('grantPermission');
   }
 
   async revokePermission(_serial: string, _appId: string, _permission: string): Promise<void> {
-    throw new Error(`revokePermission is not supported on platform: ${this.platform}`);
+    throw this.unsupported('revokePermission');
   }
 
   async getClipboard(_serial: string): Promise<string> {
-    throw new Error(`getClipboard is not supported on platform: ${this.platform}`);
+    throw this.unsupported('getClipboard');
   }
 
   async setClipboard(_serial: string, _text: string): Promise<void> {
-    throw new Error(`setClipboard is not supported on platform: ${this.platform}`);
+    throw this.unsupported('setClipboard');
   }
 
   async addMedia(_serial: string, _path: string): Promise<void> {
-    throw new Error(`addMedia is not supported on platform: ${this.platform}`);
+    throw this.unsupported('addMedia');
   }
 
-  async startLogStream(_serial: string, _filter?: string): Promise<void> {
-    throw new Error(`startLogStream is not supported on platform: ${this.platform}`);
+  async startLogStream(_serial: string, _filter?: string | LogFilter): Promise<LogStream> {
+    throw this.unsupported('startLogStream');
   }
 
   async stopLogStream(_serial: string): Promise<void> {
-    throw new Error(`stopLogStream is not supported on platform: ${this.platform}`);
+    throw this.unsupported('stopLogStream');
   }
 
   async startRecording(_serial: string): Promise<void> {
-    throw new Error(`startRecording is not supported on platform: ${this.platform}`);
+    throw this.unsupported('startRecording');
   }
 
   async stopRecording(_serial: string): Promise<Buffer> {
-    throw new Error(`stopRecording is not supported on platform: ${this.platform}`);
+    throw this.unsupported('stopRecording');
   }
 
   // Abstract methods to be implemented by platform-specific services
-  abstract listDevices(): Promise<Device[]>;
-  abstract connect(serial: string): Promise<void>;
-  abstract disconnect(serial: string): Promise<void>;
-  abstract tap(serial: string, x: number, y: number): Promise<void>;
-  abstract typeText(serial: string, text: string): Promise<void>;
-  abstract pressKey(serial: string, key: string): Promise<void>;
-  abstract screenshot(serial: string): Promise<Buffer>;
-  abstract startMirroring(serial: string): Promise<VideoStreamMetadata>;
-  abstract stopMirroring(serial: string): Promise<void>;
+  abstract listDevices(options?: CallOptions): Promise<Device[]>;
+  abstract connect(serial: string, options?: CallOptions): Promise<void>;
+  abstract disconnect(serial: string, options?: CallOptions): Promise<void>;
+  abstract tap(serial: string, x: number, y: number, options?: CallOptions): Promise<void>;
+  abstract typeText(serial: string, text: string, options?: CallOptions): Promise<void>;
+  abstract pressKey(serial: string, key: KeyInput, options?: CallOptions): Promise<void>;
+  abstract screenshot(serial: string, options?: CallOptions): Promise<Buffer>;
+  abstract startMirroring(serial: string, options?: CallOptions): Promise<VideoStreamMetadata>;
+  abstract stopMirroring(serial: string, options?: CallOptions): Promise<void>;
 }
@@ -0,0 +1,197 @@
+/**
+ * Normalized key vocabulary for pressKey.
+ * Parses loose key names ("VOLUME_UP", "Ctrl+A", "return") into DeviceKey /
+ * KeyChord, and converts between keys and `key:<name>` capabilities. Names
+ * outside the vocabulary that look like native codes ("KEYCODE_CAMERA",
+ * "27") pass through as RawKey for the platform to send or reject.
+ */
+
+import {
+  CharacterKey,
+  DeviceKey,
+  KeyChord,
+  KeyInput,
+  KeyModifier,
+  PlatformCapability,
+  RawKey,
+} from './types';
+import { InvalidArgumentError } from './errors';
+
+export const DEVICE_KEYS = [
+  'back',
+  'home',
+  'menu',
+  'appSwitch',
+  'search',
+  'volumeUp',
+  'volumeDown',
+  'volumeMute',
+  'power',
+  'dpadUp',
+  'dpadDown',
+  'dpadLeft',
+  'dpadRight',
+  'dpadCenter',
+  'mediaPlayPause',
+  'mediaNext',
+  'mediaPrevious',
+  'mediaStop',
+  'enter',
+  'tab',
+  'delete',
+  'forwardDelete',
+  'escape',
+  'space',
+  'imeAction',
+] as const satisfies readonly DeviceKey[];
+
+// Fails to compile when DeviceKey gains a member missing from the list above
+const assertAllKeysListed: Exclude<DeviceKey, typeof DEVICE_KEYS[number]> extends never ? true : never = true;
+void assertAllKeysListed;
+
+export const KEY_MODIFIERS = ['shift', 'ctrl', 'alt', 'meta'] as const satisfies readonly KeyModifier[];
+
+/**
+ * A chord with modifiers always present, in canonical order
+ */
+export type NormalizedKeyChord = Required<KeyChord>;
+
+const KEY_ALIASES: Record<string, DeviceKey> = {
+  return: 'enter',
+  backspace: 'delete',
+  del: 'delete',
+  esc: 'escape',
+  recents: 'appSwitch',
+  appswitcher: 'appSwitch',
+  mute: 'volumeMute',
+  playpause: 'mediaPlayPause',
+  ok: 'dpadCenter',
+};
+
+const MODIFIER_ALIASES: Record<string, KeyModifier> = {
+  control: 'ctrl',
+  option: 'alt',
+  cmd: 'meta',
+  command: 'meta',
+  super: 'meta',
+};
+
+const KEYS_BY_LOOSE_NAME: ReadonlyMap<string, DeviceKey> = new Map([
+  ...DEVICE_KEYS.map(key => [key.toLowerCase(), key] as const),
+  ...Object.entries(KEY_ALIASES),
+]);
+
+/** "KEYCODE_VOLUME_UP", "volume-up", "Volume Up" → "volumeup" */
+function looseName(name: string): string {
+  return name.trim().toLowerCase().replace(/^keycode_/, '').replace(/[\s_-]/g, '');
+}
+
+export function isDeviceKey(value: string): value is DeviceKey {
+  return (DEVICE_KEYS as readonly string[]).includes(value);
+}
+
+function isCharacterKey(value: string): value is CharacterKey {
+  return /^[a-z0-9]$/.test(value);
+}
+
+export function isRawKey(input: KeyInput | string): input is RawKey {
+  return typeof input === 'object' && 'raw' in input;
+}
+
+/** Native key code or name: "KEYCODE_CAMERA", "CAMERA", "27" */
+const RAW_KEY_PATTERN = /^[A-Za-z0-9_]+$/;
+
+function parseSingleKey(name: string, original: string): DeviceKey | CharacterKey {
+  const loose = looseName(name);
+  const key = KEYS_BY_LOOSE_NAME.get(loose);
+  if (key) return key;
+  if (isCharacterKey(loose)) return loose;
+  throw new InvalidArgumentError(`Unknown key: ${original}`);
+}
+
+/**
+ * Parse a key name or "+"-joined chord ("ctrl+shift+z") into a KeyInput.
+ * Case, "KEYCODE_" prefixes and separators are ignored. An unknown single
+ * name made of letters, digits and underscores becomes a RawKey.
+ */
+export function parseKey(text: string): KeyInput {
+  const parts = text.split('+').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) {
+    throw new InvalidArgumentError(`Unknown key: ${text}`);
+  }
+
+  if (parts.length === 1) {
+    const loose = looseName(parts[0]);
+    if (!KEYS_BY_LOOSE_NAME.has(loose) && !isCharacterKey(loose) && RAW_KEY_PATTERN.test(parts[0])) {
+      return { raw: parts[0] };
+    }
+  }
+
+  const key = parseSingleKey(parts[parts.length - 1], text);
+  const modifiers = parts.slice(0, -1).map(part => {
+    const loose = looseName(part);
+    const modifier = MODIFIER_ALIASES[loose] ?? (KEY_MODIFIERS as readonly string[]).find(m => m === loose);
+    if (!modifier) {
+      throw new InvalidArgumentError(`Unknown key modifier "${part}" in ${text}`);
+    }
+    return modifier as KeyModifier;
+  });
+
+  if (modifiers.length === 0) {
+    if (isDeviceKey(key)) return key;
+    return { key };
+  }
+  return { key, modifiers };
+}
+
+/**
+ * Normalize anything pressKey accepts (including legacy free-form names)
+ * into a chord with deduplicated, canonically ordered modifiers. Raw keys
+ * are returned unchanged.
+ */
+export function toKeyChord(input: KeyInput | string): NormalizedKeyChord | RawKey {
+  const parsed = typeof input === 'string' ? parseKey(input) : input;
+  if (typeof parsed === 'string') {
+    return { key: parsed, modifiers: [] };
+  }
+  if (isRawKey(parsed)) {
+    if (!RAW_KEY_PATTERN.test(parsed.raw)) {
+      throw new InvalidArgumentError(`Invalid raw key: ${parsed.raw}`);
+    }
+    return parsed;
+  }
+
+  const key = isDeviceKey(parsed.key) || isCharacterKey(parsed.key)
+    ? parsed.key
+    : parseSingleKey(parsed.key, parsed.key);
+  const requested = new Set(parsed.modifiers ?? []);
+  for (const modifier of requested) {
+    if (!(KEY_MODIFIERS as readonly string[]).includes(modifier)) {
+      throw new InvalidArgumentError(`Unknown key modifier: ${modifier}`);
+    }
+  }
+  return { key, modifiers: KEY_MODIFIERS.filter(m => requested.has(m)) };
+}
+
+/**
+ * "ctrl+shift+z" style label for logs and errors
+ */
+export function formatKey(input: KeyInput | string): string {
+  if (typeof input === 'string') return input;
+  if (isRawKey(input)) return input.raw;
+  return [...(input.modifiers ?? []), input.key].join('+');
+}
+
+/**
+ * Capabilities advertising support for `keys`
+ */
+export function keyCapabilities(keys: Iterable<DeviceKey>): PlatformCapability[] {
+  return Array.from(keys, key => `key:${key}` as const);
+}
+
+/**
+ * Keys a service reports as supported via getCapabilities()
+ */
+export function supportedKeys(capabilities: readonly PlatformCapability[]): DeviceKey[] {
+  return DEVICE_KEYS.filter(key => capabilities.includes(`key:${key}`));
+}
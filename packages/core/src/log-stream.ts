@@ -0,0 +1,184 @@
+/**
+ * Device log streams
+ * A LogStream delivers parsed LogEntry values from a platform log source
+ * (logcat, os_log) as 'entry' events and as an async iterator.
+ */
+
+import { EventEmitter } from 'events';
+import { LogEntry, LogFilter, LogLevel } from './types';
+
+/** Lowest to highest severity */
+export const LOG_LEVELS: readonly LogLevel[] = ['verbose', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+export interface LogStreamOptions {
+  /** Entries buffered per iterator before the oldest are dropped (default 1000) */
+  bufferSize?: number;
+  /** Releases the underlying source; called once by stop() */
+  onStop?: () => Promise<void> | void;
+}
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * Whether `level` is at least as severe as `minLevel`
+ */
+export function isLogLevelAtLeast(level: LogLevel, minLevel: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+}
+
+/**
+ * Apply a LogFilter to one entry. `packages` can't be checked from the entry
+ * alone; platforms resolve them to pids and pass them as `packagePids`.
+ */
+export function matchesLogFilter(entry: LogEntry, filter: LogFilter, packagePids?: ReadonlySet<number>): boolean {
+  if (filter.minLevel && !isLogLevelAtLeast(entry.level, filter.minLevel)) return false;
+  if (filter.tags && !filter.tags.includes(entry.tag)) return false;
+  if (filter.pids && (entry.pid === undefined || !filter.pids.includes(entry.pid))) return false;
+  if (filter.packages && packagePids && (entry.pid === undefined || !packagePids.has(entry.pid))) return false;
+
+  if (filter.message !== undefined) {
+    const matches = typeof filter.message === 'string'
+      ? entry.message.includes(filter.message)
+      : new RegExp(filter.message.source, filter.message.flags.replace('g', '')).test(entry.message);
+    if (!matches) return false;
+  }
+  return true;
+}
+
+interface IteratorQueue {
+  entries: LogEntry[];
+  wake?: () => void;
+}
+
+/**
+ * A live log stream for one device.
+ * Emits 'entry' (LogEntry), 'error' (Error, only if someone listens) and
+ * 'end'. Listen with `onEntry()` or consume with `for await`. Each iterator
+ * sees entries pushed after it was created; a slow iterator loses its oldest
+ * buffered entries (counted in `dropped`) rather than growing without bound.
+ */
+export class LogStream extends EventEmitter {
+  private queues: Set<IteratorQueue> = new Set();
+  private bufferSize: number;
+  private onStop?: () => Promise<void> | void;
+  private stopping?: Promise<void>;
+  private stopRequestedFlag = false;
+  private failure?: Error;
+  private ended = false;
+  private droppedCount = 0;
+
+  constructor(readonly serial: string, options: LogStreamOptions = {}) {
+    super();
+    this.bufferSize = Math.max(1, options.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    this.onStop = options.onStop;
+  }
+
+  /**
+   * Subscribe to entries. Returns an unsubscribe function.
+   */
+  onEntry(listener: (entry: LogEntry) => void): () => void {
+    this.on('entry', listener);
+    return () => this.off('entry', listener);
+  }
+
+  get closed(): boolean {
+    return this.ended;
+  }
+
+  /**
+   * stop() was called. Sources check this rather than `closed`, which only
+   * flips once onStop has finished: errors from tearing the source down
+   * (e.g. a killed process closing its socket) are not failures.
+   */
+  get stopRequested(): boolean {
+    return this.stopRequestedFlag;
+  }
+
+  /**
+   * Entries discarded because an iterator fell behind
+   */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * Deliver an entry (called by the platform source)
+   */
+  push(entry: LogEntry): void {
+    if (this.ended) return;
+
+    for (const queue of this.queues) {
+      queue.entries.push(entry);
+      if (queue.entries.length > this.bufferSize) {
+        queue.entries.shift();
+        this.droppedCount++;
+      }
+      queue.wake?.();
+    }
+    this.emit('entry', entry);
+  }
+
+  /**
+   * Mark the source as finished; iterators drain their buffers, then finish
+   * (or throw `error`)
+   */
+  end(error?: Error): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.failure = error;
+
+    for (const queue of this.queues) {
+      queue.wake?.();
+    }
+    // An 'error' event without listeners would throw; iterators still see it
+    if (error && this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+    this.emit('end');
+  }
+
+  /**
+   * Stop the underlying source and end the stream
+   */
+  stop(): Promise<void> {
+    if (!this.stopping) {
+      this.stopRequestedFlag = true;
+      this.stopping = (async () => {
+        try {
+          await this.onStop?.();
+        } finally {
+          this.end();
+        }
+      })();
+    }
+    return this.stopping;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<LogEntry> {
+    const queue: IteratorQueue = { entries: [] };
+    this.queues.add(queue);
+
+    return {
+      next: async (): Promise<IteratorResult<LogEntry>> => {
+        while (queue.entries.length === 0 && !this.ended) {
+          await new Promise<void>(resolve => {
+            queue.wake = resolve;
+          });
+          queue.wake = undefined;
+        }
+
+        const entry = queue.entries.shift();
+        if (entry) return { value: entry, done: false };
+
+        this.queues.delete(queue);
+        if (this.failure) throw this.failure;
+        return { value: undefined, done: true };
+      },
+      return: async (): Promise<IteratorResult<LogEntry>> => {
+        this.queues.delete(queue);
+        queue.entries = [];
+        return { value: undefined, done: true };
+      },
+    };
+  }
+}
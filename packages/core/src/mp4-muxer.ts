@@ -0,0 +1,465 @@
+/**
+ * H.264 → MP4 muxer.
+ * Takes Annex-B access units (as produced by scrcpy / qvh) with microsecond
+ * pts and writes a seekable, faststart MP4 (moov before mdat) in memory.
+ * Assumes no B-frames (decode order == presentation order), which holds
+ * for the screen encoders we stream from.
+ */
+
+import { CODEC, StreamPacket } from './protocol';
+import { InvalidArgumentError, UnsupportedError } from './errors';
+
+export interface Mp4MuxerOptions {
+  /** Used when the stream doesn't supply pts and for the last sample (default 60) */
+  fps?: number;
+  /** Override the size parsed from the SPS */
+  width?: number;
+  height?: number;
+}
+
+interface Sample {
+  data: Buffer;
+  /** In MEDIA_TIMESCALE units */
+  time: number;
+  keyframe: boolean;
+}
+
+interface AvcConfig {
+  sps: Buffer;
+  pps: Buffer[];
+  width: number;
+  height: number;
+  profile: number;
+  chromaFormat: number;
+  bitDepthLuma: number;
+  bitDepthChroma: number;
+}
+
+const MEDIA_TIMESCALE = 90_000;
+const MOVIE_TIMESCALE = 1_000;
+
+const NAL_IDR = 5;
+const NAL_SPS = 7;
+const NAL_PPS = 8;
+const NAL_AUD = 9;
+
+const HIGH_PROFILES = new Set([100, 110, 122, 144]);
+
+// ─── Annex-B / SPS parsing ───
+
+/**
+ * Split an Annex-B byte stream into NAL units (start codes removed)
+ */
+export function splitAnnexB(data: Uint8Array): Buffer[] {
+  const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const units: Buffer[] = [];
+  let start = -1;
+  let i = 0;
+
+  while (i + 2 < bytes.length) {
+    if (bytes[i] === 0 && bytes[i + 1] === 0 && bytes[i + 2] === 1) {
+      if (start !== -1) {
+        // A 4-byte start code leaves one zero behind
+        const end = i > start && bytes[i - 1] === 0 ? i - 1 : i;
+        if (end > start) units.push(bytes.subarray(start, end));
+      }
+      i += 3;
+      start = i;
+    } else {
+      i++;
+    }
+  }
+
+  if (start !== -1 && start < bytes.length) {
+    units.push(bytes.subarray(start));
+  }
+  return units;
+}
+
+function nalType(nal: Buffer): number {
+  return nal[0] & 0x1f;
+}
+
+class BitReader {
+  private position = 0;
+
+  constructor(private bytes: Buffer) {}
+
+  bit(): number {
+    if (this.position >= this.bytes.length * 8) {
+      throw new InvalidArgumentError('Truncated H.264 SPS');
+    }
+    const value = (this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1;
+    this.position++;
+    return value;
+  }
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) value = value * 2 + this.bit();
+    return value;
+  }
+
+  /** Unsigned Exp-Golomb */
+  ue(): number {
+    let zeros = 0;
+    while (this.bit() === 0) zeros++;
+    return 2 ** zeros - 1 + this.bits(zeros);
+  }
+
+  /** Signed Exp-Golomb */
+  se(): number {
+    const value = this.ue();
+    return value % 2 === 0 ? -(value / 2) : (value + 1) / 2;
+  }
+}
+
+/** Remove emulation-prevention bytes (00 00 03 → 00 00) */
+function unescapeRbsp(nal: Buffer): Buffer {
+  const out: number[] = [];
+  for (let i = 0; i < nal.length; i++) {
+    if (i >= 2 && nal[i] === 3 && nal[i - 1] === 0 && nal[i - 2] === 0) continue;
+    out.push(nal[i]);
+  }
+  return Buffer.from(out);
+}
+
+function skipScalingList(reader: BitReader, size: number): void {
+  let last = 8;
+  let next = 8;
+  for (let j = 0; j < size; j++) {
+    if (next !== 0) {
+      next = (last + reader.se() + 256) % 256;
+    }
+    last = next === 0 ? last : next;
+  }
+}
+
+function parseSps(sps: Buffer): Omit<AvcConfig, 'sps' | 'pps'> {
+  const reader = new BitReader(unescapeRbsp(sps.subarray(1)));
+  const profile = reader.bits(8);
+  reader.bits(16); // constraint flags + level
+  reader.ue(); // seq_parameter_set_id
+
+  let chromaFormat = 1;
+  let bitDepthLuma = 8;
+  let bitDepthChroma = 8;
+  if (HIGH_PROFILES.has(profile) || [118, 128, 138, 139, 134, 135].includes(profile)) {
+    chromaFormat = reader.ue();
+    if (chromaFormat === 3) reader.bit(); // separate_colour_plane_flag
+    bitDepthLuma = reader.ue() + 8;
+    bitDepthChroma = reader.ue() + 8;
+    reader.bit(); // qpprime_y_zero_transform_bypass_flag
+    if (reader.bit()) {
+      const lists = chromaFormat === 3 ? 12 : 8;
+      for (let i = 0; i < lists; i++) {
+        if (reader.bit()) skipScalingList(reader, i < 6 ? 16 : 64);
+      }
+    }
+  }
+
+  reader.ue(); // log2_max_frame_num_minus4
+  const pocType = reader.ue();
+  if (pocType === 0) {
+    reader.ue();
+  } else if (pocType === 1) {
+    reader.bit();
+    reader.se();
+    reader.se();
+    const cycle = reader.ue();
+    for (let i = 0; i < cycle; i++) reader.se();
+  }
+  reader.ue(); // max_num_ref_frames
+  reader.bit(); // gaps_in_frame_num_value_allowed_flag
+
+  const widthInMbs = reader.ue() + 1;
+  const heightInMapUnits = reader.ue() + 1;
+  const frameMbsOnly = reader.bit();
+  if (!frameMbsOnly) reader.bit(); // mb_adaptive_frame_field_flag
+  reader.bit(); // direct_8x8_inference_flag
+
+  let cropLeft = 0;
+  let cropRight = 0;
+  let cropTop = 0;
+  let cropBottom = 0;
+  if (reader.bit()) {
+    cropLeft = reader.ue();
+    cropRight = reader.ue();
+    cropTop = reader.ue();
+    cropBottom = reader.ue();
+  }
+
+  const cropUnitX = chromaFormat === 0 || chromaFormat === 3 ? 1 : 2;
+  const cropUnitY = (chromaFormat === 1 ? 2 : 1) * (2 - frameMbsOnly);
+
+  return {
+    width: widthInMbs * 16 - cropUnitX * (cropLeft + cropRight),
+    height: (2 - frameMbsOnly) * heightInMapUnits * 16 - cropUnitY * (cropTop + cropBottom),
+    profile,
+    chromaFormat,
+    bitDepthLuma,
+    bitDepthChroma,
+  };
+}
+
+// ─── Box writing ───
+
+function u8(value: number): Buffer {
+  return Buffer.from([value & 0xff]);
+}
+
+function u16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+}
+
+function u32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value >>> 0);
+  return buffer;
+}
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([u32(body.length + 8), Buffer.from(type, 'latin1'), body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Buffer[]): Buffer {
+  return box(type, u32(((version & 0xff) << 24) | (flags & 0xffffff)), ...payload);
+}
+
+const UNITY_MATRIX = Buffer.concat(
+  [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32),
+);
+
+// ─── Muxer ───
+
+/**
+ * Accumulates H.264 access units and produces an MP4 file on finalize().
+ * Frames before the first keyframe are dropped. A pts that jumps backwards
+ * (e.g. the encoder restarted) is rebased so the timeline stays monotonic.
+ */
+export class H264Mp4Muxer {
+  private config?: AvcConfig;
+  private pendingConfig?: Buffer[];
+  private samples: Sample[] = [];
+  private frameTicks: number;
+  private lastPts?: number;
+  private ptsOffset = 0;
+
+  constructor(private options: Mp4MuxerOptions = {}) {
+    this.frameTicks = Math.round(MEDIA_TIMESCALE / (options.fps ?? 60));
+  }
+
+  /**
+   * SPS/PPS as Annex-B. A later, different configuration is carried in-band
+   * in front of the next keyframe.
+   */
+  addConfiguration(data: Uint8Array): void {
+    const units = splitAnnexB(data);
+    const sps = units.find(nal => nalType(nal) === NAL_SPS);
+    const pps = units.filter(nal => nalType(nal) === NAL_PPS);
+    if (!sps || pps.length === 0) {
+      throw new InvalidArgumentError('H.264 configuration must contain SPS and PPS');
+    }
+
+    if (!this.config) {
+      this.config = { sps: Buffer.from(sps), pps: pps.map(p => Buffer.from(p)), ...parseSps(sps) };
+      return;
+    }
+    if (!this.config.sps.equals(sps) || !Buffer.concat(this.config.pps).equals(Buffer.concat(pps))) {
+      this.pendingConfig = [sps, ...pps];
+    }
+  }
+
+  /**
+   * One access unit as Annex-B; `pts` in microseconds
+   */
+  addFrame(data: Uint8Array, pts: bigint | number | undefined, keyframe?: boolean): void {
+    if (!this.config) return;
+
+    const units = splitAnnexB(data);
+    const isKeyframe = keyframe ?? units.some(nal => nalType(nal) === NAL_IDR);
+    if (this.samples.length === 0 && !isKeyframe) return;
+
+    const time = this.nextTime(pts);
+    const nals = units.filter(nal => {
+      const type = nalType(nal);
+      return type !== NAL_AUD && type !== NAL_SPS && type !== NAL_PPS;
+    });
+    if (isKeyframe && this.pendingConfig) {
+      nals.unshift(...this.pendingConfig);
+      this.pendingConfig = undefined;
+    }
+    if (nals.length === 0) return;
+
+    const sample = Buffer.concat(nals.flatMap(nal => [u32(nal.length), nal]));
+    this.samples.push({ data: sample, time, keyframe: isKeyframe });
+  }
+
+  /**
+   * Feed a packet from ScrcpyService / the stream protocol
+   */
+  addPacket(packet: StreamPacket): void {
+    if (packet.codec !== CODEC.H264) {
+      throw new UnsupportedError(`MP4 recording supports H.264 only (codec ${packet.codec})`);
+    }
+    if (packet.type === 'configuration') {
+      this.addConfiguration(packet.data);
+    } else {
+      this.addFrame(packet.data, packet.pts, packet.keyframe);
+    }
+  }
+
+  get sampleCount(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Duration so far in milliseconds
+   */
+  get durationMs(): number {
+    return Math.round((this.mediaDuration() * MOVIE_TIMESCALE) / MEDIA_TIMESCALE);
+  }
+
+  /**
+   * Write the file. Throws InvalidArgumentError if no keyframe was received.
+   */
+  finalize(): Buffer {
+    const config = this.config;
+    if (!config || this.samples.length === 0) {
+      throw new InvalidArgumentError('No H.264 frames were recorded');
+    }
+
+    const ftyp = box('ftyp',
+      Buffer.from('isom', 'latin1'), u32(0x200),
+      Buffer.from('isomiso2avc1mp41', 'latin1'));
+
+    // moov's size doesn't depend on the chunk offset value, so build it twice
+    const provisional = this.buildMoov(config, 0);
+    const mdatPayloadOffset = ftyp.length + provisional.length + 8;
+    const moov = this.buildMoov(config, mdatPayloadOffset);
+
+    const payload = this.samples.map(s => s.data);
+    const mdatSize = 8 + payload.reduce((sum, data) => sum + data.length, 0);
+    return Buffer.concat([ftyp, moov, u32(mdatSize), Buffer.from('mdat', 'latin1'), ...payload]);
+  }
+
+  private nextTime(pts: bigint | number | undefined): number {
+    const last = this.samples[this.samples.length - 1];
+    if (pts === undefined) {
+      return last ? last.time + this.frameTicks : 0;
+    }
+
+    const ticks = Math.round((Number(pts) * MEDIA_TIMESCALE) / 1_000_000);
+    if (this.lastPts !== undefined && last && ticks + this.ptsOffset <= last.time) {
+      // Encoder restarted: continue one frame after the last sample
+      this.ptsOffset = last.time + this.frameTicks - ticks;
+    } else if (this.lastPts === undefined) {
+      this.ptsOffset = -ticks;
+    }
+    this.lastPts = ticks;
+    return ticks + this.ptsOffset;
+  }
+
+  private sampleDuration(index: number): number {
+    const next = this.samples[index + 1];
+    return next ? next.time - this.samples[index].time : this.frameTicks;
+  }
+
+  private mediaDuration(): number {
+    if (this.samples.length === 0) return 0;
+    const last = this.samples.length - 1;
+    return this.samples[last].time - this.samples[0].time + this.sampleDuration(last);
+  }
+
+  private buildMoov(config: AvcConfig, chunkOffset: number): Buffer {
+    const width = this.options.width ?? config.width;
+    const height = this.options.height ?? config.height;
+    const mediaDuration = this.mediaDuration();
+    const movieDuration = Math.round((mediaDuration * MOVIE_TIMESCALE) / MEDIA_TIMESCALE);
+
+    const mvhd = fullBox('mvhd', 0, 0,
+      u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(movieDuration),
+      u32(0x00010000), u16(0x0100), Buffer.alloc(10),
+      UNITY_MATRIX, Buffer.alloc(24), u32(2));
+
+    const tkhd = fullBox('tkhd', 0, 0x3,
+      u32(0), u32(0), u32(1), u32(0), u32(movieDuration),
+      Buffer.alloc(8), u16(0), u16(0), u16(0), u16(0),
+      UNITY_MATRIX, u32(width << 16), u32(height << 16));
+
+    const mdhd = fullBox('mdhd', 0, 0,
+      u32(0), u32(0), u32(MEDIA_TIMESCALE), u32(mediaDuration),
+      u16(0x55c4), u16(0)); // language 'und'
+
+    const hdlr = fullBox('hdlr', 0, 0,
+      u32(0), Buffer.from('vide', 'latin1'), Buffer.alloc(12),
+      Buffer.from('VideoHandler\0', 'latin1'));
+
+    const vmhd = fullBox('vmhd', 0, 1, Buffer.alloc(8));
+    const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+
+    const stbl = box('stbl',
+      this.buildStsd(config, width, height),
+      this.buildStts(),
+      this.buildStss(),
+      fullBox('stsc', 0, 0, u32(1), u32(1), u32(this.samples.length), u32(1)),
+      fullBox('stsz', 0, 0, u32(0), u32(this.samples.length), ...this.samples.map(s => u32(s.data.length))),
+      fullBox('stco', 0, 0, u32(1), u32(chunkOffset)));
+
+    const minf = box('minf', vmhd, dinf, stbl);
+    const mdia = box('mdia', mdhd, hdlr, minf);
+    return box('moov', mvhd, box('trak', tkhd, mdia));
+  }
+
+  private buildStsd(config: AvcConfig, width: number, height: number): Buffer {
+    const avcCParts = [
+      u8(1), u8(config.sps[1]), u8(config.sps[2]), u8(config.sps[3]),
+      u8(0xff), // 4-byte NAL lengths
+      u8(0xe1), u16(config.sps.length), config.sps,
+      u8(config.pps.length), ...config.pps.flatMap(pps => [u16(pps.length), pps]),
+    ];
+    if (HIGH_PROFILES.has(config.profile)) {
+      avcCParts.push(
+        u8(0xfc | config.chromaFormat),
+        u8(0xf8 | (config.bitDepthLuma - 8)),
+        u8(0xf8 | (config.bitDepthChroma - 8)),
+        u8(0));
+    }
+
+    const compressorName = Buffer.alloc(32);
+    const avc1 = box('avc1',
+      Buffer.alloc(6), u16(1), // data_reference_index
+      Buffer.alloc(16),
+      u16(width), u16(height),
+      u32(0x00480000), u32(0x00480000), u32(0),
+      u16(1), compressorName, u16(0x0018), u16(0xffff),
+      box('avcC', ...avcCParts));
+
+    return fullBox('stsd', 0, 0, u32(1), avc1);
+  }
+
+  private buildStts(): Buffer {
+    const runs: Array<[count: number, delta: number]> = [];
+    for (let i = 0; i < this.samples.length; i++) {
+      const delta = this.sampleDuration(i);
+      const last = runs[runs.length - 1];
+      if (last && last[1] === delta) {
+        last[0]++;
+      } else {
+        runs.push([1, delta]);
+      }
+    }
+    return fullBox('stts', 0, 0, u32(runs.length), ...runs.flatMap(([count, delta]) => [u32(count), u32(delta)]));
+  }
+
+  private buildStss(): Buffer {
+    const keyframes: number[] = [];
+    this.samples.forEach((sample, index) => {
+      if (sample.keyframe) keyframes.push(index + 1);
+    });
+    return fullBox('stss', 0, 0, u32(keyframes.length), ...keyframes.map(u32));
+  }
+}
@@ -1,99 +1,357 @@
 /**
- * Simple async mutex implementation for thread-safety
- * Prevents race conditions in concurrent operations
+ * Async locks for thread-safety
+ * Prevents race conditions in concurrent operations. Waiters are served FIFO,
+ * can give up via timeout/AbortSignal, and every lock can report who holds it.
  */
-export class AsyncMutex {
-  private locked = false;
-  private waitQueue: Array<() => void> = [];
+
+import { CallOptions } from './types';
+import { createCallScope } from './cancellation';
+
+export type LockMode = 'read' | 'write';
+
+export interface LockOptions extends CallOptions {
+  /** Label shown in diagnostics (e.g. the operation name) */
+  owner?: string;
+}
+
+export interface LockHolderInfo {
+  mode: LockMode;
+  owner?: string;
+  acquiredAt: number;
+  heldMs: number;
+}
+
+export interface LockWaiterInfo {
+  mode: LockMode;
+  owner?: string;
+  enqueuedAt: number;
+  waitingMs: number;
+}
+
+export interface LockDiagnostics {
+  name?: string;
+  locked: boolean;
+  holders: LockHolderInfo[];
+  /** In the order they will be served */
+  waiters: LockWaiterInfo[];
+}
+
+interface Holder {
+  mode: LockMode;
+  owner?: string;
+  acquiredAt: number;
+}
+
+interface Waiter {
+  mode: LockMode;
+  owner?: string;
+  enqueuedAt: number;
+  grant: () => void;
+}
+
+/**
+ * Reader/writer lock
+ * Any number of readers may hold it together; a writer holds it alone.
+ * Strict FIFO: a queued writer blocks readers that arrive after it, so
+ * writers are never starved by a steady stream of reads.
+ */
+export class AsyncRWLock {
+  private holders: Set<Holder> = new Set();
+  private waitQueue: Waiter[] = [];
+  private idleListener?: () => void;
+
+  constructor(readonly name?: string) {}
 
   /**
-   * Acquire the lock
-   * Waits if lock is already held by another operation
+   * Acquire a shared lock. Resolves with its release function.
+   * Rejects with DeviceTimeoutError / CancelledError if `timeoutMs` or `signal`
+   * fires first.
+   */
+  acquireRead(options?: LockOptions): Promise<() => void> {
+    return this.enqueue('read', options);
+  }
+
+  /**
+   * Acquire the exclusive lock. Resolves with its release function.
    */
-  async acquire(): Promise<void> {
-    return new Promise((resolve) => {
-      if (!this.locked) {
-        this.locked = true;
-        resolve();
-      } else {
-        this.waitQueue.push(resolve);
+  acquireWrite(options?: LockOptions): Promise<() => void> {
+    return this.enqueue('write', options);
+  }
+
+  async withReadLock<T>(fn: () => Promise<T>, options?: LockOptions): Promise<T> {
+    const release = await this.acquireRead(options);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  async withWriteLock<T>(fn: () => Promise<T>, options?: LockOptions): Promise<T> {
+    const release = await this.acquireWrite(options);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Check if lock is currently held (in either mode)
+   */
+  isLocked(): boolean {
+    return this.holders.size > 0;
+  }
+
+  /**
+   * Neither held nor waited on
+   */
+  isIdle(): boolean {
+    return this.holders.size === 0 && this.waitQueue.length === 0;
+  }
+
+  /**
+   * Snapshot of current holders and queued waiters
+   */
+  getDiagnostics(): LockDiagnostics {
+    const now = Date.now();
+    return {
+      name: this.name,
+      locked: this.isLocked(),
+      holders: [...this.holders].map(h => ({
+        mode: h.mode,
+        owner: h.owner,
+        acquiredAt: h.acquiredAt,
+        heldMs: now - h.acquiredAt,
+      })),
+      waiters: this.waitQueue.map(w => ({
+        mode: w.mode,
+        owner: w.owner,
+        enqueuedAt: w.enqueuedAt,
+        waitingMs: now - w.enqueuedAt,
+      })),
+    };
+  }
+
+  /**
+   * Called whenever the lock becomes idle (used by DeviceMutexManager)
+   */
+  onIdle(listener: (() => void) | undefined): void {
+    this.idleListener = listener;
+  }
+
+  private hasWriter(): boolean {
+    for (const holder of this.holders) {
+      if (holder.mode === 'write') return true;
+    }
+    return false;
+  }
+
+  private canGrant(mode: LockMode): boolean {
+    return mode === 'write' ? this.holders.size === 0 : !this.hasWriter();
+  }
+
+  private enqueue(mode: LockMode, options?: LockOptions): Promise<() => void> {
+    const owner = options?.owner;
+
+    if (this.waitQueue.length === 0 && this.canGrant(mode) && !options?.signal?.aborted) {
+      return Promise.resolve(this.hold(mode, owner));
+    }
+
+    const scope = createCallScope(options, `Acquiring ${mode} lock${this.name ? ` for ${this.name}` : ''}`, {
+      serial: this.name,
+    });
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        mode,
+        owner,
+        enqueuedAt: Date.now(),
+        grant: () => {
+          scope.signal?.removeEventListener('abort', onAbort);
+          scope.dispose();
+          resolve(this.hold(mode, owner));
+        },
+      };
+
+      const onAbort = () => {
+        scope.dispose();
+        const index = this.waitQueue.indexOf(waiter);
+        if (index !== -1) {
+          this.waitQueue.splice(index, 1);
+          // A writer leaving the head may unblock the readers behind it
+          this.drain();
+        }
+        reject(scope.signal!.reason);
+      };
+
+      if (scope.signal?.aborted) {
+        onAbort();
+        return;
       }
+      scope.signal?.addEventListener('abort', onAbort, { once: true });
+      this.waitQueue.push(waiter);
     });
   }
 
+  private hold(mode: LockMode, owner?: string): () => void {
+    const holder: Holder = { mode, owner, acquiredAt: Date.now() };
+    this.holders.add(holder);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.holders.delete(holder);
+      this.drain();
+    };
+  }
+
+  /**
+   * Grant from the head of the queue while possible
+   */
+  private drain(): void {
+    while (this.waitQueue.length > 0 && this.canGrant(this.waitQueue[0].mode)) {
+      this.waitQueue.shift()!.grant();
+    }
+    if (this.isIdle()) {
+      this.idleListener?.();
+    }
+  }
+}
+
+/**
+ * Exclusive async mutex
+ * An AsyncRWLock whose acquire()/release() take the write side, so the same
+ * instance can also hand out shared read locks.
+ */
+export class AsyncMutex extends AsyncRWLock {
+  private exclusiveRelease?: () => void;
+
+  /**
+   * Acquire the lock
+   * Waits if lock is already held by another operation
+   */
+  async acquire(options?: LockOptions): Promise<void> {
+    this.exclusiveRelease = await this.acquireWrite(options);
+  }
+
   /**
    * Release the lock
    * Allows next waiting operation to proceed
    */
   release(): void {
-    if (!this.locked) {
+    const release = this.exclusiveRelease;
+    if (!release) {
       throw new Error('AsyncMutex: release() called without a matching acquire()');
     }
-    const nextResolve = this.waitQueue.shift();
-    if (nextResolve) {
-      nextResolve();
-    } else {
-      this.locked = false;
-    }
+    this.exclusiveRelease = undefined;
+    release();
   }
 
   /**
    * Execute a function with the lock held
    * Automatically releases the lock when done
    */
-  async withLock<T>(fn: () => Promise<T>): Promise<T> {
-    await this.acquire();
-    try {
-      return await fn();
-    } finally {
-      this.release();
-    }
+  async withLock<T>(fn: () => Promise<T>, options?: LockOptions): Promise<T> {
+    return this.withWriteLock(fn, options);
   }
+}
 
-  /**
-   * Check if lock is currently held
-   */
-  isLocked(): boolean {
-    return this.locked;
-  }
+export interface DeviceMutexManagerOptions {
+  /** Drop a device's mutex after it has been idle this long (default 60s, 0 disables) */
+  idleTimeoutMs?: number;
+  /** Applied to every acquire that doesn't set its own timeoutMs */
+  acquireTimeoutMs?: number;
 }
 
+const DEFAULT_IDLE_TIMEOUT_MS = 60_000;
+
 /**
  * Per-device mutex manager
  * Creates separate mutexes for each device to allow parallel operations across devices
  */
 export class DeviceMutexManager {
   private mutexes: Map<string, AsyncMutex> = new Map();
+  private idleTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private pendingRemoval: Set<string> = new Set();
+  private idleTimeoutMs: number;
+  private acquireTimeoutMs?: number;
+
+  constructor(options: DeviceMutexManagerOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.acquireTimeoutMs = options.acquireTimeoutMs;
+  }
 
   /**
    * Get or create mutex for a specific device
    */
   getMutex(deviceId: string): AsyncMutex {
+    this.cancelIdleTimer(deviceId);
+    this.pendingRemoval.delete(deviceId);
+
     let mutex = this.mutexes.get(deviceId);
     if (!mutex) {
-      mutex = new AsyncMutex();
+      mutex = new AsyncMutex(deviceId);
+      mutex.onIdle(() => this.handleIdle(deviceId));
       this.mutexes.set(deviceId, mutex);
     }
     return mutex;
   }
 
   /**
-   * Execute a function with device-specific lock
+   * Execute a function with the device's exclusive lock (input actions, connect)
+   */
+  async withDeviceLock<T>(deviceId: string, fn: () => Promise<T>, options?: LockOptions): Promise<T> {
+    const mutex = this.getMutex(deviceId);
+    return mutex.withWriteLock(fn, this.withDefaults(options));
+  }
+
+  /**
+   * Execute a function with a shared lock (screenshots, state reads).
+   * Overlaps with other readers, never with withDeviceLock.
    */
-  async withDeviceLock<T>(deviceId: string, fn: () => Promise<T>): Promise<T> {
+  async withDeviceReadLock<T>(deviceId: string, fn: () => Promise<T>, options?: LockOptions): Promise<T> {
     const mutex = this.getMutex(deviceId);
-    return mutex.withLock(fn);
+    return mutex.withReadLock(fn, this.withDefaults(options));
   }
 
   /**
-   * Clean up mutex for a device (when device is removed)
+   * Clean up mutex for a device (when device is removed).
+   * A busy mutex is removed as soon as it goes idle; returns false in that case.
    */
-  removeMutex(deviceId: string): void {
+  removeMutex(deviceId: string): boolean {
     const mutex = this.mutexes.get(deviceId);
-    if (mutex?.isLocked()) {
-      throw new Error(`Cannot remove mutex for device ${deviceId}: lock is currently held`);
+    if (mutex && !mutex.isIdle()) {
+      this.pendingRemoval.add(deviceId);
+      return false;
     }
-    this.mutexes.delete(deviceId);
+    this.delete(deviceId);
+    return true;
+  }
+
+  /**
+   * Holder/waiter snapshot for every device, keyed by device id
+   */
+  getDiagnostics(): Record<string, LockDiagnostics> {
+    const diagnostics: Record<string, LockDiagnostics> = {};
+    for (const [deviceId, mutex] of this.mutexes) {
+      diagnostics[deviceId] = mutex.getDiagnostics();
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Drop every idle mutex and cancel pending timers
+   */
+  dispose(): void {
+    for (const deviceId of [...this.mutexes.keys()]) {
+      this.removeMutex(deviceId);
+    }
+    for (const timer of this.idleTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.idleTimers.clear();
   }
 
   /**
@@ -102,4 +360,42 @@ export class DeviceMutexManager {
   get size(): number {
     return this.mutexes.size;
   }
+
+  private withDefaults(options?: LockOptions): LockOptions | undefined {
+    if (this.acquireTimeoutMs === undefined || options?.timeoutMs !== undefined) return options;
+    return { ...options, timeoutMs: this.acquireTimeoutMs };
+  }
+
+  private handleIdle(deviceId: string): void {
+    if (this.pendingRemoval.has(deviceId)) {
+      this.delete(deviceId);
+      return;
+    }
+    if (this.idleTimeoutMs <= 0) return;
+
+    this.cancelIdleTimer(deviceId);
+    const timer = setTimeout(() => {
+      this.idleTimers.delete(deviceId);
+      if (this.mutexes.get(deviceId)?.isIdle()) {
+        this.delete(deviceId);
+      }
+    }, this.idleTimeoutMs);
+    timer.unref?.();
+    this.idleTimers.set(deviceId, timer);
+  }
+
+  private cancelIdleTimer(deviceId: string): void {
+    const timer = this.idleTimers.get(deviceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(deviceId);
+    }
+  }
+
+  private delete(deviceId: string): void {
+    this.cancelIdleTimer(deviceId);
+    this.pendingRemoval.delete(deviceId);
+    this.mutexes.get(deviceId)?.onIdle(undefined);
+    this.mutexes.delete(deviceId);
+  }
 }
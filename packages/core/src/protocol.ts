@@ -3,6 +3,8 @@
  * Standardized across all device streaming packages
  */
 
+import { InvalidArgumentError } from './errors';
+
 /**
  * Codec identifier values
  */
@@ -37,6 +39,78 @@ export const MESSAGE_TYPE = {
   CONFIGURATION: 'configuration',
 } as const;
 
+/**
+ * Wire format negotiated per viewer
+ * - json: every message is a JSON text frame (media payloads base64-encoded)
+ * - binary: control messages stay JSON text frames, media goes out as binary frames
+ */
+export type StreamFormat = 'json' | 'binary';
+
+/**
+ * WebSocket subprotocol a viewer offers to opt into binary media frames
+ */
+export const BINARY_SUBPROTOCOL = 'device-stream.binary.v1';
+
+/**
+ * Version byte written at the start of every binary frame
+ */
+export const BINARY_PROTOCOL_VERSION = 1;
+
+/**
+ * Size of the binary frame header in bytes
+ *
+ * Layout (big-endian):
+ *   0      u8   protocol version
+ *   1      u8   frame type (BINARY_FRAME_TYPE)
+ *   2      u8   codec (CODEC)
+ *   3      u8   flags (BINARY_FLAG)
+ *   4..11  u64  pts
+ *   12..   raw payload (H.264 NAL units or JPEG bytes)
+ */
+export const BINARY_HEADER_SIZE = 12;
+
+/**
+ * Frame type identifiers used in the binary header
+ */
+export const BINARY_FRAME_TYPE = {
+  CONFIGURATION: 0,
+  DATA: 1,
+  FRAME: 2,
+} as const;
+
+/**
+ * Flag bits used in the binary header
+ */
+export const BINARY_FLAG = {
+  KEYFRAME: 0x01,
+} as const;
+
+/**
+ * A media packet before it is encoded for a specific viewer
+ * - configuration: H.264 SPS/PPS
+ * - data: H.264 NAL units
+ * - frame: a complete JPEG image
+ */
+export interface StreamPacket {
+  type: 'configuration' | 'data' | 'frame';
+  codec: 0 | 1 | 2;
+  data: Uint8Array;
+  keyframe?: boolean;
+  pts?: bigint | number;
+}
+
+/**
+ * A decoded binary frame
+ */
+export interface BinaryFrame {
+  version: number;
+  type: StreamPacket['type'];
+  codec: 0 | 1 | 2;
+  keyframe: boolean;
+  pts: bigint;
+  payload: Uint8Array;
+}
+
 /**
  * Metadata message sent when stream starts
  */
@@ -69,6 +143,14 @@ export interface DataMessage {
   pts: string;  // BigInt as string
 }
 
+/**
+ * Configuration message for H.264 streams (SPS/PPS)
+ */
+export interface ConfigurationMessage {
+  type: 'configuration';
+  data: string;  // Base64 encoded bytes
+}
+
 /**
  * Device disconnected message
  */
@@ -138,3 +220,127 @@ export function createDataMessage(
     pts: pts.toString(),
   };
 }
+
+/**
+ * Create a configuration message for H.264
+ */
+export function createConfigurationMessage(data: Uint8Array): ConfigurationMessage {
+  return {
+    type: 'configuration',
+    data: Buffer.from(data).toString('base64'),
+  };
+}
+
+const BINARY_FRAME_TYPE_BY_NAME: Record<StreamPacket['type'], number> = {
+  configuration: BINARY_FRAME_TYPE.CONFIGURATION,
+  data: BINARY_FRAME_TYPE.DATA,
+  frame: BINARY_FRAME_TYPE.FRAME,
+};
+
+const BINARY_FRAME_TYPE_NAME = ['configuration', 'data', 'frame'] as const;
+
+const MAX_PTS = (1n << 64n) - 1n;
+
+/**
+ * Coerce a packet pts to the unsigned 64-bit wire value. Negative values
+ * (B-frames, edit lists) clamp to 0 and fractional ones are floored; NaN,
+ * Infinity and values past u64 throw InvalidArgumentError.
+ */
+function toWirePts(pts: bigint | number | undefined): bigint {
+  if (pts === undefined) return 0n;
+  if (typeof pts === 'number') {
+    if (!Number.isFinite(pts)) {
+      throw new InvalidArgumentError(`Invalid pts: ${pts}`);
+    }
+    pts = BigInt(Math.floor(pts));
+  }
+  if (pts < 0n) return 0n;
+  if (pts > MAX_PTS) {
+    throw new InvalidArgumentError(`pts out of range: ${pts}`);
+  }
+  return pts;
+}
+
+/**
+ * Encode a media packet into a binary frame (header + raw payload)
+ */
+export function encodeBinaryFrame(packet: StreamPacket): Buffer {
+  const frame = Buffer.allocUnsafe(BINARY_HEADER_SIZE + packet.data.byteLength);
+  frame.writeUInt8(BINARY_PROTOCOL_VERSION, 0);
+  frame.writeUInt8(BINARY_FRAME_TYPE_BY_NAME[packet.type], 1);
+  frame.writeUInt8(packet.codec, 2);
+  frame.writeUInt8(packet.keyframe ? BINARY_FLAG.KEYFRAME : 0, 3);
+  frame.writeBigUInt64BE(toWirePts(packet.pts), 4);
+  frame.set(packet.data, BINARY_HEADER_SIZE);
+  return frame;
+}
+
+/**
+ * Decode a binary frame produced by encodeBinaryFrame
+ */
+export function decodeBinaryFrame(data: Uint8Array): BinaryFrame {
+  if (data.byteLength < BINARY_HEADER_SIZE) {
+    throw new Error(`Binary frame too short: ${data.byteLength} bytes`);
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint8(0);
+  if (version !== BINARY_PROTOCOL_VERSION) {
+    throw new Error(`Unsupported binary frame version: ${version}`);
+  }
+
+  const type = BINARY_FRAME_TYPE_NAME[view.getUint8(1)];
+  if (!type) {
+    throw new Error(`Unknown binary frame type: ${view.getUint8(1)}`);
+  }
+
+  return {
+    version,
+    type,
+    codec: view.getUint8(2) as 0 | 1 | 2,
+    keyframe: (view.getUint8(3) & BINARY_FLAG.KEYFRAME) !== 0,
+    pts: view.getBigUint64(4),
+    payload: data.subarray(BINARY_HEADER_SIZE),
+  };
+}
+
+/**
+ * Encode a media packet for a viewer in the given format.
+ * JSON output matches the legacy frame/data/configuration messages.
+ */
+export function encodeStreamPacket(packet: StreamPacket, format: StreamFormat): string | Buffer {
+  if (format === 'binary') {
+    return encodeBinaryFrame(packet);
+  }
+
+  switch (packet.type) {
+    case 'configuration':
+      return JSON.stringify(createConfigurationMessage(packet.data));
+    case 'frame':
+      return JSON.stringify(createFrameMessage(
+        Buffer.from(packet.data).toString('base64'),
+        Number(toWirePts(packet.pts)),
+      ));
+    case 'data':
+      return JSON.stringify(createDataMessage(
+        packet.data,
+        packet.keyframe ?? false,
+        toWirePts(packet.pts),
+      ));
+  }
+}
+
+/**
+ * Pick the wire format for a viewer.
+ * Binary is used when the viewer negotiated BINARY_SUBPROTOCOL or asked for
+ * `format=binary`; everything else falls back to JSON for older clients.
+ */
+export function negotiateStreamFormat(
+  subprotocol?: string,
+  requestedFormat?: string | null
+): StreamFormat {
+  if (subprotocol === BINARY_SUBPROTOCOL || requestedFormat === 'binary') {
+    return 'binary';
+  }
+  return 'json';
+}
@@ -0,0 +1,398 @@
+/**
+ * Offline playback of a SessionTrace.
+ * Actions must arrive in the recorded order; reads (getDeviceState,
+ * screenshot, ...) are answered from the recorded results and snapshots,
+ * so a bug report from an agent run reproduces without the device.
+ */
+
+import {
+  Device,
+  VideoStreamMetadata,
+  ScrollDirection,
+  AccessibilityNode,
+  DeviceStateSnapshot,
+  AppInfo,
+  PlatformCapability,
+  AppearanceMode,
+  CallOptions,
+  PointerSequence,
+  KeyInput,
+  LogFilter,
+} from './types';
+import { BaseDeviceService } from './interfaces';
+import { ReplayDivergenceError } from './errors';
+import { InterceptableMethod } from './interceptors';
+import { LogStream } from './log-stream';
+import {
+  SessionTrace,
+  TraceCall,
+  decodeTraceError,
+  decodeTraceValue,
+  encodeTraceValue,
+  isTraceAction,
+  traceArgsKey,
+} from './trace';
+
+export interface ReplayDeviceServiceOptions {
+  /**
+   * Throw ReplayDivergenceError on a call the trace doesn't contain
+   * (default true). When false the call is a no-op that resolves undefined,
+   * and the divergence is only reported.
+   */
+  strict?: boolean;
+  /** Called for every divergence, strict or not */
+  onDivergence?: (divergence: ReplayDivergenceError) => void;
+}
+
+/** Session plumbing that may be issued more or less often than recorded */
+const LIFECYCLE_METHODS: ReadonlySet<InterceptableMethod> = new Set([
+  'connect',
+  'disconnect',
+  'stopMirroring',
+  'stopLogStream',
+]);
+
+function describeCall(method: string, encodedArgs: unknown[]): string {
+  const key = traceArgsKey(encodedArgs);
+  return `${method}(${key.slice(1, -1)})`;
+}
+
+/**
+ * DeviceService that answers from a recorded trace.
+ * Reads issued more or fewer times than recorded are fine: they are served
+ * from the state after the most recent replayed action. Only actions (see
+ * TRACE_ACTION_METHODS) and reads with nothing recorded to answer from
+ * diverge.
+ */
+export class ReplayDeviceService extends BaseDeviceService {
+  private trace: SessionTrace;
+  private strict: boolean;
+  private onDivergence?: (divergence: ReplayDivergenceError) => void;
+  private cursor = 0;
+  private states: Map<string, DeviceStateSnapshot> = new Map();
+  private divergences: ReplayDivergenceError[] = [];
+
+  constructor(trace: SessionTrace, options: ReplayDeviceServiceOptions = {}) {
+    super(trace.platform ?? 'android');
+    this.trace = trace;
+    this.strict = options.strict ?? true;
+    this.onDivergence = options.onDivergence;
+  }
+
+  // ─── Replay-specific helpers ───
+
+  /**
+   * Recorded actions not replayed yet
+   */
+  getRemainingActions(): TraceCall[] {
+    return this.trace.calls.slice(this.cursor).filter(call => isTraceAction(call.method));
+  }
+
+  /**
+   * Whether every recorded action has been replayed
+   */
+  isComplete(): boolean {
+    return this.getRemainingActions().length === 0;
+  }
+
+  getDivergences(): ReplayDivergenceError[] {
+    return [...this.divergences];
+  }
+
+  /**
+   * Rewind to the start of the trace
+   */
+  reset(): void {
+    this.cursor = 0;
+    this.states.clear();
+    this.divergences = [];
+    this.connections.clear();
+  }
+
+  // ─── DeviceService ───
+
+  getCapabilities(): PlatformCapability[] {
+    return [...(this.trace.capabilities ?? [])];
+  }
+
+  listDevices(options?: CallOptions): Promise<Device[]> {
+    return this.replay('listDevices', [options]);
+  }
+
+  async connect(serial: string, options?: CallOptions): Promise<void> {
+    await this.replay('connect', [serial, options]);
+    this.markConnected(serial);
+  }
+
+  async disconnect(serial: string, options?: CallOptions): Promise<void> {
+    await this.replay('disconnect', [serial, options]);
+    this.markDisconnected(serial);
+  }
+
+  tap(serial: string, x: number, y: number, options?: CallOptions): Promise<void> {
+    return this.replay('tap', [serial, x, y, options]);
+  }
+
+  typeText(serial: string, text: string, options?: CallOptions): Promise<void> {
+    return this.replay('typeText', [serial, text, options]);
+  }
+
+  pressKey(serial: string, key: KeyInput, options?: CallOptions): Promise<void> {
+    return this.replay('pressKey', [serial, key, options]);
+  }
+
+  screenshot(serial: string, options?: CallOptions): Promise<Buffer> {
+    return this.replay('screenshot', [serial, options]);
+  }
+
+  swipe(
+    serial: string,
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    duration?: number,
+    options?: CallOptions
+  ): Promise<void> {
+    return this.replay('swipe', [serial, startX, startY, endX, endY, duration, options]);
+  }
+
+  scroll(serial: string, direction: ScrollDirection, distance?: number, options?: CallOptions): Promise<void> {
+    return this.replay('scroll', [serial, direction, distance, options]);
+  }
+
+  startMirroring(serial: string, options?: CallOptions): Promise<VideoStreamMetadata> {
+    return this.replay('startMirroring', [serial, options]);
+  }
+
+  stopMirroring(serial: string, options?: CallOptions): Promise<void> {
+    return this.replay('stopMirroring', [serial, options]);
+  }
+
+  getAccessibilityTree(serial: string, maxElements?: number, options?: CallOptions): Promise<AccessibilityNode[]> {
+    return this.replay('getAccessibilityTree', [serial, maxElements, options]);
+  }
+
+  getDeviceState(serial: string, options?: CallOptions): Promise<DeviceStateSnapshot> {
+    return this.replay('getDeviceState', [serial, options]);
+  }
+
+  launchApp(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    return this.replay('launchApp', [serial, appId, options]);
+  }
+
+  terminateApp(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    return this.replay('terminateApp', [serial, appId, options]);
+  }
+
+  installApp(serial: string, path: string, options?: CallOptions): Promise<void> {
+    return this.replay('installApp', [serial, path, options]);
+  }
+
+  uninstallApp(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    return this.replay('uninstallApp', [serial, appId, options]);
+  }
+
+  listInstalledApps(serial: string, options?: CallOptions): Promise<AppInfo[]> {
+    return this.replay('listInstalledApps', [serial, options]);
+  }
+
+  clearAppData(serial: string, appId: string, options?: CallOptions): Promise<void> {
+    return this.replay('clearAppData', [serial, appId, options]);
+  }
+
+  openDeepLink(serial: string, url: string, options?: CallOptions): Promise<void> {
+    return this.replay('openDeepLink', [serial, url, options]);
+  }
+
+  back(serial: string, options?: CallOptions): Promise<void> {
+    return this.replay('back', [serial, options]);
+  }
+
+  longPress(serial: string, x: number, y: number, duration?: number, options?: CallOptions): Promise<void> {
+    return this.replay('longPress', [serial, x, y, duration, options]);
+  }
+
+  performGestures(serial: string, pointers: PointerSequence[], options?: CallOptions): Promise<void> {
+    return this.replay('performGestures', [serial, pointers, options]);
+  }
+
+  setLocation(serial: string, lat: number, lng: number, options?: CallOptions): Promise<void> {
+    return this.replay('setLocation', [serial, lat, lng, options]);
+  }
+
+  clearLocation(serial: string, options?: CallOptions): Promise<void> {
+    return this.replay('clearLocation', [serial, options]);
+  }
+
+  setAppearance(serial: string, mode: AppearanceMode, options?: CallOptions): Promise<void> {
+    return this.replay('setAppearance', [serial, mode, options]);
+  }
+
+  getAppearance(serial: string, options?: CallOptions): Promise<AppearanceMode> {
+    return this.replay('getAppearance', [serial, options]);
+  }
+
+  setLocale(serial: string, locale: string, options?: CallOptions): Promise<void> {
+    return this.replay('setLocale', [serial, locale, options]);
+  }
+
+  grantPermission(serial: string, appId: string, permission: string, options?: CallOptions): Promise<void> {
+    return this.replay('grantPermission', [serial, appId, permission, options]);
+  }
+
+  revokePermission(serial: string, appId: string, permission: string, options?: CallOptions): Promise<void> {
+    return this.replay('revokePermission', [serial, appId, permission, options]);
+  }
+
+  getClipboard(serial: string, options?: CallOptions): Promise<string> {
+    return this.replay('getClipboard', [serial, options]);
+  }
+
+  setClipboard(serial: string, text: string, options?: CallOptions): Promise<void> {
+    return this.replay('setClipboard', [serial, text, options]);
+  }
+
+  addMedia(serial: string, path: string, options?: CallOptions): Promise<void> {
+    return this.replay('addMedia', [serial, path, options]);
+  }
+
+  /**
+   * Logs aren't part of traces: resolves with an already-ended stream
+   */
+  async startLogStream(serial: string, filter?: string | LogFilter, options?: CallOptions): Promise<LogStream> {
+    await this.replay('startLogStream', [serial, filter, options]);
+    const stream = new LogStream(serial);
+    stream.end();
+    return stream;
+  }
+
+  stopLogStream(serial: string, options?: CallOptions): Promise<void> {
+    return this.replay('stopLogStream', [serial, options]);
+  }
+
+  startRecording(serial: string, options?: CallOptions): Promise<void> {
+    return this.replay('startRecording', [serial, options]);
+  }
+
+  stopRecording(serial: string, options?: CallOptions): Promise<Buffer> {
+    return this.replay('stopRecording', [serial, options]);
+  }
+
+  // ─── Internals ───
+
+  private async replay<T>(method: InterceptableMethod, args: unknown[]): Promise<T> {
+    const serial = method === 'listDevices' ? undefined : (args[0] as string);
+    const encodedArgs = args.map(encodeTraceValue);
+    const nextAction = this.findNextAction();
+
+    if (isTraceAction(method)) {
+      const expected = nextAction === undefined ? undefined : this.trace.calls[nextAction];
+      if (!expected || expected.method !== method || expected.serial !== serial
+        || traceArgsKey(expected.args) !== traceArgsKey(encodedArgs)) {
+        return this.diverge(method, encodedArgs, serial, expected);
+      }
+      this.cursor = expected.index + 1;
+      if (serial !== undefined) {
+        if (expected.stateAfter) {
+          this.states.set(serial, expected.stateAfter);
+        } else {
+          this.states.delete(serial);
+        }
+      }
+      return this.outcome<T>(expected);
+    }
+
+    // Reads: consume the next matching recorded read before the next action
+    const end = nextAction ?? this.trace.calls.length;
+    for (let i = this.cursor; i < end; i++) {
+      const call = this.trace.calls[i];
+      if (call.method === method && call.serial === serial) {
+        this.cursor = i + 1;
+        if (method === 'getDeviceState' && serial !== undefined && !call.error) {
+          this.states.set(serial, decodeTraceValue(call.result) as DeviceStateSnapshot);
+        }
+        return this.outcome<T>(call);
+      }
+    }
+
+    const fallback = this.fallback(method, serial);
+    if (fallback.found) return fallback.value as T;
+    if (LIFECYCLE_METHODS.has(method)) return undefined as T;
+    return this.diverge(method, encodedArgs, serial, undefined);
+  }
+
+  private findNextAction(): number | undefined {
+    for (let i = this.cursor; i < this.trace.calls.length; i++) {
+      if (isTraceAction(this.trace.calls[i].method)) return i;
+    }
+    return undefined;
+  }
+
+  private outcome<T>(call: TraceCall): T {
+    if (call.error) {
+      throw decodeTraceError(call.error, call.serial, this.platform);
+    }
+    return decodeTraceValue(call.result) as T;
+  }
+
+  /**
+   * Answer a read that wasn't recorded at this point from the current state,
+   * else from the nearest recorded result of the same method
+   */
+  private fallback(method: InterceptableMethod, serial: string | undefined): { found: boolean; value?: unknown } {
+    const state = serial === undefined ? undefined : this.currentState(serial);
+    if (state) {
+      switch (method) {
+        case 'getDeviceState':
+          return { found: true, value: structuredClone(state) };
+        case 'getAccessibilityTree':
+          return { found: true, value: structuredClone(state.tree) };
+        case 'screenshot':
+          if (state.screenshot) return { found: true, value: Buffer.from(state.screenshot, 'base64') };
+          break;
+      }
+    }
+
+    const calls = this.trace.calls;
+    const nearest = [
+      ...calls.slice(0, this.cursor).reverse(),
+      ...calls.slice(this.cursor),
+    ].find(call => call.method === method && call.serial === serial && !call.error);
+    return nearest ? { found: true, value: decodeTraceValue(nearest.result) } : { found: false };
+  }
+
+  /**
+   * State after the last replayed action, else the state the next action
+   * saw before it ran
+   */
+  private currentState(serial: string): DeviceStateSnapshot | undefined {
+    const known = this.states.get(serial);
+    if (known) return known;
+    return this.trace.calls
+      .slice(this.cursor)
+      .find(call => call.serial === serial && call.stateBefore)?.stateBefore;
+  }
+
+  private diverge<T>(
+    method: InterceptableMethod,
+    encodedArgs: unknown[],
+    serial: string | undefined,
+    expected: TraceCall | undefined,
+  ): T {
+    const actual = describeCall(method, encodedArgs);
+    const wanted = expected ? describeCall(expected.method, expected.args) : undefined;
+    const divergence = new ReplayDivergenceError(
+      wanted
+        ? `Replay diverged at call ${expected!.index}: expected ${wanted}, got ${actual}`
+        : `Replay diverged: trace has no ${isTraceAction(method) ? 'further actions' : 'recorded result'} for ${actual}`,
+      { index: expected?.index ?? this.cursor, expected: wanted, actual },
+      { serial, platform: this.platform },
+    );
+
+    this.divergences.push(divergence);
+    this.onDivergence?.(divergence);
+    if (this.strict) throw divergence;
+    return undefined as T;
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * Session traces: every DeviceService call of a session (method, args,
+ * timing, outcome) plus the device state around each action, in one
+ * JSON-portable document. Recorded by TraceRecorder, replayed offline by
+ * ReplayDeviceService.
+ */
+
+import { createHash } from 'crypto';
+import {
+  DevicePlatform,
+  DeviceStateSnapshot,
+  PlatformCapability,
+} from './types';
+import { DeviceError, DeviceErrorCode, InvalidArgumentError } from './errors';
+import { DeviceInterceptor, InterceptableMethod, InvocationContext } from './interceptors';
+
+export const TRACE_FORMAT_VERSION = 1;
+
+/**
+ * Methods that change the device. Their order must match on replay, and the
+ * recorder captures device state before and after each one.
+ */
+export const TRACE_ACTION_METHODS = [
+  'tap',
+  'typeText',
+  'pressKey',
+  'swipe',
+  'scroll',
+  'back',
+  'longPress',
+  'performGestures',
+  'launchApp',
+  'terminateApp',
+  'installApp',
+  'uninstallApp',
+  'clearAppData',
+  'openDeepLink',
+  'setLocation',
+  'clearLocation',
+  'setAppearance',
+  'setLocale',
+  'grantPermission',
+  'revokePermission',
+  'setClipboard',
+  'addMedia',
+] as const satisfies readonly InterceptableMethod[];
+
+const ACTION_SET: ReadonlySet<string> = new Set(TRACE_ACTION_METHODS);
+
+export function isTraceAction(method: string): boolean {
+  return ACTION_SET.has(method);
+}
+
+/**
+ * A thrown error, reduced to what survives JSON
+ */
+export interface TraceError {
+  name: string;
+  message: string;
+  code?: DeviceErrorCode;
+  retryable?: boolean;
+}
+
+export interface TraceCall {
+  /** Position in the trace, from 0 */
+  index: number;
+  method: InterceptableMethod;
+  serial?: string;
+  /** Encoded with encodeTraceValue; AbortSignals are dropped */
+  args: unknown[];
+  /** ms since the trace started */
+  at: number;
+  durationMs: number;
+  /** Encoded return value (absent for void and on error) */
+  result?: unknown;
+  error?: TraceError;
+  /** Actions only, when state capture is on */
+  stateBefore?: DeviceStateSnapshot;
+  stateAfter?: DeviceStateSnapshot;
+}
+
+export interface SessionTrace {
+  version: typeof TRACE_FORMAT_VERSION;
+  /** ISO timestamp of the first call */
+  startedAt: string;
+  platform?: DevicePlatform;
+  capabilities?: PlatformCapability[];
+  /** Free-form labels (run id, app version, ...) */
+  metadata?: Record<string, unknown>;
+  calls: TraceCall[];
+}
+
+// ─── Value encoding ───
+
+/**
+ * Tagged forms for values JSON can't carry. Anything else that isn't plain
+ * data (class instances, functions) is recorded as `opaque`.
+ */
+type EncodedValue =
+  | { $trace: 'bytes'; base64: string }
+  | { $trace: 'bigint'; value: string }
+  | { $trace: 'regexp'; source: string; flags: string }
+  | { $trace: 'date'; value: string }
+  | { $trace: 'undefined' }
+  | { $trace: 'opaque'; type: string }
+  | { $trace: 'screenshot'; byteLength: number; sha256: string };
+
+/**
+ * 1x1 gray PNG that stands in for screenshots the recorder left out
+ */
+const PLACEHOLDER_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGNoAAAAggCBd81ytgAAAABJRU5ErkJggg==';
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function isTagged(value: unknown): value is EncodedValue {
+  return typeof value === 'object' && value !== null && typeof (value as { $trace?: unknown }).$trace === 'string';
+}
+
+/**
+ * Convert a value into JSON-safe data that decodeTraceValue restores
+ */
+export function encodeTraceValue(value: unknown): unknown {
+  if (value === undefined) return { $trace: 'undefined' };
+  if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'bigint') return { $trace: 'bigint', value: value.toString() };
+  if (value instanceof Uint8Array) {
+    return { $trace: 'bytes', base64: Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64') };
+  }
+  if (value instanceof RegExp) return { $trace: 'regexp', source: value.source, flags: value.flags };
+  if (value instanceof Date) return { $trace: 'date', value: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encodeTraceValue);
+
+  if (typeof value === 'object' && isPlainObject(value)) {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined || typeof item === 'function' || item instanceof AbortSignal) continue;
+      encoded[key] = encodeTraceValue(item);
+    }
+    return encoded;
+  }
+
+  const type = typeof value === 'object' ? value.constructor?.name ?? 'Object' : typeof value;
+  return { $trace: 'opaque', type };
+}
+
+export function decodeTraceValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeTraceValue);
+  if (typeof value !== 'object' || value === null) return value;
+
+  if (isTagged(value)) {
+    switch (value.$trace) {
+      case 'bytes': return Buffer.from(value.base64, 'base64');
+      case 'bigint': return BigInt(value.value);
+      case 'regexp': return new RegExp(value.source, value.flags);
+      case 'date': return new Date(value.value);
+      case 'screenshot': return Buffer.from(PLACEHOLDER_PNG_BASE64, 'base64');
+      case 'undefined':
+      case 'opaque':
+        return undefined;
+    }
+  }
+
+  const decoded: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    decoded[key] = decodeTraceValue(item);
+  }
+  return decoded;
+}
+
+/**
+ * A trailing `{ signal?, timeoutMs? }` bag is call plumbing, not part of
+ * what the caller asked the device to do
+ */
+function isCallOptions(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && isPlainObject(value)
+    && Object.keys(value).every(key => key === 'signal' || key === 'timeoutMs');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Canonical form of encoded call args for comparison: call options and
+ * trailing undefined args are ignored, object keys are sorted
+ */
+export function traceArgsKey(encodedArgs: unknown[]): string {
+  const args = [...encodedArgs];
+  while (args.length > 0) {
+    const last = args[args.length - 1];
+    const isUndefined = isTagged(last) && last.$trace === 'undefined';
+    if (!isUndefined && !isCallOptions(last)) break;
+    args.pop();
+  }
+  return canonicalJson(args);
+}
+
+function encodeError(error: unknown): TraceError {
+  if (error instanceof DeviceError) {
+    return { name: error.name, message: error.message, code: error.code, retryable: error.retryable };
+  }
+  if (error instanceof Error) return { name: error.name, message: error.message };
+  return { name: 'Error', message: String(error) };
+}
+
+/**
+ * Rebuild a recorded error; DeviceErrors keep their code and retryable flag
+ */
+export function decodeTraceError(error: TraceError, serial?: string, platform?: DevicePlatform): Error {
+  const rebuilt = error.code
+    ? new DeviceError(error.code, error.message, { serial, platform, retryable: error.retryable })
+    : new Error(error.message);
+  rebuilt.name = error.name;
+  return rebuilt;
+}
+
+// ─── File format ───
+
+export function serializeTrace(trace: SessionTrace, pretty = false): string {
+  return JSON.stringify(trace, null, pretty ? 2 : undefined);
+}
+
+/**
+ * Parse a trace file. Throws InvalidArgumentError for other versions or
+ * malformed input.
+ */
+export function parseTrace(text: string): SessionTrace {
+  let trace: SessionTrace;
+  try {
+    trace = JSON.parse(text);
+  } catch (error) {
+    throw new InvalidArgumentError(`Trace is not valid JSON: ${(error as Error).message}`, { cause: error });
+  }
+  if (trace?.version !== TRACE_FORMAT_VERSION) {
+    throw new InvalidArgumentError(`Unsupported trace version: ${trace?.version}`);
+  }
+  if (!Array.isArray(trace.calls)) {
+    throw new InvalidArgumentError('Trace has no calls array');
+  }
+  return trace;
+}
+
+// ─── Recording ───
+
+function withoutScreenshot(state: DeviceStateSnapshot): DeviceStateSnapshot {
+  const { screenshot: _screenshot, ...rest } = state;
+  return rest;
+}
+
+export interface TraceRecorderOptions {
+  /** Capture getDeviceState() before and after each action (default true) */
+  captureState?: boolean;
+  /**
+   * Keep screenshots in captured state and in screenshot() / getDeviceState()
+   * results (default false, they dominate file size)
+   */
+  includeScreenshots?: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Interceptor that records a SessionTrace:
+ *   const recorder = new TraceRecorder();
+ *   const service = withInterceptors(androidDeviceService, [recorder]);
+ *   ... run the session ...
+ *   fs.writeFileSync('run.trace.json', serializeTrace(recorder.getTrace()));
+ * State capture goes to the wrapped service directly, so it never shows up
+ * as calls of its own.
+ */
+export class TraceRecorder implements DeviceInterceptor {
+  readonly name = 'trace';
+  private calls: TraceCall[] = [];
+  private startedAt?: number;
+  private platform?: DevicePlatform;
+  private capabilities?: PlatformCapability[];
+  private captureState: boolean;
+  private includeScreenshots: boolean;
+  private metadata?: Record<string, unknown>;
+
+  constructor(options: TraceRecorderOptions = {}) {
+    this.captureState = options.captureState ?? true;
+    this.includeScreenshots = options.includeScreenshots ?? false;
+    this.metadata = options.metadata;
+  }
+
+  async intercept(context: InvocationContext, next: () => Promise<unknown>): Promise<unknown> {
+    const { method, serial, service } = context;
+    this.startedAt ??= context.startedAt;
+    this.platform ??= service.getPlatform();
+    this.capabilities ??= service.getCapabilities?.();
+
+    // Reserve the slot now so concurrent calls keep their start order
+    const call: TraceCall = {
+      index: this.calls.length,
+      method,
+      serial,
+      args: context.args.map(encodeTraceValue),
+      at: context.startedAt - this.startedAt,
+      durationMs: 0,
+    };
+    this.calls.push(call);
+
+    const captures = this.captureState && serial !== undefined && isTraceAction(method);
+    if (captures) {
+      call.stateBefore = await this.snapshot(context);
+    }
+
+    const start = Date.now();
+    try {
+      const result = await next();
+      if (result !== undefined) call.result = this.encodeResult(method, result);
+      return result;
+    } catch (error) {
+      call.error = encodeError(error);
+      throw error;
+    } finally {
+      call.durationMs = Date.now() - start;
+      if (captures) {
+        call.stateAfter = await this.snapshot(context);
+      }
+    }
+  }
+
+  getTrace(): SessionTrace {
+    return {
+      version: TRACE_FORMAT_VERSION,
+      startedAt: new Date(this.startedAt ?? Date.now()).toISOString(),
+      platform: this.platform,
+      capabilities: this.capabilities,
+      metadata: this.metadata,
+      calls: structuredClone(this.calls),
+    };
+  }
+
+  reset(): void {
+    this.calls = [];
+    this.startedAt = undefined;
+  }
+
+  /**
+   * Without includeScreenshots, screenshot() results keep only their size and
+   * hash (replayed as a placeholder PNG) and getDeviceState() results lose
+   * their screenshot, as captured state does
+   */
+  private encodeResult(method: InterceptableMethod, result: unknown): unknown {
+    if (!this.includeScreenshots) {
+      if (method === 'screenshot' && result instanceof Uint8Array) {
+        const sha256 = createHash('sha256').update(result).digest('hex');
+        return { $trace: 'screenshot', byteLength: result.byteLength, sha256 };
+      }
+      if (method === 'getDeviceState' && typeof result === 'object' && result !== null) {
+        return encodeTraceValue(withoutScreenshot(result as DeviceStateSnapshot));
+      }
+    }
+    return encodeTraceValue(result);
+  }
+
+  private async snapshot(context: InvocationContext): Promise<DeviceStateSnapshot | undefined> {
+    if (!context.service.getDeviceState) return undefined;
+    try {
+      const state = await context.service.getDeviceState(context.serial!);
+      return this.includeScreenshots ? state : withoutScreenshot(state);
+    } catch {
+      // A failed capture shouldn't fail the action being recorded
+      return undefined;
+    }
+  }
+}
@@ -26,6 +26,15 @@ export type VideoCodec = 'h264' | 'h265' | 'mjpeg';
  */
 export type ScrollDirection = 'up' | 'down' | 'left' | 'right';
 
+/**
+ * Per-call cancellation, accepted as the last argument of every async DeviceService method.
+ * An aborted `signal` rejects with CancelledError; an elapsed `timeoutMs` with DeviceTimeoutError.
+ */
+export interface CallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
 /**
  * Device status for simulators/emulators
  */
@@ -214,7 +223,10 @@ export type PlatformCapability =
   | 'media'
   | 'logStream'
   | 'biometrics'
-  | 'pushNotification';
+  | 'pushNotification'
+  | 'multiTouch'
+  | 'keyChords'
+  | `key:${DeviceKey}`;
 
 /**
  * A node in the UI accessibility tree.
@@ -280,9 +292,173 @@ export interface LogEntry {
   tag: string;
   message: string;
   pid?: number;
+  tid?: number;
+}
+
+/**
+ * Which log entries a log stream delivers. All fields are ANDed.
+ */
+export interface LogFilter {
+  /** Only these tags (exact match) */
+  tags?: string[];
+  /** Drop entries below this level */
+  minLevel?: LogLevel;
+  /** Only entries from processes of these apps (package / bundle ids) */
+  packages?: string[];
+  /** Only entries from these process ids */
+  pids?: number[];
+  /** Only entries whose message contains this text or matches this pattern */
+  message?: string | RegExp;
 }
 
 /**
  * Appearance mode for device UI
  */
 export type AppearanceMode = 'light' | 'dark';
+
+/**
+ * Normalized key names accepted by pressKey on every platform.
+ * Platforms translate them to native key codes or reject with UNSUPPORTED;
+ * `getCapabilities()` lists the supported ones as `key:<name>`.
+ */
+export type DeviceKey =
+  // Navigation
+  | 'back'
+  | 'home'
+  | 'menu'
+  | 'appSwitch'
+  | 'search'
+  // Volume / power
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'volumeMute'
+  | 'power'
+  // D-pad
+  | 'dpadUp'
+  | 'dpadDown'
+  | 'dpadLeft'
+  | 'dpadRight'
+  | 'dpadCenter'
+  // Media
+  | 'mediaPlayPause'
+  | 'mediaNext'
+  | 'mediaPrevious'
+  | 'mediaStop'
+  // Editing
+  | 'enter'
+  | 'tab'
+  | 'delete'
+  | 'forwardDelete'
+  | 'escape'
+  | 'space'
+  /** The focused field's IME action (Go / Search / Send / Next / Done) */
+  | 'imeAction';
+
+export type KeyModifier = 'shift' | 'ctrl' | 'alt' | 'meta';
+
+type Letter =
+  | 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm'
+  | 'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z';
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+/**
+ * Printable keys usable in chords (e.g. ctrl+a)
+ */
+export type CharacterKey = Letter | Digit;
+
+/**
+ * A key pressed while holding modifiers
+ */
+export interface KeyChord {
+  key: DeviceKey | CharacterKey;
+  modifiers?: KeyModifier[];
+}
+
+/**
+ * A platform-native key code or name sent as is, e.g. `{ raw: 'KEYCODE_CAMERA' }`
+ * or `{ raw: '27' }` on Android. Platforms without native codes reject it
+ * with UNSUPPORTED.
+ */
+export interface RawKey {
+  raw: string;
+}
+
+export type KeyInput = DeviceKey | KeyChord | RawKey;
+
+/**
+ * One step of a pointer (finger) in a gesture, modeled on W3C pointer actions.
+ * `move` positions the pointer (interpolated over `duration` ms while down);
+ * `down`/`up` press and lift at the current position.
+ */
+export type PointerStep =
+  | { type: 'move'; x: number; y: number; duration?: number }
+  | { type: 'down' }
+  | { type: 'up' }
+  | { type: 'pause'; duration?: number };
+
+/**
+ * Steps for one pointer. Sequences run in lockstep: step N of every pointer
+ * starts together, and the tick lasts as long as the slowest of them.
+ */
+export interface PointerSequence {
+  /** Label for logs and WDA input ids (default: finger1, finger2, ...) */
+  id?: string;
+  steps: PointerStep[];
+}
+
+// ─── Fake device model ───
+
+/**
+ * Rectangle in device pixels, same shape as AccessibilityNode bounds
+ */
+export interface FakeRegion {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * A transition out of a screen in a FakeAppModel.
+ * - tap: fires when a tap lands inside `region` (or the bounds of the node matched by `element`)
+ * - back: fires on back(); without one, back() pops the screen history
+ * - deeplink: fires when openDeepLink() is called with exactly `url`
+ * - type: fires when typeText() is called with `text` (any text when omitted)
+ */
+export interface FakeTransition {
+  trigger: 'tap' | 'back' | 'deeplink' | 'type';
+  to: string;
+  region?: FakeRegion;
+  element?: {
+    resourceId?: string;
+    text?: string;
+    contentDesc?: string;
+  };
+  url?: string;
+  text?: string;
+}
+
+/**
+ * A single screen of a fake app
+ */
+export interface FakeScreen {
+  id: string;
+  tree: AccessibilityNode[];
+  appPackage?: string;
+  currentApp?: string;
+  keyboardVisible?: boolean;
+  transitions?: FakeTransition[];
+}
+
+/**
+ * Declarative state-machine description of an app, consumed by FakeDeviceService
+ */
+export interface FakeAppModel {
+  initialScreen: string;
+  screens: FakeScreen[];
+  /** Deep links that work from any screen (url → screen id) */
+  deepLinks?: Record<string, string>;
+  appPackage?: string;
+  screenWidth?: number;
+  screenHeight?: number;
+}
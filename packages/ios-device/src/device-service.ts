@@ -11,6 +11,22 @@ import {
   AccessibilityNode,
   DeviceStateSnapshot,
   PlatformCapability,
+  CallOptions,
+  LockDiagnostics,
+  PointerSequence,
+  DeviceKey,
+  KeyInput,
+  formatKey,
+  isRawKey,
+  isDeviceKey,
+  keyCapabilities,
+  toKeyChord,
+  validatePointerSequences,
+  DeviceNotFoundError,
+  UnsupportedError,
+  toDeviceError,
+  withCallOptions,
+  abortableDelay,
 } from '@device-stream/core';
 import { parseWdaSourceXml } from './wda-hierarchy-parser';
 import { goIOSClient } from './go-ios-client';
@@ -18,6 +34,27 @@ import { webDriverAgentClient } from './wda-client';
 import { mjpegStreamClient } from './mjpeg-client';
 import { quickTimeCapture } from './quicktime-capture';
 
+type IOSKeyAction =
+  | { button: 'home' | 'volumeUp' | 'volumeDown' }
+  | { text: string }
+  | { gesture: 'back' };
+
+/**
+ * Keys WDA can press: hardware buttons, keyboard characters, and the
+ * edge-swipe used for back()
+ */
+const IOS_KEYS: Partial<Record<DeviceKey, IOSKeyAction>> = {
+  home: { button: 'home' },
+  volumeUp: { button: 'volumeUp' },
+  volumeDown: { button: 'volumeDown' },
+  back: { gesture: 'back' },
+  enter: { text: '\n' },
+  imeAction: { text: '\n' },
+  tab: { text: '\t' },
+  delete: { text: '\b' },
+  space: { text: ' ' },
+};
+
 export class IOSDeviceService extends BaseDeviceService {
   private wdaSessions: Map<string, boolean> = new Map();
   private streamMode: Map<string, 'mjpeg' | 'quicktime'> = new Map();
@@ -51,64 +88,69 @@ export class IOSDeviceService extends BaseDeviceService {
     };
   }
 
-  async listDevices(): Promise<Device[]> {
-    try {
-      const iosDevices = await goIOSClient.listDevices();
-      const devices: Device[] = [];
+  async listDevices(options?: CallOptions): Promise<Device[]> {
+    return withCallOptions(options, 'listDevices', { platform: 'ios' }, async signal => {
+      try {
+        const iosDevices = await goIOSClient.listDevices(signal);
+        const devices: Device[] = [];
 
-      for (const iosDevice of iosDevices) {
-        const { width, height } = this.getScreenDimensions(iosDevice.productType);
+        for (const iosDevice of iosDevices) {
+          const { width, height } = this.getScreenDimensions(iosDevice.productType);
 
-        let battery: number | undefined;
-        try {
-          battery = await goIOSClient.getBatteryLevel(iosDevice.udid);
-        } catch {
-          console.warn(`Could not get battery level for ${iosDevice.udid}`);
+          let battery: number | undefined;
+          try {
+            battery = await goIOSClient.getBatteryLevel(iosDevice.udid, signal);
+          } catch {
+            console.warn(`Could not get battery level for ${iosDevice.udid}`);
+          }
+
+          devices.push({
+            serial: iosDevice.udid,
+            platform: 'ios',
+            model: iosDevice.deviceName || iosDevice.productType,
+            osVersion: iosDevice.productVersion || 'Unknown',
+            screenWidth: width,
+            screenHeight: height,
+            battery,
+            connected: this.isConnected(iosDevice.udid),
+          });
         }
 
-        devices.push({
-          serial: iosDevice.udid,
-          platform: 'ios',
-          model: iosDevice.deviceName || iosDevice.productType,
-          osVersion: iosDevice.productVersion || 'Unknown',
-          screenWidth: width,
-          screenHeight: height,
-          battery,
-          connected: this.isConnected(iosDevice.udid),
-        });
+        return devices;
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error('Failed to list iOS devices:', error);
+        return [];
       }
-
-      return devices;
-    } catch (error) {
-      console.error('Failed to list iOS devices:', error);
-      return [];
-    }
+    });
   }
 
-  async connect(serial: string): Promise<void> {
-    await this.mutexManager.withDeviceLock(serial, async () => {
+  async connect(serial: string, options?: CallOptions): Promise<void> {
+    await this.exclusive(serial, 'connect', options, async signal => {
       try {
-        const device = await goIOSClient.getDeviceInfo(serial);
+        const device = await goIOSClient.getDeviceInfo(serial, signal);
         if (!device) {
-          throw new Error(`iOS device ${serial} not found`);
+          throw new DeviceNotFoundError(`iOS device ${serial} not found`, { serial, platform: 'ios' });
         }
 
         try {
-          await goIOSClient.pairDevice(serial);
+          await goIOSClient.pairDevice(serial, signal);
         } catch (error) {
+          if (signal?.aborted) throw error;
           console.warn(`Device pairing failed (may already be paired): ${error}`);
         }
 
         try {
-          await webDriverAgentClient.createSession(serial);
+          await webDriverAgentClient.createSession(serial, undefined, signal);
           this.wdaSessions.set(serial, true);
         } catch (wdaError) {
+          if (signal?.aborted) throw wdaError;
           console.log('Attempting to start WebDriverAgent...');
           try {
             await goIOSClient.installWebDriverAgent(serial);
 
-            await new Promise(resolve => setTimeout(resolve, 3000));
-            await webDriverAgentClient.createSession(serial);
+            await abortableDelay(3000, signal);
+            await webDriverAgentClient.createSession(serial, undefined, signal);
             this.wdaSessions.set(serial, true);
           } catch (retryError) {
             await goIOSClient.cleanup(serial).catch(() => {});
@@ -125,7 +167,7 @@ export class IOSDeviceService extends BaseDeviceService {
         console.log(`iOS device ${serial} connected successfully`);
       } catch (error) {
         console.error(`Failed to connect iOS device ${serial}:`, error);
-        throw new Error(`Failed to connect iOS device: ${error}`);
+        throw toDeviceError(error, 'Failed to connect iOS device', { serial, platform: 'ios' });
       }
     });
   }
@@ -133,7 +175,7 @@ export class IOSDeviceService extends BaseDeviceService {
   async disconnect(serial: string): Promise<void> {
     await this.mutexManager.withDeviceLock(serial, async () => {
       await this._teardown(serial);
-    });
+    }, { owner: 'disconnect' });
     this.mutexManager.removeMutex(serial);
   }
 
@@ -150,41 +192,49 @@ export class IOSDeviceService extends BaseDeviceService {
       console.log(`iOS device ${serial} disconnected`);
     } catch (error) {
       console.error(`Failed to disconnect iOS device ${serial}:`, error);
-      throw new Error(`Failed to disconnect iOS device: ${error}`);
+      throw toDeviceError(error, 'Failed to disconnect iOS device', { serial, platform: 'ios' });
     }
   }
 
-  async tap(serial: string, x: number, y: number): Promise<void> {
+  async tap(serial: string, x: number, y: number, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    await webDriverAgentClient.tap(serial, x, y);
+    await this.exclusive(serial, 'tap', options, signal => webDriverAgentClient.tap(serial, x, y, signal));
   }
 
-  async typeText(serial: string, text: string): Promise<void> {
+  async typeText(serial: string, text: string, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    await webDriverAgentClient.typeText(serial, text);
+    await this.exclusive(serial, 'typeText', options, signal => webDriverAgentClient.typeText(serial, text, signal));
   }
 
-  async pressKey(serial: string, key: string): Promise<void> {
+  async pressKey(serial: string, key: KeyInput, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
 
-    const keyMap: Record<string, 'home' | 'volumeUp' | 'volumeDown'> = {
-      home: 'home',
-      back: 'home',
-      volumeup: 'volumeUp',
-      volumedown: 'volumeDown',
-    };
+    const chord = toKeyChord(key);
+    if (isRawKey(chord)) {
+      throw new UnsupportedError(`Raw key codes are not supported on ios: ${chord.raw}`, { serial, platform: 'ios' });
+    }
+    if (chord.modifiers.length > 0) {
+      throw new UnsupportedError(`Key chords are not supported on ios: ${formatKey(key)}`, { serial, platform: 'ios' });
+    }
+
+    const action = isDeviceKey(chord.key) ? IOS_KEYS[chord.key] : { text: chord.key };
+    if (!action) {
+      throw new UnsupportedError(`Key ${formatKey(key)} is not supported on ios`, { serial, platform: 'ios' });
+    }
 
-    const iosButton = keyMap[key.toLowerCase()];
-    if (!iosButton) {
-      throw new Error(`Unsupported key: ${key}`);
+    if ('gesture' in action) {
+      await this.back(serial, options);
+      return;
     }
 
-    await webDriverAgentClient.pressButton(serial, iosButton);
+    await this.exclusive(serial, 'pressKey', options, signal => 'button' in action
+      ? webDriverAgentClient.pressButton(serial, action.button, signal)
+      : webDriverAgentClient.sendKeys(serial, action.text, signal));
   }
 
-  async screenshot(serial: string): Promise<Buffer> {
+  async screenshot(serial: string, options?: CallOptions): Promise<Buffer> {
     this.assertConnected(serial);
-    return await webDriverAgentClient.screenshot(serial);
+    return this.shared(serial, 'screenshot', options, signal => webDriverAgentClient.screenshot(serial, signal));
   }
 
   async swipe(
@@ -193,16 +243,19 @@ export class IOSDeviceService extends BaseDeviceService {
     startY: number,
     endX: number,
     endY: number,
-    duration?: number
+    duration?: number,
+    options?: CallOptions
   ): Promise<void> {
     this.assertConnected(serial);
-    await webDriverAgentClient.swipe(serial, startX, startY, endX, endY, duration);
+    await this.exclusive(serial, 'swipe', options, signal =>
+      webDriverAgentClient.swipe(serial, startX, startY, endX, endY, duration, signal));
   }
 
   async scroll(
     serial: string,
     direction: 'up' | 'down' | 'left' | 'right',
-    distance?: number
+    distance?: number,
+    options?: CallOptions
   ): Promise<void> {
     this.assertConnected(serial);
 
@@ -210,17 +263,18 @@ export class IOSDeviceService extends BaseDeviceService {
     const centerX = dims ? Math.floor(dims.width / 2) : undefined;
     const centerY = dims ? Math.floor(dims.height / 2) : undefined;
 
-    await webDriverAgentClient.scroll(serial, direction, distance, centerX, centerY);
+    await this.exclusive(serial, 'scroll', options, signal =>
+      webDriverAgentClient.scroll(serial, direction, distance, centerX, centerY, signal));
   }
 
-  async startMirroring(serial: string): Promise<VideoStreamMetadata> {
+  async startMirroring(serial: string, options?: CallOptions): Promise<VideoStreamMetadata> {
     this.assertConnected(serial);
 
-    const devices = await this.listDevices();
+    const devices = await this.listDevices(options);
     const device = devices.find(d => d.serial === serial);
 
     if (!device) {
-      throw new Error(`iOS device ${serial} not found`);
+      throw new DeviceNotFoundError(`iOS device ${serial} not found`, { serial, platform: 'ios' });
     }
 
     try {
@@ -254,7 +308,7 @@ export class IOSDeviceService extends BaseDeviceService {
       console.log(`Started QuickTime screen mirroring for iOS device ${serial}`);
     } catch (error) {
       console.error(`Failed to start QuickTime capture: ${error}`);
-      throw new Error(`Screen mirroring failed: ${error}`);
+      throw toDeviceError(error, 'Screen mirroring failed', { serial, platform: 'ios' });
     }
 
     return {
@@ -363,53 +417,102 @@ export class IOSDeviceService extends BaseDeviceService {
     return Array.from(this.connections.keys());
   }
 
+  /**
+   * Per-device lock holders and waiters, for debugging stuck calls
+   */
+  getLockDiagnostics(): Record<string, LockDiagnostics> {
+    return this.mutexManager.getDiagnostics();
+  }
+
+  /**
+   * Input actions and connect run alone on a device
+   */
+  private exclusive<T>(
+    serial: string,
+    operation: string,
+    options: CallOptions | undefined,
+    fn: (signal: AbortSignal | undefined) => Promise<T>
+  ): Promise<T> {
+    return this.cancellable(serial, operation, options, signal =>
+      this.mutexManager.withDeviceLock(serial, () => fn(signal), { signal, owner: operation }));
+  }
+
+  /**
+   * Reads (screenshots, hierarchy, app info) may overlap each other
+   */
+  private shared<T>(
+    serial: string,
+    operation: string,
+    options: CallOptions | undefined,
+    fn: (signal: AbortSignal | undefined) => Promise<T>
+  ): Promise<T> {
+    return this.cancellable(serial, operation, options, signal =>
+      this.mutexManager.withDeviceReadLock(serial, () => fn(signal), { signal, owner: operation }));
+  }
+
   // Explorer Methods
 
-  async captureUIHierarchy(serial: string): Promise<string> {
+  async captureUIHierarchy(serial: string, options?: CallOptions): Promise<string> {
     this.assertConnected(serial);
-    return await webDriverAgentClient.captureUIHierarchy(serial);
+    return this.shared(serial, 'captureUIHierarchy', options, signal =>
+      webDriverAgentClient.captureUIHierarchy(serial, signal));
   }
 
-  async getCurrentApp(serial: string): Promise<string> {
+  async getCurrentApp(serial: string, options?: CallOptions): Promise<string> {
     this.assertConnected(serial);
     try {
-      const appInfo = await webDriverAgentClient.getActiveAppInfo(serial);
+      const appInfo = await this.shared(serial, 'getCurrentApp', options, signal =>
+        webDriverAgentClient.getActiveAppInfo(serial, signal));
       return appInfo.bundleId;
-    } catch {
+    } catch (error) {
+      if (options?.signal?.aborted) throw error;
       return 'unknown';
     }
   }
 
-  async getCurrentActivity(serial: string): Promise<string> {
+  async getCurrentActivity(serial: string, options?: CallOptions): Promise<string> {
     this.assertConnected(serial);
     try {
-      const appInfo = await webDriverAgentClient.getActiveAppInfo(serial);
+      const appInfo = await this.shared(serial, 'getCurrentActivity', options, signal =>
+        webDriverAgentClient.getActiveAppInfo(serial, signal));
       return `${appInfo.bundleId}/${appInfo.name}`;
-    } catch {
+    } catch (error) {
+      if (options?.signal?.aborted) throw error;
       return 'unknown/unknown';
     }
   }
 
-  async activateApp(serial: string, bundleId: string): Promise<void> {
+  async activateApp(serial: string, bundleId: string, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    await webDriverAgentClient.activateApp(serial, bundleId);
+    await this.exclusive(serial, 'activateApp', options, signal =>
+      webDriverAgentClient.activateApp(serial, bundleId, signal));
   }
 
   // ─── Phase 2: Accessibility Tree + Device State ───
 
-  async getAccessibilityTree(serial: string, _maxElements?: number): Promise<AccessibilityNode[]> {
-    const xml = await this.captureUIHierarchy(serial);
+  async getAccessibilityTree(serial: string, _maxElements?: number, options?: CallOptions): Promise<AccessibilityNode[]> {
+    const xml = await this.captureUIHierarchy(serial, options);
     return parseWdaSourceXml(xml);
   }
 
-  async getDeviceState(serial: string): Promise<DeviceStateSnapshot> {
+  async getDeviceState(serial: string, options?: CallOptions): Promise<DeviceStateSnapshot> {
     this.assertConnected(serial);
+    return this.shared(serial, 'getDeviceState', options, signal => this.captureDeviceState(serial, signal));
+  }
+
+  private async captureDeviceState(serial: string, signal?: AbortSignal): Promise<DeviceStateSnapshot> {
     const start = Date.now();
 
     const [xml, appInfo, screenshotBuf] = await Promise.all([
-      this.captureUIHierarchy(serial),
-      webDriverAgentClient.getActiveAppInfo(serial).catch(() => ({ bundleId: 'unknown', name: 'unknown', pid: 0 })),
-      this.screenshot(serial).catch(() => null),
+      webDriverAgentClient.captureUIHierarchy(serial, signal),
+      webDriverAgentClient.getActiveAppInfo(serial, signal).catch(error => {
+        if (signal?.aborted) throw error;
+        return { bundleId: 'unknown', name: 'unknown', pid: 0 };
+      }),
+      webDriverAgentClient.screenshot(serial, signal).catch(error => {
+        if (signal?.aborted) throw error;
+        return null;
+      }),
     ]);
 
     const tree = parseWdaSourceXml(xml);
@@ -436,31 +539,44 @@ export class IOSDeviceService extends BaseDeviceService {
       'accessibility',
       'appManagement',
       'deepLinks',
+      'multiTouch',
+      ...keyCapabilities(Object.keys(IOS_KEYS) as DeviceKey[]),
     ];
   }
 
   // ─── Phase 3: App Management (wiring existing methods) ───
 
-  async launchApp(serial: string, bundleId: string): Promise<void> {
+  async launchApp(serial: string, bundleId: string, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    await webDriverAgentClient.launchApp(serial, bundleId);
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await this.exclusive(serial, 'launchApp', options, async signal => {
+      await webDriverAgentClient.launchApp(serial, bundleId, undefined, signal);
+      await abortableDelay(1000, signal);
+    });
   }
 
-  async terminateApp(serial: string, bundleId: string): Promise<void> {
+  async terminateApp(serial: string, bundleId: string, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
-    await webDriverAgentClient.terminateApp(serial, bundleId);
+    await this.exclusive(serial, 'terminateApp', options, signal =>
+      webDriverAgentClient.terminateApp(serial, bundleId, signal));
   }
 
   // ─── Phase 4: Navigation ───
 
-  async back(serial: string): Promise<void> {
+  async back(serial: string, options?: CallOptions): Promise<void> {
     this.assertConnected(serial);
     const dims = this.screenDimensionsCache.get(serial);
     const width = dims?.width ?? 1170;
     const height = dims?.height ?? 2532;
     // iOS back: swipe from left edge to 40% width
-    await webDriverAgentClient.swipe(serial, 5, Math.floor(height / 2), Math.floor(width * 0.4), Math.floor(height / 2), 300);
+    await this.exclusive(serial, 'back', options, signal =>
+      webDriverAgentClient.swipe(serial, 5, Math.floor(height / 2), Math.floor(width * 0.4), Math.floor(height / 2), 300, signal));
+  }
+
+  async performGestures(serial: string, pointers: PointerSequence[], options?: CallOptions): Promise<void> {
+    this.assertConnected(serial);
+    validatePointerSequences(pointers);
+    await this.exclusive(serial, 'performGestures', options, signal =>
+      webDriverAgentClient.performActions(serial, pointers, signal));
   }
 
   /**
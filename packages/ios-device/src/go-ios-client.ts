@@ -4,6 +4,7 @@
 
 import { exec, spawn, ChildProcess } from 'child_process';
 import { promisify } from 'util';
+import { InvalidArgumentError, TransportError } from '@device-stream/core';
 import { iosConfig } from './config';
 
 const execAsync = promisify(exec);
@@ -19,7 +20,7 @@ const BUNDLE_ID_PATTERN = /^[a-zA-Z][a-zA-Z0-9.-]+$/;
  */
 function validateUdid(udid: string): void {
   if (!udid || !UDID_PATTERN.test(udid)) {
-    throw new Error(`Invalid UDID format: ${udid}`);
+    throw new InvalidArgumentError(`Invalid UDID format: ${udid}`, { platform: 'ios' });
   }
 }
 
@@ -28,7 +29,7 @@ function validateUdid(udid: string): void {
  */
 function validateBundleId(bundleId: string): void {
   if (!bundleId || !BUNDLE_ID_PATTERN.test(bundleId)) {
-    throw new Error(`Invalid Bundle ID format: ${bundleId}`);
+    throw new InvalidArgumentError(`Invalid Bundle ID format: ${bundleId}`, { platform: 'ios' });
   }
 }
 
@@ -68,14 +69,14 @@ export class GoIOSClient {
   /**
    * List all connected iOS devices
    */
-  async listDevices(): Promise<GoIOSDevice[]> {
+  async listDevices(signal?: AbortSignal): Promise<GoIOSDevice[]> {
     const now = Date.now();
     if (this.cachedDevices.length > 0 && now - this.lastCacheTime < this.CACHE_TTL) {
       return this.cachedDevices;
     }
 
     try {
-      const { stdout } = await execAsync('ios list --details');
+      const { stdout } = await execAsync('ios list --details', { signal });
       const devices = this.parseDeviceList(stdout);
 
       this.cachedDevices = devices;
@@ -83,71 +84,75 @@ export class GoIOSClient {
 
       return devices;
     } catch (error) {
+      if (signal?.aborted) throw signal.reason;
       console.error('Failed to list iOS devices:', error);
-      throw new Error(`go-ios list command failed: ${error}`);
+      throw new TransportError(`go-ios list command failed: ${error}`, { cause: error, platform: 'ios' });
     }
   }
 
   /**
    * Get device info by UDID
    */
-  async getDeviceInfo(udid: string): Promise<GoIOSDevice | null> {
-    const devices = await this.listDevices();
+  async getDeviceInfo(udid: string, signal?: AbortSignal): Promise<GoIOSDevice | null> {
+    const devices = await this.listDevices(signal);
     return devices.find(d => d.udid === udid) || null;
   }
 
   /**
    * Pair with iOS device
    */
-  async pairDevice(udid: string): Promise<void> {
+  async pairDevice(udid: string, signal?: AbortSignal): Promise<void> {
     validateUdid(udid);
     try {
-      await execAsync(`ios pair --udid=${udid}`);
+      await execAsync(`ios pair --udid=${udid}`, { signal });
       console.log(`Paired with iOS device: ${udid}`);
     } catch (error) {
+      if (signal?.aborted) throw signal.reason;
       console.error(`Failed to pair with device ${udid}:`, error);
-      throw new Error(`Device pairing failed: ${error}`);
+      throw new TransportError(`Device pairing failed: ${error}`, { cause: error, serial: udid, platform: 'ios' });
     }
   }
 
   /**
    * Launch an app on the device
    */
-  async launchApp(udid: string, bundleId: string): Promise<void> {
+  async launchApp(udid: string, bundleId: string, signal?: AbortSignal): Promise<void> {
     validateUdid(udid);
     validateBundleId(bundleId);
     try {
-      await execAsync(`ios launch --udid=${udid} ${bundleId}`);
+      await execAsync(`ios launch --udid=${udid} ${bundleId}`, { signal });
       console.log(`Launched app ${bundleId} on device ${udid}`);
     } catch (error) {
+      if (signal?.aborted) throw signal.reason;
       console.error(`Failed to launch app on device ${udid}:`, error);
-      throw new Error(`App launch failed: ${error}`);
+      throw new TransportError(`App launch failed: ${error}`, { cause: error, serial: udid, platform: 'ios' });
     }
   }
 
   /**
    * Kill an app on the device
    */
-  async killApp(udid: string, bundleId: string): Promise<void> {
+  async killApp(udid: string, bundleId: string, signal?: AbortSignal): Promise<void> {
     validateUdid(udid);
     validateBundleId(bundleId);
     try {
-      await execAsync(`ios kill --udid=${udid} ${bundleId}`);
+      await execAsync(`ios kill --udid=${udid} ${bundleId}`, { signal });
       console.log(`Killed app ${bundleId} on device ${udid}`);
     } catch (error) {
+      if (signal?.aborted) throw signal.reason;
       console.error(`Failed to kill app on device ${udid}:`, error);
-      throw new Error(`App kill failed: ${error}`);
+      throw new TransportError(`App kill failed: ${error}`, { cause: error, serial: udid, platform: 'ios' });
     }
   }
 
   /**
    * Get battery information for a device
    */
-  async getBatteryLevel(udid: string): Promise<number | undefined> {
+  async getBatteryLevel(udid: string, signal?: AbortSignal): Promise<number | undefined> {
     validateUdid(udid);
 
     try {
-      const { stdout } = await execAsync(`ios diagnostics battery --udid=${udid}`);
+      const { stdout } = await execAsync(`ios diagnostics battery --udid=${udid}`, { signal });
 
       const levelMatch = stdout.match(/CurrentCapacity[:\s]+(\d+)/i) ||
                          stdout.match(/BatteryLevel[:\s]+(\d+)/i) ||
@@ -174,6 +179,7 @@ export class GoIOSClient {
 
       return undefined;
     } catch (error) {
+      if (signal?.aborted) throw signal.reason;
       console.warn(`[GoIOSClient] Failed to get battery info for device ${udid}:`, error);
       return undefined;
     }
@@ -248,7 +254,7 @@ export class GoIOSClient {
       console.log('Port forwarding started');
     } catch (error) {
       console.error(`Failed to start WebDriverAgent on device ${udid}:`, error);
-      throw new Error(`WebDriverAgent installation failed: ${error}`);
+      throw new TransportError(`WebDriverAgent installation failed: ${error}`, { cause: error, serial: udid, platform: 'ios' });
     }
   }
 
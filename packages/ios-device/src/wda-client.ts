@@ -3,15 +3,55 @@
  * Provides iOS automation capabilities
  */
 
+import {
+  CancelledError,
+  DeviceError,
+  DeviceTimeoutError,
+  ElementNotFoundError,
+  NotConnectedError,
+  TransportError,
+  PointerSequence,
+  PointerStep,
+  abortableDelay,
+  compileGestureTimeline,
+} from '@device-stream/core';
 import { iosConfig } from './config';
 
 /**
- * Retry with exponential backoff
+ * The caller's abort reason as a DeviceError
+ */
+function abortReason(signal: AbortSignal, url: string): DeviceError {
+  const reason = signal.reason;
+  return reason instanceof DeviceError
+    ? reason
+    : new CancelledError(`WDA request cancelled: ${url}`, { cause: reason, platform: 'ios' });
+}
+
+/**
+ * One PointerStep as a W3C pointer action
+ */
+function toW3CAction(step: PointerStep): Record<string, unknown> {
+  switch (step.type) {
+    case 'move':
+      return { type: 'pointerMove', duration: step.duration ?? 0, origin: 'viewport', x: step.x, y: step.y };
+    case 'down':
+      return { type: 'pointerDown', button: 0 };
+    case 'up':
+      return { type: 'pointerUp', button: 0 };
+    case 'pause':
+      return { type: 'pause', duration: step.duration ?? 0 };
+  }
+}
+
+/**
+ * Retry with exponential backoff.
+ * Stops immediately once `signal` aborts — a caller's deadline is not retryable.
  */
 async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
-  baseDelay: number = 1000
+  baseDelay: number = 1000,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: Error | null = null;
 
@@ -20,10 +60,17 @@ async function retryWithBackoff<T>(
       return await fn();
     } catch (error) {
       lastError = error as Error;
+      if (signal?.aborted) {
+        throw error;
+      }
+      // Retrying cannot fix a missing session, an unsupported call, etc.
+      if (error instanceof DeviceError && !error.retryable) {
+        throw error;
+      }
       if (attempt < maxRetries) {
         const delay = baseDelay * Math.pow(2, attempt);
         console.log(`[WDA] Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await abortableDelay(delay, signal);
       }
     }
   }
@@ -32,15 +79,23 @@ async function retryWithBackoff<T>(
 }
 
 /**
- * Fetch with timeout using AbortController
+ * Fetch with timeout using AbortController.
+ * `signal` (the caller's CallOptions) aborts the request as well.
  */
 async function fetchWithTimeout(
   url: string,
   options: { method?: string; headers?: Record<string, string>; body?: string } = {},
-  timeoutMs: number = 30000
+  timeoutMs: number = 30000,
+  signal?: AbortSignal
 ): Promise<globalThis.Response> {
+  if (signal?.aborted) {
+    throw abortReason(signal, url);
+  }
+
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
 
   try {
     const response = await fetch(url, {
@@ -50,8 +105,17 @@ async function fetchWithTimeout(
       signal: controller.signal,
     });
     return response;
+  } catch (error) {
+    if (signal?.aborted) {
+      throw abortReason(signal, url);
+    }
+    if (controller.signal.aborted) {
+      throw new DeviceTimeoutError(`WDA request timed out after ${timeoutMs}ms: ${url}`, { cause: error, platform: 'ios' });
+    }
+    throw new TransportError(`WDA request failed: ${url}: ${error}`, { cause: error, platform: 'ios' });
   } finally {
     clearTimeout(timeout);
+    signal?.removeEventListener('abort', onAbort);
   }
 }
 
@@ -86,7 +150,7 @@ export class WebDriverAgentClient {
   /**
    * Create a new WebDriverAgent session
    */
-  async createSession(udid: string, config?: WDASessionConfig): Promise<string> {
+  async createSession(udid: string, config?: WDASessionConfig, signal?: AbortSignal): Promise<string> {
     return retryWithBackoff(async () => {
       const response = await fetchWithTimeout(`${this.baseUrl}/session`, {
         method: 'POST',
@@ -101,10 +165,10 @@ export class WebDriverAgentClient {
             },
           },
         }),
-      }, this.timeout);
+      }, this.timeout, signal);
 
       if (!response.ok) {
-        throw new Error(`Failed to create session: ${response.statusText}`);
+        throw new TransportError(`Failed to create session: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
 
       const data = await response.json() as Record<string, unknown>;
@@ -112,14 +176,14 @@ export class WebDriverAgentClient {
       const sessionId = value?.sessionId || data.sessionId;
 
       if (!sessionId) {
-        throw new Error('No session ID returned from WebDriverAgent');
+        throw new TransportError('No session ID returned from WebDriverAgent', { serial: udid, platform: 'ios' });
       }
 
       this.sessions.set(udid, sessionId as string);
       console.log(`Created WebDriverAgent session ${sessionId} for device ${udid}`);
 
       return sessionId as string;
-    }, 3, 1000);
+    }, 3, 1000, signal);
   }
 
   /**
@@ -148,7 +212,7 @@ export class WebDriverAgentClient {
   /**
    * Perform tap at coordinates
    */
-  async tap(udid: string, x: number, y: number): Promise<void> {
+  async tap(udid: string, x: number, y: number, signal?: AbortSignal): Promise<void> {
     const sessionId = this.getSessionOrThrow(udid);
 
     await retryWithBackoff(async () => {
@@ -168,29 +232,30 @@ export class WebDriverAgentClient {
             ],
           }],
         }),
-      }, this.timeout);
+      }, this.timeout, signal);
 
       if (!response.ok) {
-        throw new Error(`Tap failed: ${response.statusText}`);
+        throw new TransportError(`Tap failed: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   /**
    * Type text
    */
-  async typeText(udid: string, text: string): Promise<void> {
+  async typeText(udid: string, text: string, signal?: AbortSignal): Promise<void> {
     const sessionId = this.getSessionOrThrow(udid);
 
     await retryWithBackoff(async () => {
       const activeElResponse = await fetchWithTimeout(
         `${this.baseUrl}/session/${sessionId}/element/active`,
         { method: 'GET' },
-        this.timeout
+        this.timeout,
+        signal
       );
 
       if (!activeElResponse.ok) {
-        throw new Error('No active element found for text input');
+        throw new ElementNotFoundError('No active element found for text input', { serial: udid, platform: 'ios' });
       }
 
       const activeElData = await activeElResponse.json() as Record<string, unknown>;
@@ -207,19 +272,20 @@ export class WebDriverAgentClient {
             value: text.split(''),
           }),
         },
-        this.timeout
+        this.timeout,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Type text failed: ${response.statusText}`);
+        throw new TransportError(`Type text failed: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   /**
    * Press a button (home, volumeUp, volumeDown)
    */
-  async pressButton(udid: string, button: 'home' | 'volumeUp' | 'volumeDown'): Promise<void> {
+  async pressButton(udid: string, button: 'home' | 'volumeUp' | 'volumeDown', signal?: AbortSignal): Promise<void> {
     const sessionId = this.getSessionOrThrow(udid);
 
     await retryWithBackoff(async () => {
@@ -230,41 +296,67 @@ export class WebDriverAgentClient {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ name: button }),
         },
-        this.timeout
+        this.timeout,
+        signal
+      );
+
+      if (!response.ok) {
+        throw new TransportError(`Press button failed: ${response.statusText}`, { serial: udid, platform: 'ios' });
+      }
+    }, 3, 500, signal);
+  }
+
+  /**
+   * Send keystrokes to whatever has keyboard focus (no element lookup)
+   */
+  async sendKeys(udid: string, text: string, signal?: AbortSignal): Promise<void> {
+    const sessionId = this.getSessionOrThrow(udid);
+
+    await retryWithBackoff(async () => {
+      const response = await fetchWithTimeout(
+        `${this.baseUrl}/session/${sessionId}/wda/keys`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ value: Array.from(text) }),
+        },
+        this.timeout,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Press button failed: ${response.statusText}`);
+        throw new TransportError(`Send keys failed: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   /**
    * Capture screenshot
    */
-  async screenshot(udid: string): Promise<Buffer> {
+  async screenshot(udid: string, signal?: AbortSignal): Promise<Buffer> {
     const sessionId = this.getSessionOrThrow(udid);
 
     return retryWithBackoff(async () => {
       const response = await fetchWithTimeout(
         `${this.baseUrl}/session/${sessionId}/screenshot`,
         { method: 'GET' },
-        this.timeout
+        this.timeout,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Screenshot failed: ${response.statusText}`);
+        throw new TransportError(`Screenshot failed: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
 
       const data = await response.json() as Record<string, unknown>;
       const base64Image = data.value as string;
 
       if (!base64Image) {
-        throw new Error('No screenshot data returned');
+        throw new TransportError('No screenshot data returned', { serial: udid, platform: 'ios' });
       }
 
       return Buffer.from(base64Image, 'base64');
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   /**
@@ -276,7 +368,8 @@ export class WebDriverAgentClient {
     startY: number,
     endX: number,
     endY: number,
-    duration: number = 300
+    duration: number = 300,
+    signal?: AbortSignal
   ): Promise<void> {
     const sessionId = this.getSessionOrThrow(udid);
 
@@ -300,13 +393,14 @@ export class WebDriverAgentClient {
             }],
           }),
         },
-        this.timeout
+        this.timeout,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Swipe failed: ${response.statusText}`);
+        throw new TransportError(`Swipe failed: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   /**
@@ -317,7 +411,8 @@ export class WebDriverAgentClient {
     direction: 'up' | 'down' | 'left' | 'right',
     distance: number = 300,
     centerX?: number,
-    centerY?: number
+    centerY?: number,
+    signal?: AbortSignal
   ): Promise<void> {
     const startX = centerX ?? 540;
     const startY = centerY ?? 960;
@@ -340,7 +435,7 @@ export class WebDriverAgentClient {
         break;
     }
 
-    await this.swipe(udid, startX, startY, endX, endY, 300);
+    await this.swipe(udid, startX, startY, endX, endY, 300, signal);
   }
 
   /**
@@ -372,35 +467,36 @@ export class WebDriverAgentClient {
   /**
    * Capture the UI hierarchy
    */
-  async captureUIHierarchy(udid: string): Promise<string> {
+  async captureUIHierarchy(udid: string, signal?: AbortSignal): Promise<string> {
     const sessionId = this.getSessionOrThrow(udid);
 
     return retryWithBackoff(async () => {
       const response = await fetchWithTimeout(
         `${this.baseUrl}/session/${sessionId}/source`,
         { method: 'GET' },
-        this.timeout
+        this.timeout,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to capture UI hierarchy: ${response.statusText}`);
+        throw new TransportError(`Failed to capture UI hierarchy: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
 
       const data = await response.json() as Record<string, unknown>;
       const source = data.value as string;
 
       if (!source) {
-        throw new Error('No source data returned');
+        throw new TransportError('No source data returned', { serial: udid, platform: 'ios' });
       }
 
       return source;
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   /**
    * Get active app information
    */
-  async getActiveAppInfo(udid: string): Promise<{
+  async getActiveAppInfo(udid: string, signal?: AbortSignal): Promise<{
     bundleId: string;
     name: string;
     pid: number;
@@ -411,18 +507,19 @@ export class WebDriverAgentClient {
       const response = await fetchWithTimeout(
         `${this.baseUrl}/session/${sessionId}/wda/activeAppInfo`,
         { method: 'GET' },
-        this.timeout
+        this.timeout,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to get active app info: ${response.statusText}`);
+        throw new TransportError(`Failed to get active app info: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
 
       const data = await response.json() as Record<string, unknown>;
       const appInfo = data.value as Record<string, unknown>;
 
       if (!appInfo) {
-        throw new Error('No app info returned');
+        throw new TransportError('No app info returned', { serial: udid, platform: 'ios' });
       }
 
       return {
@@ -430,13 +527,13 @@ export class WebDriverAgentClient {
         name: (appInfo.name as string) || 'Unknown',
         pid: (appInfo.pid as number) || 0,
       };
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   /**
    * Launch an app by bundle ID
    */
-  async launchApp(udid: string, bundleId: string, arguments_?: string[]): Promise<void> {
+  async launchApp(udid: string, bundleId: string, arguments_?: string[], signal?: AbortSignal): Promise<void> {
     const sessionId = this.getSessionOrThrow(udid);
 
     await retryWithBackoff(async () => {
@@ -450,19 +547,20 @@ export class WebDriverAgentClient {
             arguments: arguments_ || [],
           }),
         },
-        this.timeout
+        this.timeout,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to launch app: ${response.statusText}`);
+        throw new TransportError(`Failed to launch app: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
-    }, 3, 1000);
+    }, 3, 1000, signal);
   }
 
   /**
    * Terminate an app by bundle ID
    */
-  async terminateApp(udid: string, bundleId: string): Promise<void> {
+  async terminateApp(udid: string, bundleId: string, signal?: AbortSignal): Promise<void> {
     const sessionId = this.getSessionOrThrow(udid);
 
     await retryWithBackoff(async () => {
@@ -473,19 +571,20 @@ export class WebDriverAgentClient {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ bundleId }),
         },
-        this.timeout
+        this.timeout,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to terminate app: ${response.statusText}`);
+        throw new TransportError(`Failed to terminate app: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   /**
    * Activate an app (bring to foreground)
    */
-  async activateApp(udid: string, bundleId: string): Promise<void> {
+  async activateApp(udid: string, bundleId: string, signal?: AbortSignal): Promise<void> {
     const sessionId = this.getSessionOrThrow(udid);
 
     await retryWithBackoff(async () => {
@@ -496,19 +595,20 @@ export class WebDriverAgentClient {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ bundleId }),
         },
-        this.timeout
+        this.timeout,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to activate app: ${response.statusText}`);
+        throw new TransportError(`Failed to activate app: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   /**
    * Perform long press at coordinates
    */
-  async longPress(udid: string, x: number, y: number, duration: number = 1000): Promise<void> {
+  async longPress(udid: string, x: number, y: number, duration: number = 1000, signal?: AbortSignal): Promise<void> {
     const sessionId = this.getSessionOrThrow(udid);
 
     await retryWithBackoff(async () => {
@@ -531,19 +631,56 @@ export class WebDriverAgentClient {
             }],
           }),
         },
-        this.timeout
+        this.timeout,
+        signal
+      );
+
+      if (!response.ok) {
+        throw new TransportError(`Long press failed: ${response.statusText}`, { serial: udid, platform: 'ios' });
+      }
+    }, 3, 500, signal);
+  }
+
+  /**
+   * Perform a multi-pointer gesture, one touch input source per pointer
+   */
+  async performActions(udid: string, pointers: PointerSequence[], signal?: AbortSignal): Promise<void> {
+    const sessionId = this.getSessionOrThrow(udid);
+    // WDA answers only after the gesture has played out
+    const gestureMs = compileGestureTimeline(pointers).at(-1)?.at ?? 0;
+
+    await retryWithBackoff(async () => {
+      const response = await fetchWithTimeout(
+        `${this.baseUrl}/session/${sessionId}/actions`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            actions: pointers.map((pointer, index) => ({
+              type: 'pointer',
+              id: pointer.id ?? `finger${index + 1}`,
+              parameters: { pointerType: 'touch' },
+              actions: pointer.steps.map(toW3CAction),
+            })),
+          }),
+        },
+        this.timeout + gestureMs,
+        signal
       );
 
       if (!response.ok) {
-        throw new Error(`Long press failed: ${response.statusText}`);
+        throw new TransportError(`Gesture failed: ${response.statusText}`, { serial: udid, platform: 'ios' });
       }
-    }, 3, 500);
+    }, 3, 500, signal);
   }
 
   private getSessionOrThrow(udid: string): string {
     const sessionId = this.sessions.get(udid);
     if (!sessionId) {
-      throw new Error(`No active session for device ${udid}. Call createSession() first.`);
+      throw new NotConnectedError(`No active session for device ${udid}. Call createSession() first.`, {
+        serial: udid,
+        platform: 'ios',
+      });
     }
     return sessionId;
   }
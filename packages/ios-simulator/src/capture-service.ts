@@ -40,6 +40,7 @@ export class CaptureService extends EventEmitter {
   private captures = new Map<string, CaptureInstance>();
   private binaryPath: string;
   private onFrame: ((deviceId: string, base64Jpeg: string, width: number, height: number) => void) | null = null;
+  private onRawFrame: ((deviceId: string, jpeg: Buffer, width: number, height: number) => void) | null = null;
 
   constructor(binaryPath?: string) {
     super();
@@ -53,6 +54,14 @@ export class CaptureService extends EventEmitter {
     this.onFrame = cb;
   }
 
+  /**
+   * Set the callback for raw JPEG frames (no base64 encoding).
+   * Preferred for consumers that send binary WebSocket frames.
+   */
+  setRawFrameCallback(cb: (deviceId: string, jpeg: Buffer, width: number, height: number) => void): void {
+    this.onRawFrame = cb;
+  }
+
   /**
    * Check if the sim-capture binary exists.
    */
@@ -139,12 +148,15 @@ export class CaptureService extends EventEmitter {
 
             instance.frameCount++;
 
-            // Convert to base64 and inject
-            const base64 = jpegData.toString('base64');
             const header = instance.header!;
 
+            if (this.onRawFrame) {
+              this.onRawFrame(deviceId, jpegData, header.virtualWidth, header.virtualHeight);
+            }
+
+            // Only pay for base64 when a legacy consumer asked for it
             if (this.onFrame) {
-              this.onFrame(deviceId, base64, header.virtualWidth, header.virtualHeight);
+              this.onFrame(deviceId, jpegData.toString('base64'), header.virtualWidth, header.virtualHeight);
             }
 
             this.emit('frame', deviceId, instance.frameCount);
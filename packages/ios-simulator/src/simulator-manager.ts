@@ -14,12 +14,20 @@ import {
   CreateDeviceOptions,
   InstallAppResult,
   StreamResult,
+  DeviceProvider,
+  CallOptions,
+  withCallOptions,
+  DeviceNotFoundError,
+  UnsupportedError,
+  toDeviceError,
 } from '@device-stream/core';
 import { CaptureService } from './capture-service';
 
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
 
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30000;
+
 interface SimctlDevice {
   udid: string;
   name: string;
@@ -40,7 +48,8 @@ export interface IOSSimulatorManagerOptions {
   captureService?: CaptureService;
 }
 
-export class IOSSimulatorManager extends EventEmitter {
+export class IOSSimulatorManager extends EventEmitter implements DeviceProvider {
+  readonly platform = 'ios' as const;
   private devices: Map<string, FarmDevice> = new Map();
   private simulators: Map<string, Simulator> = new Map();
   private bootTimeout: number;
@@ -67,36 +76,42 @@ export class IOSSimulatorManager extends EventEmitter {
   /**
    * List available device types
    */
-  async listDeviceTypes(): Promise<string[]> {
-    try {
-      const { stdout } = await execAsync('xcrun simctl list devicetypes -j');
-      const data = JSON.parse(stdout);
-      return data.devicetypes.map((dt: { identifier: string }) => dt.identifier);
-    } catch (error) {
-      console.error('Failed to list device types:', error);
-      return [];
-    }
+  async listDeviceTypes(options?: CallOptions): Promise<string[]> {
+    return withCallOptions(options, 'listDeviceTypes', { platform: 'ios' }, async signal => {
+      try {
+        const { stdout } = await execAsync('xcrun simctl list devicetypes -j', { signal });
+        const data = JSON.parse(stdout);
+        return data.devicetypes.map((dt: { identifier: string }) => dt.identifier);
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error('Failed to list device types:', error);
+        return [];
+      }
+    });
   }
 
   /**
    * List available runtimes
    */
-  async listRuntimes(): Promise<SimctlRuntime[]> {
-    try {
-      const { stdout } = await execAsync('xcrun simctl list runtimes -j');
-      const data = JSON.parse(stdout);
-      return data.runtimes.filter((r: SimctlRuntime) => r.isAvailable);
-    } catch (error) {
-      console.error('Failed to list runtimes:', error);
-      return [];
-    }
+  async listRuntimes(options?: CallOptions): Promise<SimctlRuntime[]> {
+    return withCallOptions(options, 'listRuntimes', { platform: 'ios' }, async signal => {
+      try {
+        const { stdout } = await execAsync('xcrun simctl list runtimes -j', { signal });
+        const data = JSON.parse(stdout);
+        return data.runtimes.filter((r: SimctlRuntime) => r.isAvailable);
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error('Failed to list runtimes:', error);
+        return [];
+      }
+    });
   }
 
   /**
    * Get latest iOS runtime
    */
-  async getLatestIOSRuntime(): Promise<string | undefined> {
-    const runtimes = await this.listRuntimes();
+  async getLatestIOSRuntime(options?: CallOptions): Promise<string | undefined> {
+    const runtimes = await this.listRuntimes(options);
     const parseSemver = (v: string) => v.split('.').map(Number);
     const iosRuntimes = runtimes
       .filter(r => r.identifier.includes('iOS'))
@@ -112,38 +127,46 @@ export class IOSSimulatorManager extends EventEmitter {
   /**
    * List existing simulators
    */
-  async listExistingSimulators(): Promise<SimctlDevice[]> {
-    try {
-      const { stdout } = await execAsync('xcrun simctl list devices -j');
-      const data = JSON.parse(stdout);
-      const devices: SimctlDevice[] = [];
-
-      for (const runtime of Object.keys(data.devices)) {
-        for (const device of data.devices[runtime]) {
-          devices.push({
-            ...device,
-            runtime,
-          });
+  async listExistingSimulators(options?: CallOptions): Promise<SimctlDevice[]> {
+    return withCallOptions(options, 'listExistingSimulators', { platform: 'ios' }, async signal => {
+      try {
+        const { stdout } = await execAsync('xcrun simctl list devices -j', { signal });
+        const data = JSON.parse(stdout);
+        const devices: SimctlDevice[] = [];
+
+        for (const runtime of Object.keys(data.devices)) {
+          for (const device of data.devices[runtime]) {
+            devices.push({
+              ...device,
+              runtime,
+            });
+          }
         }
-      }
 
-      return devices;
-    } catch (error) {
-      console.error('Failed to list simulators:', error);
-      return [];
-    }
+        return devices;
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error('Failed to list simulators:', error);
+        return [];
+      }
+    });
   }
 
   /**
    * Create a new iOS simulator
    */
-  async createDevice(options: CreateDeviceOptions): Promise<FarmDevice> {
+  async createDevice(options: CreateDeviceOptions, callOptions?: CallOptions): Promise<FarmDevice> {
+    return withCallOptions(callOptions, 'createDevice', { platform: 'ios' }, signal =>
+      this.createDeviceInternal(options, signal));
+  }
+
+  private async createDeviceInternal(options: CreateDeviceOptions, signal: AbortSignal | undefined): Promise<FarmDevice> {
     const name = options.name || `farm-ios-${Date.now()}`;
     const deviceType = options.deviceType || 'com.apple.CoreSimulator.SimDeviceType.iPhone-15-Pro';
-    const runtime = options.osVersion || await this.getLatestIOSRuntime();
+    const runtime = options.osVersion || await this.getLatestIOSRuntime({ signal });
 
     if (!runtime) {
-      throw new Error('No iOS runtime available');
+      throw new UnsupportedError('No iOS runtime available', { platform: 'ios' });
     }
 
     const device: FarmDevice = {
@@ -162,7 +185,7 @@ export class IOSSimulatorManager extends EventEmitter {
 
     try {
       // Check if simulator with this name already exists
-      const existingSimulators = await this.listExistingSimulators();
+      const existingSimulators = await this.listExistingSimulators({ signal });
       const existing = existingSimulators.find(s => s.name === name);
 
       if (existing) {
@@ -175,9 +198,7 @@ export class IOSSimulatorManager extends EventEmitter {
       }
 
       // Create new simulator
-      const { stdout } = await execAsync(
-        `xcrun simctl create "${name}" "${deviceType}" "${runtime}"`
-      );
+      const { stdout } = await execFileAsync('xcrun', ['simctl', 'create', name, deviceType, runtime], { signal });
 
       const udid = stdout.trim();
       device.id = udid;
@@ -193,17 +214,24 @@ export class IOSSimulatorManager extends EventEmitter {
       device.status = 'error';
       device.error = error instanceof Error ? error.message : String(error);
       this.emit('device:error', { device, error: device.error });
-      throw error;
+      throw toDeviceError(error, `Failed to create simulator ${name}`, { platform: 'ios' });
     }
   }
 
   /**
-   * Start a simulator using appium-ios-simulator
+   * Start a simulator using appium-ios-simulator. appium can't be
+   * interrupted mid-boot, so an abort releases the caller and marks the
+   * device as errored.
    */
-  async startDevice(deviceId: string): Promise<FarmDevice> {
+  async startDevice(deviceId: string, options?: CallOptions): Promise<FarmDevice> {
+    return withCallOptions(options, 'startDevice', { serial: deviceId, platform: 'ios' }, signal =>
+      this.startDeviceInternal(deviceId, signal));
+  }
+
+  private async startDeviceInternal(deviceId: string, signal: AbortSignal | undefined): Promise<FarmDevice> {
     const device = this.devices.get(deviceId);
     if (!device) {
-      throw new Error(`Device not found: ${deviceId}`);
+      throw new DeviceNotFoundError(`Device not found: ${deviceId}`, { serial: deviceId, platform: 'ios' });
     }
 
     if (device.status === 'ready' || device.status === 'busy') {
@@ -223,16 +251,18 @@ export class IOSSimulatorManager extends EventEmitter {
         connectHardwareKeyboard: false,
         pasteboardAutomaticSync: 'off',
       });
+      signal?.throwIfAborted();
 
       // Wait for boot to complete
       await sim.waitForBoot(this.bootTimeout);
+      signal?.throwIfAborted();
 
       device.status = 'ready';
       this.emit('device:ready', device);
       return device;
     } catch (error) {
       // Check if already booted
-      if (error instanceof Error && error.message.includes('already booted')) {
+      if (!signal?.aborted && error instanceof Error && error.message.includes('already booted')) {
         device.status = 'ready';
         this.emit('device:ready', device);
         return device;
@@ -241,17 +271,23 @@ export class IOSSimulatorManager extends EventEmitter {
       device.status = 'error';
       device.error = error instanceof Error ? error.message : String(error);
       this.emit('device:error', { device, error: device.error });
-      throw error;
+      throw toDeviceError(error, `Failed to boot simulator ${deviceId}`, { serial: deviceId, platform: 'ios' });
     }
   }
 
   /**
-   * Stop a simulator
+   * Stop a simulator (default timeout 30s)
    */
-  async stopDevice(deviceId: string): Promise<void> {
+  async stopDevice(deviceId: string, options?: CallOptions): Promise<void> {
+    const callOptions = { ...options, timeoutMs: options?.timeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS };
+    return withCallOptions(callOptions, 'stopDevice', { serial: deviceId, platform: 'ios' }, signal =>
+      this.stopDeviceInternal(deviceId, signal));
+  }
+
+  private async stopDeviceInternal(deviceId: string, signal: AbortSignal | undefined): Promise<void> {
     const device = this.devices.get(deviceId);
     if (!device) {
-      throw new Error(`Device not found: ${deviceId}`);
+      throw new DeviceNotFoundError(`Device not found: ${deviceId}`, { serial: deviceId, platform: 'ios' });
     }
 
     if (device.status === 'stopped' || device.status === 'stopping') {
@@ -262,14 +298,13 @@ export class IOSSimulatorManager extends EventEmitter {
     this.emit('device:stopping', device);
 
     try {
-      const sim = await this.getSimulatorInstance(deviceId);
-      await sim.shutdown({ timeout: 30000 });
+      await execFileAsync('xcrun', ['simctl', 'shutdown', deviceId], { signal });
 
       device.status = 'stopped';
       this.emit('device:stopped', device);
     } catch (error) {
       // Check if already shutdown
-      if (error instanceof Error && error.message.includes('current state: Shutdown')) {
+      if (!signal?.aborted && error instanceof Error && error.message.includes('current state: Shutdown')) {
         device.status = 'stopped';
         this.emit('device:stopped', device);
         return;
@@ -278,29 +313,34 @@ export class IOSSimulatorManager extends EventEmitter {
       device.status = 'error';
       device.error = error instanceof Error ? error.message : String(error);
       this.emit('device:error', { device, error: device.error });
-      throw error;
+      throw toDeviceError(error, `Failed to stop simulator ${deviceId}`, { serial: deviceId, platform: 'ios' });
     }
   }
 
   /**
    * Delete a simulator
    */
-  async deleteDevice(deviceId: string): Promise<void> {
+  async deleteDevice(deviceId: string, options?: CallOptions): Promise<void> {
+    return withCallOptions(options, 'deleteDevice', { serial: deviceId, platform: 'ios' }, signal =>
+      this.deleteDeviceInternal(deviceId, signal));
+  }
+
+  private async deleteDeviceInternal(deviceId: string, signal: AbortSignal | undefined): Promise<void> {
     const device = this.devices.get(deviceId);
     if (device && device.status !== 'stopped') {
-      await this.stopDevice(deviceId);
+      await this.stopDevice(deviceId, { signal });
     }
 
     try {
-      const sim = await this.getSimulatorInstance(deviceId);
-      await sim.delete();
+      await execFileAsync('xcrun', ['simctl', 'delete', deviceId], { signal });
 
       this.devices.delete(deviceId);
       this.simulators.delete(deviceId);
       console.log(`Deleted simulator: ${deviceId}`);
     } catch (error) {
+      if (signal?.aborted) throw signal.reason;
       console.error(`Failed to delete simulator ${deviceId}:`, error);
-      throw error;
+      throw toDeviceError(error, `Failed to delete simulator ${deviceId}`, { serial: deviceId, platform: 'ios' });
     }
   }
 
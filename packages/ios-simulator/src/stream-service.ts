@@ -4,6 +4,14 @@
  */
 
 import { WebSocket } from 'ws';
+import {
+  CODEC,
+  StreamFormat,
+  StreamPacket,
+  createFrameMessage,
+  encodeStreamPacket,
+  negotiateStreamFormat,
+} from '@device-stream/core';
 
 interface SimulatorMetadata {
   width: number;
@@ -12,7 +20,8 @@ interface SimulatorMetadata {
 }
 
 interface SimulatorConnection {
-  browsers: Set<WebSocket>;
+  /** Connected browsers and the wire format each one negotiated */
+  browsers: Map<WebSocket, StreamFormat>;
   metadata?: SimulatorMetadata;
   lastFrameTime: number;
   frameCount: number;
@@ -25,12 +34,16 @@ export class SimulatorStreamService {
   /**
    * Handle connection from browser wanting to view simulator stream
    */
-  handleBrowserConnection(ws: WebSocket, deviceId: string): void {
+  handleBrowserConnection(
+    ws: WebSocket,
+    deviceId: string,
+    format: StreamFormat = negotiateStreamFormat(ws.protocol),
+  ): void {
     let conn = this.connections.get(deviceId);
 
     if (!conn) {
       conn = {
-        browsers: new Set(),
+        browsers: new Map(),
         lastFrameTime: Date.now(),
         frameCount: 0,
       };
@@ -43,7 +56,7 @@ export class SimulatorStreamService {
       conn.cleanupTimer = undefined;
     }
 
-    conn.browsers.add(ws);
+    conn.browsers.set(ws, format);
     console.log(`[SimStream] Browser connected to ${deviceId} (${conn.browsers.size} browsers)`);
 
     // Send metadata if available (capture already running)
@@ -77,15 +90,33 @@ export class SimulatorStreamService {
   }
 
   /**
-   * Inject a frame from CaptureService (ScreenCaptureKit).
+   * Inject a base64 frame from CaptureService (ScreenCaptureKit).
    * Creates/updates the connection entry and broadcasts to all connected browsers.
    */
   injectFrame(deviceId: string, base64Jpeg: string, width: number, height: number): void {
+    this.broadcastFrame(deviceId, Buffer.from(base64Jpeg, 'base64'), width, height, base64Jpeg);
+  }
+
+  /**
+   * Inject a raw JPEG frame from CaptureService (ScreenCaptureKit).
+   * Binary viewers get the bytes as-is; JSON viewers get them base64-encoded.
+   */
+  injectJpegFrame(deviceId: string, jpeg: Buffer, width: number, height: number): void {
+    this.broadcastFrame(deviceId, jpeg, width, height);
+  }
+
+  private broadcastFrame(
+    deviceId: string,
+    jpeg: Buffer,
+    width: number,
+    height: number,
+    base64Jpeg?: string,
+  ): void {
     let conn = this.connections.get(deviceId);
 
     if (!conn) {
       conn = {
-        browsers: new Set(),
+        browsers: new Map(),
         lastFrameTime: Date.now(),
         frameCount: 0,
       };
@@ -103,7 +134,7 @@ export class SimulatorStreamService {
         height,
         fps: 30,
       });
-      conn.browsers.forEach(browser => {
+      conn.browsers.forEach((_format, browser) => {
         if (browser.readyState === WebSocket.OPEN) {
           browser.send(metaMsg);
         }
@@ -117,18 +148,23 @@ export class SimulatorStreamService {
       console.log(`[SimStream] Device ${deviceId} first injected frame - ScreenCaptureKit working`);
     }
 
-    // Broadcast frame to all browsers
-    const frameData = JSON.stringify({
-      type: 'frame',
-      data: base64Jpeg,
-      pts: conn.frameCount,
-      codec: 'mjpeg',
-    });
+    // Broadcast frame to all browsers, encoding at most once per format
+    const pts = conn.frameCount;
+    const packet: StreamPacket = { type: 'frame', codec: CODEC.MJPEG, data: jpeg, pts };
+    const encoded = new Map<StreamFormat, string | Buffer>();
+    if (base64Jpeg !== undefined) {
+      // Reuse the caller's base64 for JSON viewers instead of re-encoding
+      encoded.set('json', JSON.stringify(createFrameMessage(base64Jpeg, pts)));
+    }
 
-    conn.browsers.forEach(browser => {
-      if (browser.readyState === WebSocket.OPEN) {
-        browser.send(frameData);
+    conn.browsers.forEach((format, browser) => {
+      if (browser.readyState !== WebSocket.OPEN) return;
+      let message = encoded.get(format);
+      if (message === undefined) {
+        message = encodeStreamPacket(packet, format);
+        encoded.set(format, message);
       }
+      browser.send(message);
     });
   }
 
@@ -165,7 +201,7 @@ export class SimulatorStreamService {
    */
   cleanup(): void {
     for (const [, conn] of this.connections) {
-      conn.browsers.forEach(browser => {
+      conn.browsers.forEach((_format, browser) => {
         if (browser.readyState === WebSocket.OPEN) {
           browser.close();
         }
@@ -1,17 +1,25 @@
 import { WebSocket } from 'ws';
 import { AndroidDeviceService, ScrcpyService } from '@device-stream/android';
+import {
+  DeviceTimeoutError,
+  StreamFormat,
+  StreamPacket,
+  encodeStreamPacket,
+  negotiateStreamFormat,
+} from '@device-stream/core';
 import type { StreamDevice, StreamInfo } from './types';
 
 interface AndroidSession {
   serial: string;
-  browsers: Set<WebSocket>;
+  /** Connected browsers and the wire format each one negotiated */
+  browsers: Map<WebSocket, StreamFormat>;
   metadata?: { codec: number; width: number; height: number };
   deviceWidth: number;
   deviceHeight: number;
   /** Cached H.264 configuration (SPS/PPS) — needed to initialize a decoder */
-  lastConfig?: string;
+  lastConfig?: StreamPacket;
   /** Cached last keyframe — lets late-joining browsers see the current screen */
-  lastKeyframe?: string;
+  lastKeyframe?: StreamPacket;
 }
 
 export class AndroidStreamer {
@@ -64,12 +72,12 @@ export class AndroidStreamer {
 
     // Ensure session entry exists for WS clients that connected early
     if (!this.sessions.has(serial)) {
-      this.sessions.set(serial, { serial, browsers: new Set(), deviceWidth: fallbackWidth, deviceHeight: fallbackHeight });
+      this.sessions.set(serial, { serial, browsers: new Map(), deviceWidth: fallbackWidth, deviceHeight: fallbackHeight });
     }
     const session = this.sessions.get(serial)!;
 
-    // Start scrcpy with callback-based frame delivery
-    await this.scrcpyService.startStreamWithCallback(
+    // Start scrcpy with raw packet delivery (encoded per browser format below)
+    await this.scrcpyService.startPacketStream(
       adb,
       serial,
       (metadata) => {
@@ -87,7 +95,7 @@ export class AndroidStreamer {
           height,
           fps: 60,
         });
-        session.browsers.forEach(ws => {
+        session.browsers.forEach((_format, ws) => {
           if (ws.readyState === WebSocket.OPEN) {
             ws.send(metaMsg);
           }
@@ -95,18 +103,22 @@ export class AndroidStreamer {
       },
       (packet) => {
         // Cache configuration and keyframes for late-joining browsers
-        const frameMsg = JSON.stringify(packet);
         if (packet.type === 'configuration') {
-          session.lastConfig = frameMsg;
+          session.lastConfig = packet;
         } else if (packet.type === 'data' && packet.keyframe) {
-          session.lastKeyframe = frameMsg;
+          session.lastKeyframe = packet;
         }
 
-        // Broadcast frame to all connected browsers
-        session.browsers.forEach(ws => {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(frameMsg);
+        // Encode at most once per format, then broadcast to all connected browsers
+        const encoded = new Map<StreamFormat, string | Buffer>();
+        session.browsers.forEach((format, ws) => {
+          if (ws.readyState !== WebSocket.OPEN) return;
+          let message = encoded.get(format);
+          if (message === undefined) {
+            message = encodeStreamPacket(packet, format);
+            encoded.set(format, message);
           }
+          ws.send(message);
         });
       },
     );
@@ -116,7 +128,7 @@ export class AndroidStreamer {
       if (session.metadata) return resolve();
       const timer = setTimeout(() => {
         clearInterval(interval);
-        reject(new Error(`Timed out waiting for scrcpy metadata for ${serial}`));
+        reject(new DeviceTimeoutError(`Timed out waiting for scrcpy metadata for ${serial}`, { serial, platform: 'android' }));
       }, 5000);
       const interval = setInterval(() => {
         if (session.metadata) {
@@ -140,7 +152,7 @@ export class AndroidStreamer {
     const session = this.sessions.get(serial);
     if (session) {
       // Close all browser connections
-      session.browsers.forEach(ws => {
+      session.browsers.forEach((_format, ws) => {
         if (ws.readyState === WebSocket.OPEN) {
           ws.send(JSON.stringify({ type: 'device_disconnected', deviceId: serial }));
           ws.close();
@@ -153,12 +165,16 @@ export class AndroidStreamer {
     await this.deviceService.disconnect(serial);
   }
 
-  handleWebSocket(ws: WebSocket, serial: string): void {
+  /**
+   * Attach a browser. Without an explicit format it is negotiated from the
+   * WebSocket subprotocol, falling back to JSON.
+   */
+  handleWebSocket(ws: WebSocket, serial: string, format: StreamFormat = negotiateStreamFormat(ws.protocol)): void {
     if (!this.sessions.has(serial)) {
-      this.sessions.set(serial, { serial, browsers: new Set(), deviceWidth: 1080, deviceHeight: 1920 });
+      this.sessions.set(serial, { serial, browsers: new Map(), deviceWidth: 1080, deviceHeight: 1920 });
     }
     const session = this.sessions.get(serial)!;
-    session.browsers.add(ws);
+    session.browsers.set(ws, format);
 
     console.log(`[AndroidStreamer] Browser connected to ${serial} (${session.browsers.size} browsers)`);
 
@@ -176,10 +192,10 @@ export class AndroidStreamer {
         fps: 60,
       }));
       if (session.lastConfig) {
-        ws.send(session.lastConfig);
+        ws.send(encodeStreamPacket(session.lastConfig, format));
       }
       if (session.lastKeyframe) {
-        ws.send(session.lastKeyframe);
+        ws.send(encodeStreamPacket(session.lastKeyframe, format));
       }
     }
 
@@ -3,6 +3,7 @@ import { promisify } from 'util';
 import { WebSocket } from 'ws';
 import { CaptureService } from '@device-stream/ios-simulator';
 import { SimulatorStreamService } from '@device-stream/ios-simulator';
+import { TransportError, StreamFormat, CallOptions, withCallOptions, negotiateStreamFormat } from '@device-stream/core';
 import type { StreamDevice, StreamInfo } from './types';
 
 const execFileAsync = promisify(execFile);
@@ -27,45 +28,48 @@ export class SimulatorStreamer {
     this.captureService = new CaptureService();
     this.streamService = new SimulatorStreamService();
 
-    // Wire capture frames into the stream service
-    this.captureService.setFrameCallback((deviceId, base64Jpeg, width, height) => {
-      this.streamService.injectFrame(deviceId, base64Jpeg, width, height);
+    // Wire raw capture frames into the stream service (encoded per browser format)
+    this.captureService.setRawFrameCallback((deviceId, jpeg, width, height) => {
+      this.streamService.injectJpegFrame(deviceId, jpeg, width, height);
     });
   }
 
-  async listDevices(): Promise<StreamDevice[]> {
-    try {
-      const { stdout } = await execFileAsync('xcrun', [
-        'simctl', 'list', 'devices', 'available', '-j',
-      ]);
-      const parsed: SimctlRuntime = JSON.parse(stdout);
-      const devices: StreamDevice[] = [];
-
-      for (const [runtime, deviceList] of Object.entries(parsed.devices)) {
-        for (const device of deviceList) {
-          if (device.state !== 'Booted') continue;
-
-          // Extract iOS version from runtime identifier
-          // e.g. "com.apple.CoreSimulator.SimRuntime.iOS-17-4" → "iOS 17.4"
-          const versionMatch = runtime.match(/iOS[- ](\d+)[- ](\d+)/);
-          const version = versionMatch ? `iOS ${versionMatch[1]}.${versionMatch[2]}` : '';
-          const displayName = version ? `${device.name} (${version})` : device.name;
-
-          devices.push({
-            serial: device.udid,
-            platform: 'ios-simulator',
-            name: displayName,
-            screenWidth: 1170,  // Default; actual size comes from capture header
-            screenHeight: 2532,
-          });
+  async listDevices(options?: CallOptions): Promise<StreamDevice[]> {
+    return withCallOptions(options, 'listDevices', { platform: 'ios' }, async signal => {
+      try {
+        const { stdout } = await execFileAsync('xcrun', [
+          'simctl', 'list', 'devices', 'available', '-j',
+        ], { signal });
+        const parsed: SimctlRuntime = JSON.parse(stdout);
+        const devices: StreamDevice[] = [];
+
+        for (const [runtime, deviceList] of Object.entries(parsed.devices)) {
+          for (const device of deviceList) {
+            if (device.state !== 'Booted') continue;
+
+            // Extract iOS version from runtime identifier
+            // e.g. "com.apple.CoreSimulator.SimRuntime.iOS-17-4" → "iOS 17.4"
+            const versionMatch = runtime.match(/iOS[- ](\d+)[- ](\d+)/);
+            const version = versionMatch ? `iOS ${versionMatch[1]}.${versionMatch[2]}` : '';
+            const displayName = version ? `${device.name} (${version})` : device.name;
+
+            devices.push({
+              serial: device.udid,
+              platform: 'ios-simulator',
+              name: displayName,
+              screenWidth: 1170,  // Default; actual size comes from capture header
+              screenHeight: 2532,
+            });
+          }
         }
-      }
 
-      return devices;
-    } catch (error) {
-      console.error('[SimulatorStreamer] Failed to list simulators:', error);
-      return [];
-    }
+        return devices;
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        console.error('[SimulatorStreamer] Failed to list simulators:', error);
+        return [];
+      }
+    });
   }
 
   async startStream(serial: string): Promise<StreamInfo> {
@@ -87,7 +91,10 @@ export class SimulatorStreamer {
     });
 
     if (!started) {
-      throw new Error(`Failed to start capture for simulator ${serial}. Is sim-capture binary built?`);
+      throw new TransportError(`Failed to start capture for simulator ${serial}. Is sim-capture binary built?`, {
+        serial,
+        platform: 'ios',
+      });
     }
 
     this.activeDevices.add(serial);
@@ -110,8 +117,12 @@ export class SimulatorStreamer {
     await this.captureService.stopCapture(serial);
   }
 
-  handleWebSocket(ws: WebSocket, serial: string): void {
-    this.streamService.handleBrowserConnection(ws, serial);
+  /**
+   * Attach a browser. Without an explicit format it is negotiated from the
+   * WebSocket subprotocol, falling back to JSON.
+   */
+  handleWebSocket(ws: WebSocket, serial: string, format: StreamFormat = negotiateStreamFormat(ws.protocol)): void {
+    this.streamService.handleBrowserConnection(ws, serial, format);
   }
 
   isStreaming(serial: string): boolean {
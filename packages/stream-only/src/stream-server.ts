@@ -1,5 +1,11 @@
 import * as http from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
+import {
+  BINARY_SUBPROTOCOL,
+  DeviceNotFoundError,
+  StreamFormat,
+  negotiateStreamFormat,
+} from '@device-stream/core';
 import { AndroidStreamer } from './android-streamer';
 import { SimulatorStreamer } from './simulator-streamer';
 import type { StreamServerOptions, StreamDevice, StreamInfo } from './types';
@@ -10,7 +16,9 @@ export class StreamServer {
   private androidStreamer: AndroidStreamer;
   private simulatorStreamer: SimulatorStreamer;
   private streams = new Map<string, StreamInfo>();
-  private pendingClients = new Map<string, Set<WebSocket>>();
+  private pendingClients = new Map<string, Map<WebSocket, StreamFormat>>();
+  /** serial → owning platform, learned from every device listing */
+  private owners = new Map<string, StreamDevice['platform']>();
 
   constructor(options: StreamServerOptions = {}) {
     const port = options.port ?? 3456;
@@ -23,7 +31,11 @@ export class StreamServer {
       this.handleHttpRequest(req, res);
     });
 
-    this.wss = new WebSocketServer({ noServer: true });
+    // Accept the binary subprotocol when offered; anything else stays JSON
+    this.wss = new WebSocketServer({
+      noServer: true,
+      handleProtocols: (protocols) => (protocols.has(BINARY_SUBPROTOCOL) ? BINARY_SUBPROTOCOL : false),
+    });
 
     this.httpServer.on('upgrade', (request, socket, head) => {
       this.handleUpgrade(request, socket, head);
@@ -77,21 +89,22 @@ export class StreamServer {
     }
 
     const serial = decodeURIComponent(match[1]);
+    const requestedFormat = url.searchParams.get('format');
 
     this.wss.handleUpgrade(request, socket, head, (ws) => {
-      this.handleWebSocketConnection(ws, serial);
+      this.handleWebSocketConnection(ws, serial, negotiateStreamFormat(ws.protocol, requestedFormat));
     });
   }
 
-  private handleWebSocketConnection(ws: WebSocket, serial: string): void {
+  private handleWebSocketConnection(ws: WebSocket, serial: string, format: StreamFormat): void {
     const streamInfo = this.streams.get(serial);
 
     if (!streamInfo) {
       // Stream not started yet — queue the connection until startStream() is called.
       if (!this.pendingClients.has(serial)) {
-        this.pendingClients.set(serial, new Set());
+        this.pendingClients.set(serial, new Map());
       }
-      this.pendingClients.get(serial)!.add(ws);
+      this.pendingClients.get(serial)!.set(ws, format);
 
       ws.on('close', () => {
         this.pendingClients.get(serial)?.delete(ws);
@@ -99,14 +112,19 @@ export class StreamServer {
       return;
     }
 
-    this.routeWebSocket(ws, serial, streamInfo.platform);
+    this.routeWebSocket(ws, serial, streamInfo.platform, format);
   }
 
-  private routeWebSocket(ws: WebSocket, serial: string, platform: 'android' | 'ios-simulator'): void {
+  private routeWebSocket(
+    ws: WebSocket,
+    serial: string,
+    platform: 'android' | 'ios-simulator',
+    format: StreamFormat,
+  ): void {
     if (platform === 'android') {
-      this.androidStreamer.handleWebSocket(ws, serial);
+      this.androidStreamer.handleWebSocket(ws, serial, format);
     } else {
-      this.simulatorStreamer.handleWebSocket(ws, serial);
+      this.simulatorStreamer.handleWebSocket(ws, serial, format);
     }
   }
 
@@ -115,9 +133,9 @@ export class StreamServer {
     if (!pending) return;
 
     this.pendingClients.delete(serial);
-    for (const ws of pending) {
+    for (const [ws, format] of pending) {
       if (ws.readyState === WebSocket.OPEN) {
-        this.routeWebSocket(ws, serial, platform);
+        this.routeWebSocket(ws, serial, platform, format);
       }
     }
   }
@@ -127,7 +145,13 @@ export class StreamServer {
       this.androidStreamer.listDevices(),
       this.simulatorStreamer.listDevices(),
     ]);
-    return [...android, ...simulator];
+    const devices = [...android, ...simulator];
+
+    this.owners.clear();
+    for (const device of devices) {
+      this.owners.set(device.serial, device.platform);
+    }
+    return devices;
   }
 
   async startStream(serial: string): Promise<StreamInfo> {
@@ -135,24 +159,24 @@ export class StreamServer {
     const existing = this.streams.get(serial);
     if (existing) return existing;
 
-    // Determine platform by trying both
-    const [androidDevices, simulatorDevices] = await Promise.all([
-      this.androidStreamer.listDevices(),
-      this.simulatorStreamer.listDevices(),
-    ]);
-
-    const isAndroid = androidDevices.some(d => d.serial === serial);
-    const isSimulator = simulatorDevices.some(d => d.serial === serial);
-
-    if (!isAndroid && !isSimulator) {
-      throw new Error(`Device ${serial} not found`);
+    // Only re-list devices when the serial hasn't been seen yet (hot-plug)
+    if (!this.owners.has(serial)) {
+      await this.listDevices();
+    }
+    const platform = this.owners.get(serial);
+    if (!platform) {
+      throw new DeviceNotFoundError(`Device ${serial} not found`, { serial });
     }
 
     let info: StreamInfo;
-    if (isAndroid) {
-      info = await this.androidStreamer.startStream(serial);
-    } else {
-      info = await this.simulatorStreamer.startStream(serial);
+    try {
+      info = platform === 'android'
+        ? await this.androidStreamer.startStream(serial)
+        : await this.simulatorStreamer.startStream(serial);
+    } catch (error) {
+      // Possibly unplugged since the last listing; re-resolve next time
+      this.owners.delete(serial);
+      throw error;
     }
 
     this.streams.set(serial, info);